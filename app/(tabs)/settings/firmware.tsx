@@ -0,0 +1,532 @@
+import FontAwesome from "@expo/vector-icons/FontAwesome";
+import * as DocumentPicker from "expo-document-picker";
+import { Stack } from "expo-router";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { ActivityIndicator, Pressable, ScrollView, StyleSheet, TextInput, View as RNView } from "react-native";
+
+import Colors from "@/constants/Colors";
+import { useColorScheme } from "@/components/useColorScheme";
+import { Text } from "@/components/Themed";
+import { useBleConnectToSensor } from "@/hooks/useBleConnectToSensor";
+import {
+  downloadFirmwareRelease,
+  listFirmwareReleases,
+  loadLocalFirmware,
+  type FirmwareLoadResult,
+  type FirmwareRelease,
+} from "@/utils/firmwareReleases";
+import {
+  confirmFirmwareUpdate,
+  createFirmwareUpdate,
+  type FirmwareImage,
+  type FirmwareUpdate,
+  type FirmwareUpdatePhase,
+} from "@/utils/firmwareUpdate";
+import { fetchStaffGymIds } from "@/utils/staffAccess";
+
+// Give the sensor time to reboot into the new image before looking for it again
+const REBOOT_WAIT_MS = 4000;
+
+/** The engine's phases, plus the steps after the reboot that happen on this screen. */
+type UpdateStep = FirmwareUpdatePhase | "confirming" | "done" | "rolled-back";
+
+type Progress = { sentBytes: number; totalBytes: number; resumedFrom: number };
+
+function formatSize(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.round(bytes / 1024)} KB`;
+}
+
+export default function FirmwareScreen() {
+  const colorScheme = useColorScheme() ?? "light";
+  const theme = Colors[colorScheme];
+
+  // null while loading; staff tools stay hidden for everyone else
+  const [staffGymIds, setStaffGymIds] = useState<string[] | null>(null);
+  const [releases, setReleases] = useState<FirmwareRelease[]>([]);
+  const [image, setImage] = useState<FirmwareImage | null>(null);
+  const [loadingImage, setLoadingImage] = useState(false);
+  const [imageError, setImageError] = useState<string | null>(null);
+  const [expectedHash, setExpectedHash] = useState("");
+  const [targetMac, setTargetMac] = useState<string | undefined>(undefined);
+  const [step, setStep] = useState<UpdateStep>("idle");
+  const [progress, setProgress] = useState<Progress | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  // Set once the post-reboot reconnect has started, so the old connection isn't mistaken for it
+  const [reconnectingAfterReboot, setReconnectingAfterReboot] = useState(false);
+  const { device, status, error, connect, sensors, sensorInfo, startDiscovery, stopDiscovery } =
+    useBleConnectToSensor("IMU-STACK", targetMac);
+
+  const updateRef = useRef<FirmwareUpdate | null>(null);
+  const stepRef = useRef(step);
+  stepRef.current = step;
+  const deviceRef = useRef(device);
+  deviceRef.current = device;
+
+  const isStaff = !!staffGymIds && staffGymIds.length > 0;
+  const busy = step === "preparing" || step === "transferring" || step === "applying" || step === "rebooting" || step === "confirming";
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const gymIds = await fetchStaffGymIds();
+      const list = gymIds.length > 0 ? await listFirmwareReleases() : [];
+      if (cancelled) return;
+      setStaffGymIds(gymIds);
+      setReleases(list);
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (isStaff && !targetMac) startDiscovery();
+  }, [isStaff, targetMac, startDiscovery]);
+
+  useEffect(() => {
+    if (targetMac) connect();
+  }, [targetMac, connect]);
+
+  // Leaving the screen ends the transfer; the sensor keeps what it has for a later resume
+  useEffect(() => {
+    return () => {
+      updateRef.current = null;
+      deviceRef.current?.cancelConnection().catch(() => {});
+    };
+  }, []);
+
+  const applyLoadResult = (result: FirmwareLoadResult) => {
+    if (result.ok) {
+      setImage(result.image);
+      setImageError(null);
+    } else {
+      setImage(null);
+      setImageError(result.reason);
+    }
+  };
+
+  const chooseRelease = async (release: FirmwareRelease) => {
+    setLoadingImage(true);
+    applyLoadResult(await downloadFirmwareRelease(release));
+    setLoadingImage(false);
+  };
+
+  const chooseFile = async () => {
+    const picked = await DocumentPicker.getDocumentAsync({ copyToCacheDirectory: true });
+    if (picked.canceled || !picked.assets?.[0]) return;
+    const asset = picked.assets[0];
+    setLoadingImage(true);
+    applyLoadResult(await loadLocalFirmware(asset.uri, asset.name, expectedHash.trim() || null, releases));
+    setLoadingImage(false);
+  };
+
+  const startUpdate = useCallback(async () => {
+    if (!device || !image) return;
+    setMessage(null);
+    setProgress(null);
+    const update = createFirmwareUpdate(device, image);
+    updateRef.current = update;
+    update.subscribe((event) => {
+      if (updateRef.current !== update) return;
+      if (event.type === "phase") setStep(event.phase);
+      else if (event.type === "progress") setProgress(event);
+      else setMessage(event.message);
+    });
+    await update.start();
+    if (updateRef.current !== update || stepRef.current !== "rebooting") return;
+    setTimeout(() => {
+      if (updateRef.current !== update) return;
+      setReconnectingAfterReboot(true);
+      connect();
+    }, REBOOT_WAIT_MS);
+  }, [device, image, connect]);
+
+  const abortUpdate = useCallback(async () => {
+    const update = updateRef.current;
+    if (!update) return;
+    await update.abort();
+    setMessage("Update cancelled. The sensor discarded the partial image.");
+  }, []);
+
+  // Back after the reboot: make sure the new image is the one running, then keep it
+  useEffect(() => {
+    if (step !== "rebooting" || !reconnectingAfterReboot || status !== "connected" || !device || !image) return;
+    setReconnectingAfterReboot(false);
+    setStep("confirming");
+    (async () => {
+      const result = await confirmFirmwareUpdate(device, image);
+      if (result.status === "confirmed") {
+        setStep("done");
+        setMessage(`Sensor updated${result.runningVersion ? ` to ${result.runningVersion}` : ""}.`);
+      } else if (result.status === "rolled-back") {
+        setStep("rolled-back");
+        setMessage(
+          `The new firmware didn't start, so the sensor went back to ${result.runningVersion ?? "its previous firmware"}.`
+        );
+      } else {
+        setStep("failed");
+        setMessage(`${result.message}. Unless confirmed, the sensor returns to its previous firmware on the next restart.`);
+      }
+    })();
+  }, [step, reconnectingAfterReboot, status, device, image]);
+
+  const changeSensor = () => {
+    setTargetMac(undefined);
+    setStep("idle");
+    setProgress(null);
+    setMessage(null);
+    deviceRef.current?.cancelConnection().catch(() => {});
+  };
+
+  if (staffGymIds === null) {
+    return (
+      <>
+        <Stack.Screen options={{ title: "Sensor Firmware" }} />
+        <RNView style={[styles.center, { backgroundColor: theme.background }]}>
+          <ActivityIndicator color={theme.accent} />
+        </RNView>
+      </>
+    );
+  }
+
+  if (!isStaff) {
+    return (
+      <>
+        <Stack.Screen options={{ title: "Sensor Firmware" }} />
+        <RNView style={[styles.center, { backgroundColor: theme.background }]}>
+          <Text style={[styles.hint, { color: theme.textSecondary }]}>
+            Firmware updates are only available to gym staff.
+          </Text>
+        </RNView>
+      </>
+    );
+  }
+
+  const percent = progress && progress.totalBytes > 0 ? Math.floor((progress.sentBytes / progress.totalBytes) * 100) : 0;
+  const canStart = !!device && status === "connected" && !!image && !busy;
+  const stepLabel: Partial<Record<UpdateStep, string>> = {
+    preparing: "Preparing…",
+    transferring: `Sending ${percent}%`,
+    applying: "Sensor is checking the image…",
+    rebooting: "Sensor is restarting…",
+    confirming: "Confirming…",
+  };
+
+  return (
+    <>
+      <Stack.Screen options={{ title: "Sensor Firmware" }} />
+
+      <ScrollView
+        style={{ flex: 1, backgroundColor: theme.background }}
+        contentContainerStyle={styles.content}
+        keyboardShouldPersistTaps="handled"
+      >
+        <RNView style={styles.section}>
+          <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>IMAGE</Text>
+          <RNView style={[styles.card, { backgroundColor: theme.card, borderColor: theme.border }]}>
+            {releases.map((r) => (
+              <Pressable
+                key={r.id}
+                disabled={busy || loadingImage}
+                onPress={() => chooseRelease(r)}
+                style={({ pressed }) => [
+                  styles.row,
+                  { opacity: pressed ? 0.65 : 1, borderBottomColor: theme.border, borderBottomWidth: StyleSheet.hairlineWidth },
+                ]}
+              >
+                <RNView style={styles.rowText}>
+                  <Text style={[styles.rowTitle, { color: theme.text }]}>v{r.version}</Text>
+                  <Text style={[styles.rowSubtitle, { color: theme.textSecondary }]} numberOfLines={1}>
+                    {formatSize(r.sizeBytes)}
+                    {r.notes ? ` · ${r.notes}` : ""}
+                  </Text>
+                </RNView>
+                {image?.sha256Hex === r.sha256 ? <FontAwesome name="check" size={16} color={theme.accent} /> : null}
+              </Pressable>
+            ))}
+            <Pressable
+              disabled={busy || loadingImage}
+              onPress={chooseFile}
+              style={({ pressed }) => [styles.row, { opacity: pressed ? 0.65 : 1 }]}
+            >
+              <Text style={[styles.rowTitle, { color: theme.accent }]}>Choose file…</Text>
+              {image && !image.version ? <FontAwesome name="check" size={16} color={theme.accent} /> : null}
+            </Pressable>
+          </RNView>
+          <TextInput
+            value={expectedHash}
+            onChangeText={setExpectedHash}
+            placeholder="Expected SHA-256 for a file"
+            placeholderTextColor={theme.textSecondary}
+            autoCapitalize="none"
+            autoCorrect={false}
+            style={[styles.input, { color: theme.text, borderColor: theme.border }]}
+          />
+          {loadingImage ? (
+            <ActivityIndicator color={theme.accent} />
+          ) : imageError ? (
+            <Text style={[styles.error, { color: theme.danger }]}>{imageError}</Text>
+          ) : image ? (
+            <Text style={[styles.hint, { color: theme.textSecondary }]}>
+              {image.label} · {formatSize(image.bytes.length)} · SHA-256 {image.sha256Hex.slice(0, 16)}…
+            </Text>
+          ) : releases.length === 0 ? (
+            <Text style={[styles.hint, { color: theme.textSecondary }]}>No releases published yet.</Text>
+          ) : null}
+        </RNView>
+
+        <RNView style={styles.section}>
+          <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>SENSOR</Text>
+          {!targetMac ? (
+            <RNView style={[styles.card, { backgroundColor: theme.card, borderColor: theme.border }]}>
+              {sensors.length === 0 ? (
+                <RNView style={styles.row}>
+                  <Text style={[styles.rowSubtitle, { color: status === "error" ? theme.danger : theme.textSecondary }]}>
+                    {status === "error" ? error ?? "Scan failed" : "Looking for sensors…"}
+                  </Text>
+                  {status === "error" ? null : <ActivityIndicator color={theme.accent} />}
+                </RNView>
+              ) : (
+                sensors.map((s, i) => (
+                  <Pressable
+                    key={s.id}
+                    onPress={() => {
+                      stopDiscovery();
+                      setTargetMac(s.id);
+                    }}
+                    style={({ pressed }) => [
+                      styles.row,
+                      { opacity: pressed ? 0.65 : 1 },
+                      i === sensors.length - 1
+                        ? null
+                        : { borderBottomColor: theme.border, borderBottomWidth: StyleSheet.hairlineWidth },
+                    ]}
+                  >
+                    <RNView style={styles.rowText}>
+                      <Text style={[styles.rowTitle, { color: theme.text }]}>{s.name}</Text>
+                      <Text style={[styles.rowSubtitle, { color: theme.textSecondary }]} numberOfLines={1}>
+                        {s.id}
+                      </Text>
+                    </RNView>
+                    <Text style={[styles.rowSubtitle, { color: theme.textSecondary }]}>{s.rssi} dBm</Text>
+                  </Pressable>
+                ))
+              )}
+            </RNView>
+          ) : (
+            <RNView style={[styles.card, { backgroundColor: theme.card, borderColor: theme.border }]}>
+              <RNView style={styles.row}>
+                <RNView style={styles.rowText}>
+                  <Text style={[styles.rowTitle, { color: theme.text }]}>{device?.name || targetMac}</Text>
+                  <Text
+                    style={[styles.rowSubtitle, { color: status === "error" ? theme.danger : theme.textSecondary }]}
+                  >
+                    {status === "connected"
+                      ? `Firmware ${sensorInfo?.firmwareRevision ?? "unknown"}${
+                          sensorInfo?.batteryPercent != null ? ` · Battery ${sensorInfo.batteryPercent}%` : ""
+                        }`
+                      : status === "error"
+                        ? error ?? "Connection failed"
+                        : "Connecting…"}
+                  </Text>
+                </RNView>
+                {status === "error" ? (
+                  <Pressable onPress={() => connect()} hitSlop={8}>
+                    <Text style={[styles.link, { color: theme.accent }]}>Retry</Text>
+                  </Pressable>
+                ) : null}
+              </RNView>
+              {!busy ? (
+                <Pressable
+                  onPress={changeSensor}
+                  style={({ pressed }) => [
+                    styles.row,
+                    { opacity: pressed ? 0.65 : 1, borderTopColor: theme.border, borderTopWidth: StyleSheet.hairlineWidth },
+                  ]}
+                >
+                  <Text style={[styles.rowTitle, { color: theme.accent }]}>Choose a different sensor</Text>
+                </Pressable>
+              ) : null}
+            </RNView>
+          )}
+        </RNView>
+
+        {step !== "idle" || message ? (
+          <RNView
+            style={[
+              styles.banner,
+              {
+                borderColor:
+                  step === "failed" || step === "rolled-back"
+                    ? theme.danger
+                    : step === "done"
+                      ? theme.success
+                      : theme.border,
+              },
+            ]}
+          >
+            {stepLabel[step] ? (
+              <Text style={[styles.bannerText, { color: theme.text }]}>{stepLabel[step]}</Text>
+            ) : null}
+            {progress && (step === "transferring" || step === "applying") ? (
+              <>
+                <RNView style={[styles.progressTrack, { backgroundColor: theme.border }]}>
+                  <RNView style={[styles.progressFill, { width: `${percent}%`, backgroundColor: theme.accent }]} />
+                </RNView>
+                <Text style={[styles.hint, { color: theme.textSecondary }]}>
+                  {formatSize(progress.sentBytes)} of {formatSize(progress.totalBytes)}
+                  {progress.resumedFrom > 0 ? ` · resumed at ${formatSize(progress.resumedFrom)}` : ""}
+                </Text>
+              </>
+            ) : null}
+            {message ? (
+              <Text
+                style={[
+                  styles.bannerText,
+                  {
+                    color:
+                      step === "failed" || step === "rolled-back"
+                        ? theme.danger
+                        : step === "done"
+                          ? theme.success
+                          : theme.textSecondary,
+                  },
+                ]}
+              >
+                {message}
+              </Text>
+            ) : null}
+            {(step === "rebooting" && status === "error") || (step === "failed" && status !== "scanning") ? (
+              <Pressable onPress={() => connect()} hitSlop={8}>
+                <Text style={[styles.link, { color: theme.accent }]}>Reconnect to the sensor</Text>
+              </Pressable>
+            ) : null}
+          </RNView>
+        ) : null}
+
+        {step === "transferring" ? (
+          <Pressable
+            onPress={abortUpdate}
+            style={({ pressed }) => [styles.writeBtn, { backgroundColor: theme.danger, opacity: pressed ? 0.85 : 1 }]}
+          >
+            <Text style={[styles.writeBtnText, { color: theme.background }]}>Cancel update</Text>
+          </Pressable>
+        ) : (
+          <Pressable
+            onPress={startUpdate}
+            disabled={!canStart}
+            style={({ pressed }) => [
+              styles.writeBtn,
+              { backgroundColor: theme.primary, opacity: !canStart ? 0.45 : pressed ? 0.85 : 1 },
+            ]}
+          >
+            <Text style={[styles.writeBtnText, { color: theme.background }]}>
+              {step === "failed" ? "Resume update" : image ? `Install ${image.label}` : "Select an image"}
+            </Text>
+          </Pressable>
+        )}
+        <Text style={[styles.hint, { color: theme.textSecondary }]}>
+          Keep the phone next to the sensor until it has restarted. An interrupted update resumes where it
+          stopped, and a sensor that can't start the new firmware goes back to the old one.
+        </Text>
+      </ScrollView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  center: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    padding: 24,
+  },
+  content: {
+    paddingHorizontal: 16,
+    paddingVertical: 18,
+    gap: 18,
+  },
+  section: { gap: 8 },
+  sectionTitle: {
+    fontSize: 12,
+    fontWeight: "800",
+    letterSpacing: 0.8,
+    paddingHorizontal: 4,
+  },
+  card: {
+    borderRadius: 14,
+    borderWidth: 1,
+    overflow: "hidden",
+  },
+  row: {
+    minHeight: 52,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 12,
+  },
+  rowText: { flex: 1, gap: 2 },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: "700",
+  },
+  rowSubtitle: {
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  input: {
+    height: 46,
+    borderRadius: 14,
+    borderWidth: 1,
+    paddingHorizontal: 14,
+    fontSize: 14,
+    fontWeight: "600",
+    backgroundColor: "transparent",
+  },
+  hint: {
+    fontSize: 12,
+    fontWeight: "600",
+    paddingHorizontal: 4,
+  },
+  error: {
+    fontSize: 12,
+    fontWeight: "700",
+    paddingHorizontal: 4,
+  },
+  link: {
+    fontSize: 14,
+    fontWeight: "700",
+  },
+  banner: {
+    borderWidth: 1,
+    borderRadius: 14,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    gap: 8,
+  },
+  bannerText: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  progressTrack: {
+    height: 8,
+    borderRadius: 4,
+    overflow: "hidden",
+  },
+  progressFill: {
+    height: "100%",
+    borderRadius: 4,
+  },
+  writeBtn: {
+    height: 52,
+    borderRadius: 14,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  writeBtnText: {
+    fontSize: 16,
+    fontWeight: "700",
+  },
+});
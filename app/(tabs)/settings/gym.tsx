@@ -0,0 +1,130 @@
+import FontAwesome from "@expo/vector-icons/FontAwesome";
+import { Stack } from "expo-router";
+import { useEffect, useState } from "react";
+import { Pressable, ScrollView, StyleSheet, View as RNView } from "react-native";
+
+import Colors from "@/constants/Colors";
+import { useColorScheme } from "@/components/useColorScheme";
+import { Text } from "@/components/Themed";
+import { useGym } from "@/contexts/GymContext";
+import { ensureMachineRegistry, listGyms, type Gym } from "@/utils/machineRegistry";
+
+function GymList({
+  title,
+  gyms,
+  selectedId,
+  onSelect,
+}: {
+  title: string;
+  gyms: Gym[];
+  selectedId: string | null;
+  onSelect: (gymId: string) => void;
+}) {
+  const colorScheme = useColorScheme() ?? "light";
+  const theme = Colors[colorScheme];
+
+  return (
+    <RNView style={styles.section}>
+      <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>{title}</Text>
+      <RNView style={[styles.card, { backgroundColor: theme.card, borderColor: theme.border }]}>
+        {gyms.map((gym, i) => (
+          <Pressable
+            key={gym.id}
+            onPress={() => onSelect(gym.id)}
+            style={({ pressed }) => [
+              styles.row,
+              { opacity: pressed ? 0.65 : 1 },
+              i === gyms.length - 1
+                ? null
+                : { borderBottomColor: theme.border, borderBottomWidth: StyleSheet.hairlineWidth },
+            ]}
+          >
+            <RNView style={styles.rowText}>
+              <Text style={[styles.rowTitle, { color: theme.text }]}>{gym.name}</Text>
+              {gym.city ? (
+                <Text style={[styles.rowSubtitle, { color: theme.textSecondary }]}>{gym.city}</Text>
+              ) : null}
+            </RNView>
+            {selectedId === gym.id ? <FontAwesome name="check" size={16} color={theme.accent} /> : null}
+          </Pressable>
+        ))}
+      </RNView>
+    </RNView>
+  );
+}
+
+export default function GymSettingsScreen() {
+  const colorScheme = useColorScheme() ?? "light";
+  const theme = Colors[colorScheme];
+  const { homeGymId, activeGymId, setHomeGym, setCurrentGym } = useGym();
+  const [gyms, setGyms] = useState<Gym[]>(listGyms());
+
+  useEffect(() => {
+    let cancelled = false;
+    ensureMachineRegistry().then(() => {
+      if (!cancelled) setGyms(listGyms());
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return (
+    <>
+      <Stack.Screen options={{ title: "Gym" }} />
+
+      <ScrollView
+        style={{ flex: 1, backgroundColor: theme.background }}
+        contentContainerStyle={styles.content}
+      >
+        <GymList title="TRAINING AT" gyms={gyms} selectedId={activeGymId} onSelect={setCurrentGym} />
+        <GymList title="HOME GYM" gyms={gyms} selectedId={homeGymId} onSelect={setHomeGym} />
+        <Text style={[styles.hint, { color: theme.textSecondary }]}>
+          Scanning a machine tag that names its gym switches where you are training automatically.
+        </Text>
+      </ScrollView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    paddingHorizontal: 16,
+    paddingVertical: 18,
+    gap: 18,
+  },
+  section: { gap: 8 },
+  sectionTitle: {
+    fontSize: 12,
+    fontWeight: "800",
+    letterSpacing: 0.8,
+    paddingHorizontal: 4,
+  },
+  card: {
+    borderRadius: 14,
+    borderWidth: 1,
+    overflow: "hidden",
+  },
+  row: {
+    minHeight: 52,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  rowText: { gap: 2 },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: "700",
+  },
+  rowSubtitle: {
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  hint: {
+    fontSize: 12,
+    fontWeight: "600",
+    paddingHorizontal: 4,
+  },
+});
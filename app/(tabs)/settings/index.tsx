@@ -1,12 +1,28 @@
 import FontAwesome from "@expo/vector-icons/FontAwesome";
+import * as DocumentPicker from "expo-document-picker";
+import { File } from "expo-file-system";
 import { Stack, router } from "expo-router";
-import { Pressable, ScrollView, StyleSheet, Switch, View as RNView } from "react-native";
+import { useEffect, useState } from "react";
+import { Alert, Pressable, ScrollView, StyleSheet, Switch, View as RNView } from "react-native";
 
 import Colors from "@/constants/Colors";
 import { useColorScheme } from "@/components/useColorScheme";
 import { useAppColorScheme } from "@/components/ColorSchemeProvider";
 import { Text } from "@/components/Themed";
+import { useGym } from "@/contexts/GymContext";
+import { useWeightUnit } from "@/contexts/WeightUnitContext";
+import { getGym } from "@/utils/machineRegistry";
 import { clearOnboardingCompleted } from "@/utils/onboardingStorage";
+import { getAutoStartNextSet, getRestEndSound, setAutoStartNextSet, setRestEndSound } from "@/utils/restTimer";
+import { getSimulatedSensorSetting, setSimulatedSensorSetting } from "@/utils/sensorTransport";
+import { parseSessionRecording, recordingToScenario } from "@/utils/sessionRecorder";
+import {
+  getSimulatedScenario,
+  REPLAY_SCENARIO_ID,
+  setReplayScenario,
+  SIMULATED_SCENARIOS,
+} from "@/utils/simulatedSensor";
+import { fetchStaffGymIds } from "@/utils/staffAccess";
 
 function Row({
   title,
@@ -68,12 +84,63 @@ export default function SettingsIndex() {
   const colorScheme = useColorScheme() ?? "light";
   const theme = Colors[colorScheme];
   const { isDark, setScheme } = useAppColorScheme();
+  const { unit, setUnit } = useWeightUnit();
+  const { activeGymId } = useGym();
+  const [isStaff, setIsStaff] = useState(false);
+  const [simulatedSensor, setSimulatedSensor] = useState(getSimulatedSensorSetting);
+  const [autoStartNextSet, setAutoStartNextSetState] = useState(false);
+  const [restEndSound, setRestEndSoundState] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchStaffGymIds().then((gymIds) => {
+      if (!cancelled) setIsStaff(gymIds.length > 0);
+    });
+    getAutoStartNextSet().then((enabled) => {
+      if (!cancelled) setAutoStartNextSetState(enabled);
+    });
+    getRestEndSound().then((enabled) => {
+      if (!cancelled) setRestEndSoundState(enabled);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
 
   const resetOnboarding = async () => {
     await clearOnboardingCompleted();
     router.replace("/onboarding");
   };
 
+  // Off → each scenario in turn → Off; takes effect on the next connect
+  const cycleSimulatedSensor = () => {
+    const index = SIMULATED_SCENARIOS.findIndex((s) => s.id === simulatedSensor);
+    const next = SIMULATED_SCENARIOS[index + 1]?.id ?? null;
+    setSimulatedSensor(next);
+    void setSimulatedSensorSetting(next);
+  };
+
+  // Replays an exported session recording as the simulated sensor until another setting is picked
+  const pickSessionRecording = async () => {
+    const picked = await DocumentPicker.getDocumentAsync({ type: "application/json", copyToCacheDirectory: true });
+    if (picked.canceled || !picked.assets?.[0]) return;
+    let text: string;
+    try {
+      text = await new File(picked.assets[0].uri).text();
+    } catch {
+      Alert.alert("Replay Recording", "Couldn't read the file.");
+      return;
+    }
+    const recording = parseSessionRecording(text);
+    if (!recording) {
+      Alert.alert("Replay Recording", "That isn't a sensor session recording.");
+      return;
+    }
+    setReplayScenario(recordingToScenario(recording));
+    setSimulatedSensor(REPLAY_SCENARIO_ID);
+    void setSimulatedSensorSetting(REPLAY_SCENARIO_ID);
+  };
+
   return (
     <>
       <Stack.Screen options={{ title: "Settings" }} />
@@ -92,6 +159,60 @@ export default function SettingsIndex() {
         </Section>
 
         <Section title="PREFERENCES">
+          <Row
+            title="Gym"
+            icon="map-marker"
+            rightText={(activeGymId && getGym(activeGymId)?.name) || "Not set"}
+            onPress={() => router.push("/settings/gym")}
+          />
+          <Row
+            title="Weight Unit"
+            icon="balance-scale"
+            rightText={unit === "kg" ? "Kilograms (kg)" : "Pounds (lb)"}
+            onPress={() => setUnit(unit === "kg" ? "lb" : "kg")}
+          />
+          <RNView style={[styles.row, { borderBottomColor: theme.border, borderBottomWidth: StyleSheet.hairlineWidth }]}>
+            <RNView style={styles.rowLeft}>
+              <RNView style={[styles.iconBox, { backgroundColor: theme.background, borderColor: theme.border }]}>
+                <FontAwesome name="forward" size={16} color={theme.text} />
+              </RNView>
+              <Text style={[styles.rowTitle, { color: theme.text }]}>Auto-start Next Set</Text>
+            </RNView>
+            <RNView style={styles.switchWrap}>
+              <Switch
+                value={autoStartNextSet}
+                onValueChange={(v) => {
+                  setAutoStartNextSetState(v);
+                  void setAutoStartNextSet(v);
+                }}
+                trackColor={{ false: theme.border, true: theme.accent }}
+                thumbColor={theme.primary}
+                ios_backgroundColor={theme.border}
+                style={styles.switch}
+              />
+            </RNView>
+          </RNView>
+          <RNView style={[styles.row, { borderBottomColor: theme.border, borderBottomWidth: StyleSheet.hairlineWidth }]}>
+            <RNView style={styles.rowLeft}>
+              <RNView style={[styles.iconBox, { backgroundColor: theme.background, borderColor: theme.border }]}>
+                <FontAwesome name="bell" size={16} color={theme.text} />
+              </RNView>
+              <Text style={[styles.rowTitle, { color: theme.text }]}>Rest Timer Sound</Text>
+            </RNView>
+            <RNView style={styles.switchWrap}>
+              <Switch
+                value={restEndSound}
+                onValueChange={(v) => {
+                  setRestEndSoundState(v);
+                  void setRestEndSound(v);
+                }}
+                trackColor={{ false: theme.border, true: theme.accent }}
+                thumbColor={theme.primary}
+                ios_backgroundColor={theme.border}
+                style={styles.switch}
+              />
+            </RNView>
+          </RNView>
           <RNView style={styles.row}>
             <RNView style={styles.rowLeft}>
               <RNView style={[styles.iconBox, { backgroundColor: theme.background, borderColor: theme.border }]}>
@@ -112,8 +233,31 @@ export default function SettingsIndex() {
           </RNView>
         </Section>
 
+        <Section title="SUPPORT">
+          <Row
+            title="Sensor Diagnostics"
+            icon="stethoscope"
+            onPress={() => router.push("/workout/diagnostics")}
+            isLast
+          />
+        </Section>
+
+        {isStaff ? (
+          <Section title="STAFF">
+            <Row title="Provision NFC Tags" icon="tag" onPress={() => router.push("/settings/tags")} />
+            <Row title="Sensor Firmware" icon="microchip" onPress={() => router.push("/settings/firmware")} isLast />
+          </Section>
+        ) : null}
+
         {__DEV__ ? (
           <Section title="DEVELOPER">
+            <Row
+              title="Simulated Sensor"
+              icon="flask"
+              rightText={(simulatedSensor && getSimulatedScenario(simulatedSensor)?.label) || "Off"}
+              onPress={cycleSimulatedSensor}
+            />
+            <Row title="Replay Recording" icon="play-circle" onPress={pickSessionRecording} />
             <Row title="Reset onboarding (TBRIP)" icon="refresh" onPress={resetOnboarding} isLast />
           </Section>
         ) : null}
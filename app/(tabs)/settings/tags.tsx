@@ -0,0 +1,386 @@
+import FontAwesome from "@expo/vector-icons/FontAwesome";
+import { Stack } from "expo-router";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { ActivityIndicator, Pressable, ScrollView, StyleSheet, TextInput, View as RNView } from "react-native";
+import NfcManager, { Ndef, NfcTech } from "react-native-nfc-manager";
+
+import Colors from "@/constants/Colors";
+import { useColorScheme } from "@/components/useColorScheme";
+import { Text } from "@/components/Themed";
+import {
+  assignMachineNfcTag,
+  ensureMachineRegistry,
+  getGym,
+  listMachines,
+  refreshMachineRegistry,
+  type Machine,
+} from "@/utils/machineRegistry";
+import { buildMachineUri } from "@/utils/nfcSensorMap";
+import { extractUriFromTag } from "@/utils/nfcTags";
+import { fetchStaffGymIds } from "@/utils/staffAccess";
+import { findSigningKeyId, signMachineTag } from "@/utils/tagSignature";
+
+type WriteState = "idle" | "writing" | "success" | "error";
+
+export default function TagProvisioningScreen() {
+  const colorScheme = useColorScheme() ?? "light";
+  const theme = Colors[colorScheme];
+
+  // null while loading; staff tools stay hidden for everyone else
+  const [staffGymIds, setStaffGymIds] = useState<string[] | null>(null);
+  const [gymId, setGymId] = useState<string | null>(null);
+  const [machines, setMachines] = useState<Machine[]>([]);
+  const [machineId, setMachineId] = useState<string | null>(null);
+  // Pasted per session and never persisted
+  const [privateKey, setPrivateKey] = useState("");
+  const [nfcSupported, setNfcSupported] = useState<boolean | null>(null);
+  const [writeState, setWriteState] = useState<WriteState>("idle");
+  const [status, setStatus] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const [gymIds] = await Promise.all([fetchStaffGymIds(), ensureMachineRegistry()]);
+      // Staff need the latest keys and tag ids, not the hour-old cache
+      await refreshMachineRegistry();
+      if (cancelled) return;
+      setStaffGymIds(gymIds);
+      setGymId((current) => current ?? gymIds[0] ?? null);
+    })();
+    (async () => {
+      try {
+        const supported = await NfcManager.isSupported();
+        if (!cancelled) setNfcSupported(supported);
+        if (supported) await NfcManager.start();
+      } catch {
+        if (!cancelled) setNfcSupported(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    setMachines(gymId ? listMachines(gymId) : []);
+    setMachineId(null);
+  }, [gymId, staffGymIds]);
+
+  const machine = machines.find((m) => m.id === machineId) ?? null;
+  const trimmedKey = privateKey.trim();
+  const keyId = useMemo(
+    () => (gymId && trimmedKey ? findSigningKeyId(gymId, trimmedKey) : null),
+    [gymId, trimmedKey]
+  );
+  const keyError = trimmedKey && !keyId ? "This key doesn't match any published key for the gym." : null;
+  const canWrite = !!machine && !!gymId && nfcSupported === true && !keyError && writeState !== "writing";
+
+  const writeTag = useCallback(async () => {
+    if (!machine || !gymId) return;
+    const signature = keyId ? signMachineTag(machine.id, gymId, trimmedKey) : null;
+    if (keyId && !signature) {
+      setWriteState("error");
+      setStatus("Could not sign the tag with this key.");
+      return;
+    }
+    const uri = buildMachineUri({ machineId: machine.id, gymId, keyId, signature });
+
+    setWriteState("writing");
+    setStatus("Hold the phone against the tag…");
+    try {
+      await NfcManager.requestTechnology(NfcTech.Ndef, {
+        alertMessage: `Hold near the ${machine.displayName} tag`,
+      });
+      const bytes = Ndef.encodeMessage([Ndef.uriRecord(uri)]);
+      await NfcManager.ndefHandler.writeNdefMessage(bytes, { reconnectAfterWrite: true });
+
+      // Read back what actually landed on the tag, the same way members' phones will read it
+      const written = await NfcManager.ndefHandler.getNdefMessage();
+      if (extractUriFromTag(written ?? {}) !== uri) {
+        setWriteState("error");
+        setStatus("The tag didn't read back correctly. Try again or use a different tag.");
+        return;
+      }
+
+      const tag = await NfcManager.getTag();
+      const tagId = tag?.id ?? written?.id;
+      if (!tagId) {
+        setWriteState("success");
+        setStatus("Tag written and verified, but its id couldn't be read, so it wasn't recorded.");
+        return;
+      }
+      const error = await assignMachineNfcTag(gymId, machine.id, tagId);
+      if (error) {
+        setWriteState("error");
+        setStatus(`Tag written and verified, but recording it failed: ${error}`);
+        return;
+      }
+      setMachines(listMachines(gymId));
+      setWriteState("success");
+      setStatus(`${signature ? "Signed tag" : "Tag"} written for ${machine.displayName} (${tagId}).`);
+    } catch (e: any) {
+      const msg = e?.message ?? String(e);
+      setWriteState("error");
+      setStatus(msg.includes("cancelled") ? "Write cancelled" : "Error: " + msg);
+    } finally {
+      setWriteState((s) => (s === "writing" ? "idle" : s));
+      try {
+        await NfcManager.cancelTechnologyRequest();
+      } catch {
+        // ignore
+      }
+    }
+  }, [machine, gymId, keyId, trimmedKey]);
+
+  if (staffGymIds === null) {
+    return (
+      <>
+        <Stack.Screen options={{ title: "Provision NFC Tags" }} />
+        <RNView style={[styles.center, { backgroundColor: theme.background }]}>
+          <ActivityIndicator color={theme.accent} />
+        </RNView>
+      </>
+    );
+  }
+
+  if (staffGymIds.length === 0) {
+    return (
+      <>
+        <Stack.Screen options={{ title: "Provision NFC Tags" }} />
+        <RNView style={[styles.center, { backgroundColor: theme.background }]}>
+          <Text style={[styles.hint, { color: theme.textSecondary }]}>
+            Tag provisioning is only available to gym staff.
+          </Text>
+        </RNView>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <Stack.Screen options={{ title: "Provision NFC Tags" }} />
+
+      <ScrollView
+        style={{ flex: 1, backgroundColor: theme.background }}
+        contentContainerStyle={styles.content}
+        keyboardShouldPersistTaps="handled"
+      >
+        {staffGymIds.length > 1 ? (
+          <RNView style={styles.section}>
+            <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>GYM</Text>
+            <RNView style={styles.chips}>
+              {staffGymIds.map((id) => (
+                <Pressable
+                  key={id}
+                  onPress={() => setGymId(id)}
+                  style={[
+                    styles.chip,
+                    {
+                      backgroundColor: id === gymId ? theme.accent : theme.card,
+                      borderColor: id === gymId ? theme.accent : theme.border,
+                    },
+                  ]}
+                >
+                  <Text style={[styles.chipText, { color: id === gymId ? theme.background : theme.text }]}>
+                    {getGym(id)?.name ?? id}
+                  </Text>
+                </Pressable>
+              ))}
+            </RNView>
+          </RNView>
+        ) : null}
+
+        <RNView style={styles.section}>
+          <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>MACHINE</Text>
+          <RNView style={[styles.card, { backgroundColor: theme.card, borderColor: theme.border }]}>
+            {machines.map((m, i) => (
+              <Pressable
+                key={m.id}
+                onPress={() => setMachineId(m.id)}
+                style={({ pressed }) => [
+                  styles.row,
+                  { opacity: pressed ? 0.65 : 1 },
+                  i === machines.length - 1
+                    ? null
+                    : { borderBottomColor: theme.border, borderBottomWidth: StyleSheet.hairlineWidth },
+                ]}
+              >
+                <RNView style={styles.rowText}>
+                  <Text style={[styles.rowTitle, { color: theme.text }]}>{m.displayName}</Text>
+                  <Text style={[styles.rowSubtitle, { color: theme.textSecondary }]}>
+                    {m.id} · {m.nfcTagId ? `tag ${m.nfcTagId}` : "no tag"}
+                  </Text>
+                </RNView>
+                {m.id === machineId ? <FontAwesome name="check" size={16} color={theme.accent} /> : null}
+              </Pressable>
+            ))}
+          </RNView>
+        </RNView>
+
+        <RNView style={styles.section}>
+          <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>SIGNING KEY (OPTIONAL)</Text>
+          <TextInput
+            value={privateKey}
+            onChangeText={setPrivateKey}
+            placeholder="Gym private key (base64url)"
+            placeholderTextColor={theme.textSecondary}
+            secureTextEntry
+            autoCapitalize="none"
+            autoCorrect={false}
+            style={[styles.input, { color: theme.text, borderColor: keyError ? theme.danger : theme.border }]}
+          />
+          {keyError ? (
+            <Text style={[styles.error, { color: theme.danger }]}>{keyError}</Text>
+          ) : (
+            <Text style={[styles.hint, { color: theme.textSecondary }]}>
+              {keyId
+                ? `Tags will be signed with key "${keyId}".`
+                : "Without a key the tag is written unsigned and members see an unverified-tag warning."}
+            </Text>
+          )}
+        </RNView>
+
+        {status ? (
+          <RNView
+            style={[
+              styles.banner,
+              {
+                borderColor:
+                  writeState === "error" ? theme.danger : writeState === "success" ? theme.success : theme.border,
+              },
+            ]}
+          >
+            <Text
+              style={[
+                styles.bannerText,
+                {
+                  color:
+                    writeState === "error"
+                      ? theme.danger
+                      : writeState === "success"
+                        ? theme.success
+                        : theme.textSecondary,
+                },
+              ]}
+            >
+              {status}
+            </Text>
+          </RNView>
+        ) : null}
+
+        <Pressable
+          onPress={writeTag}
+          disabled={!canWrite}
+          style={({ pressed }) => [
+            styles.writeBtn,
+            { backgroundColor: theme.primary, opacity: !canWrite ? 0.45 : pressed ? 0.85 : 1 },
+          ]}
+        >
+          <Text style={[styles.writeBtnText, { color: theme.background }]}>
+            {writeState === "writing"
+              ? "Writing…"
+              : nfcSupported === false
+                ? "NFC not available"
+                : machine
+                  ? `Write tag for ${machine.displayName}`
+                  : "Select a machine"}
+          </Text>
+        </Pressable>
+      </ScrollView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  center: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    padding: 24,
+  },
+  content: {
+    paddingHorizontal: 16,
+    paddingVertical: 18,
+    gap: 18,
+  },
+  section: { gap: 8 },
+  sectionTitle: {
+    fontSize: 12,
+    fontWeight: "800",
+    letterSpacing: 0.8,
+    paddingHorizontal: 4,
+  },
+  chips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 999,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: "700",
+  },
+  card: {
+    borderRadius: 14,
+    borderWidth: 1,
+    overflow: "hidden",
+  },
+  row: {
+    minHeight: 52,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  rowText: { gap: 2 },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: "700",
+  },
+  rowSubtitle: {
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  input: {
+    height: 46,
+    borderRadius: 14,
+    borderWidth: 1,
+    paddingHorizontal: 14,
+    fontSize: 14,
+    fontWeight: "600",
+    backgroundColor: "transparent",
+  },
+  hint: {
+    fontSize: 12,
+    fontWeight: "600",
+    paddingHorizontal: 4,
+  },
+  error: {
+    fontSize: 12,
+    fontWeight: "700",
+    paddingHorizontal: 4,
+  },
+  banner: {
+    borderWidth: 1,
+    borderRadius: 14,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+  },
+  bannerText: {
+    fontSize: 12,
+    fontWeight: "700",
+  },
+  writeBtn: {
+    height: 48,
+    borderRadius: 14,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  writeBtnText: { fontSize: 15, fontWeight: "800" },
+});
@@ -1,12 +1,17 @@
-import { useCallback, useEffect, useState } from "react";
-import { FlatList, StyleSheet, View as RNView } from "react-native";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { FlatList, Pressable, ScrollView, StyleSheet, View as RNView } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
-import { useFocusEffect } from "expo-router";
+import { router, useFocusEffect } from "expo-router";
 
 import Colors from "@/constants/Colors";
 import { Text } from "@/components/Themed";
 import { useColorScheme } from "@/components/useColorScheme";
-import { getWorkouts, type Workout } from "@/utils/workoutStorage";
+import { getWorkouts, getWorkoutTitle, type Workout, type WorkoutSet } from "@/utils/workoutStorage";
+import { summarizeRepMetrics } from "@/utils/repTelemetry";
+import { formatWeight } from "@/utils/weightUnits";
+import { useWeightUnit } from "@/contexts/WeightUnitContext";
+import { syncWorkoutHistory } from "@/utils/workoutSync";
+import { getGym } from "@/utils/machineRegistry";
 import { supabase } from "@/lib/supabase";
 
 function formatDate(dateString: string): string {
@@ -36,9 +41,12 @@ function formatDuration(seconds?: number): string {
 export default function TabTwoScreen() {
   const colorScheme = useColorScheme() ?? "light";
   const theme = Colors[colorScheme];
+  const { unit } = useWeightUnit();
   const [workouts, setWorkouts] = useState<Workout[]>([]);
   const [loading, setLoading] = useState(true);
   const [userId, setUserId] = useState<string | null>(null);
+  // null shows every gym
+  const [gymFilter, setGymFilter] = useState<string | null>(null);
 
   // Get current user ID
   useEffect(() => {
@@ -72,6 +80,10 @@ export default function TabTwoScreen() {
     } finally {
       setLoading(false);
     }
+    // Show local history right away, then refresh if the server had anything new
+    if (await syncWorkoutHistory(userId)) {
+      setWorkouts(await getWorkouts(userId));
+    }
   };
 
   useFocusEffect(
@@ -80,27 +92,68 @@ export default function TabTwoScreen() {
     }, [userId])
   );
 
+  const gymIds = useMemo(
+    () => [...new Set(workouts.map((w) => w.gymId).filter((id): id is string => !!id))],
+    [workouts]
+  );
+  const visibleWorkouts = useMemo(
+    () => (gymFilter ? workouts.filter((w) => w.gymId === gymFilter) : workouts),
+    [workouts, gymFilter]
+  );
+
+  /** Heaviest set, shown as " · 60 kg"; empty for bodyweight work and records without loads. */
+  const topWeightLabel = (sets: WorkoutSet[]) => {
+    const loads = sets.map((set) => set.weightKg).filter((w): w is number => w != null);
+    return loads.length > 0 ? ` · ${formatWeight(Math.max(...loads), unit)}` : "";
+  };
+
   const renderWorkout = ({ item }: { item: Workout }) => {
-    const totalReps = item.setRepsCompleted.reduce((sum, reps) => sum + reps, 0);
-    const totalRestTime = item.setRestTimes.reduce((sum, time) => sum + time, 0);
+    const sets = item.exercises.flatMap((e) => e.sets);
+    const totalReps = sets.reduce((sum, set) => sum + set.achievedReps, 0);
+    const telemetry = summarizeRepMetrics(sets.flatMap((set) => set.telemetry ?? []));
 
     return (
-      <RNView style={[styles.workoutCard, { backgroundColor: theme.card, borderColor: theme.border }]}>
+      <Pressable
+        onPress={() => router.push({ pathname: "/workout/summary", params: { workoutId: item.id } })}
+        style={({ pressed }) => [
+          styles.workoutCard,
+          { backgroundColor: theme.card, borderColor: theme.border, opacity: pressed ? 0.85 : 1 },
+        ]}
+      >
         <RNView style={styles.workoutHeader}>
-          <Text style={[styles.machineName, { color: theme.text }]}>{item.machineName}</Text>
+          <Text style={[styles.machineName, { color: theme.text }]}>{getWorkoutTitle(item)}</Text>
           <Text style={[styles.timeAgo, { color: theme.textSecondary }]}>{formatDate(item.completedAt)}</Text>
         </RNView>
         <RNView style={styles.workoutStats}>
-          <Text style={[styles.statText, { color: theme.textSecondary }]}>
-            {item.sets} sets · {item.reps} reps · {totalReps} total reps
-          </Text>
+          {item.exercises.length === 1 ? (
+            <Text style={[styles.statText, { color: theme.textSecondary }]}>
+              {item.exercises[0].targetSets} sets · {item.exercises[0].targetReps} reps · {totalReps} total reps
+              {topWeightLabel(sets)}
+            </Text>
+          ) : (
+            <>
+              {item.exercises.map((e, i) => (
+                <Text key={i} style={[styles.statText, { color: theme.textSecondary }]}>
+                  {e.machineName} · {e.sets.length}×{e.targetReps} ·{" "}
+                  {e.sets.reduce((sum, set) => sum + set.achievedReps, 0)} reps
+                  {topWeightLabel(e.sets)}
+                </Text>
+              ))}
+              <Text style={[styles.statText, { color: theme.textSecondary }]}>{totalReps} total reps</Text>
+            </>
+          )}
           {item.duration && (
             <Text style={[styles.statText, { color: theme.textSecondary }]}>
               Duration: {formatDuration(item.duration)}
             </Text>
           )}
+          {telemetry && (
+            <Text style={[styles.statText, { color: theme.textSecondary }]}>
+              Avg ROM {telemetry.avgRomCm} cm · Peak {telemetry.peakVelocityMps.toFixed(2)} m/s
+            </Text>
+          )}
         </RNView>
-      </RNView>
+      </Pressable>
     );
   };
 
@@ -110,6 +163,38 @@ export default function TabTwoScreen() {
         <Text style={[styles.title, { color: theme.text }]}>History</Text>
       </RNView>
 
+      {/* Only worth filtering once history spans more than one gym */}
+      {gymIds.length > 1 && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          style={styles.filterScroll}
+          contentContainerStyle={styles.filterRow}
+        >
+          {[null, ...gymIds].map((id) => {
+            const selected = gymFilter === id;
+            return (
+              <Pressable
+                key={id ?? "all"}
+                onPress={() => setGymFilter(id)}
+                style={({ pressed }) => [
+                  styles.filterChip,
+                  {
+                    backgroundColor: selected ? theme.primary : theme.card,
+                    borderColor: selected ? theme.primary : theme.border,
+                    opacity: pressed ? 0.8 : 1,
+                  },
+                ]}
+              >
+                <Text style={[styles.filterChipText, { color: selected ? theme.background : theme.text }]}>
+                  {id ? getGym(id)?.name ?? id : "All gyms"}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </ScrollView>
+      )}
+
       {loading ? (
         <RNView style={styles.emptyState}>
           <Text style={[styles.emptyText, { color: theme.textSecondary }]}>Loading...</Text>
@@ -123,7 +208,7 @@ export default function TabTwoScreen() {
         </RNView>
       ) : (
         <FlatList
-          data={workouts}
+          data={visibleWorkouts}
           renderItem={renderWorkout}
           keyExtractor={(item) => item.id}
           contentContainerStyle={styles.listContent}
@@ -147,6 +232,24 @@ const styles = StyleSheet.create({
     fontSize: 34,
     fontWeight: "800",
   },
+  filterScroll: {
+    flexGrow: 0,
+    marginBottom: 12,
+  },
+  filterRow: {
+    paddingHorizontal: 20,
+    gap: 8,
+  },
+  filterChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 999,
+    borderWidth: 1,
+  },
+  filterChipText: {
+    fontSize: 13,
+    fontWeight: "700",
+  },
   listContent: {
     paddingHorizontal: 20,
     paddingBottom: 20,
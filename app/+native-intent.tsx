@@ -0,0 +1,13 @@
+import { machineRouteForUrl } from "@/utils/machineLinks";
+
+/**
+ * Incoming links: movo://machine?id=... (tags and QR codes read by the OS) and
+ * movuapp://machine?id=... both open the /machine route. Everything else passes through.
+ */
+export function redirectSystemPath({ path }: { path: string; initial: boolean }) {
+  try {
+    return machineRouteForUrl(path) ?? path;
+  } catch {
+    return path;
+  }
+}
@@ -8,8 +8,14 @@ import "react-native-reanimated";
 
 import { useColorScheme } from "@/components/useColorScheme";
 import { ColorSchemeProvider } from "@/components/ColorSchemeProvider";
+import { GymProvider } from "@/contexts/GymContext";
+import { WeightUnitProvider } from "@/contexts/WeightUnitContext";
 import { getOnboardingCompleted } from "@/utils/onboardingStorage";
 import { supabase } from "@/lib/supabase";
+import { syncWorkoutHistory } from "@/utils/workoutSync";
+import { ensureMachineRegistry, loadMachineRegistry } from "@/utils/machineRegistry";
+import { machineRouteParams, takePendingMachineLink } from "@/utils/machineLinks";
+import { loadSensorTransportSetting } from "@/utils/sensorTransport";
 
 export { ErrorBoundary } from "expo-router";
 
@@ -47,11 +53,35 @@ export default function RootLayout() {
     if (loaded && onboardingCompleted !== null) SplashScreen.hideAsync();
   }, [loaded, onboardingCompleted]);
 
+  useEffect(() => {
+    void loadMachineRegistry();
+    void loadSensorTransportSetting();
+  }, []);
+
+  // Pull remote workout history and flush offline uploads whenever a user session becomes available
+  useEffect(() => {
+    if (!supabase) return;
+    const { data } = supabase.auth.onAuthStateChange((event, session) => {
+      if ((event === "SIGNED_IN" || event === "INITIAL_SESSION") && session?.user?.id) {
+        void syncWorkoutHistory(session.user.id);
+        // The registry is only readable when signed in, so refresh it once there is a session
+        void ensureMachineRegistry();
+      }
+    });
+    return () => {
+      data.subscription.unsubscribe();
+    };
+  }, []);
+
   if (!loaded || onboardingCompleted === null) return null;
 
   return (
     <ColorSchemeProvider>
-      <RootLayoutNav onboardingCompleted={onboardingCompleted} />
+      <WeightUnitProvider>
+        <GymProvider>
+          <RootLayoutNav onboardingCompleted={onboardingCompleted} />
+        </GymProvider>
+      </WeightUnitProvider>
     </ColorSchemeProvider>
   );
 }
@@ -80,7 +110,10 @@ function RootLayoutNav({ onboardingCompleted }: { onboardingCompleted: boolean }
       }
 
       if (effectiveCompleted && isOnboardingRoute) {
-        router.replace("/(tabs)");
+        // A machine link that arrived before onboarding was done picks up where it left off
+        const link = await takePendingMachineLink();
+        if (cancelled) return;
+        router.replace(link ? { pathname: "/machine", params: machineRouteParams(link) } : "/(tabs)");
       }
     })();
 
@@ -95,6 +128,7 @@ function RootLayoutNav({ onboardingCompleted }: { onboardingCompleted: boolean }
         <Stack.Screen name="onboarding" />
         <Stack.Screen name="(tabs)" />
         <Stack.Screen name="workout" />
+        <Stack.Screen name="machine" />
       </Stack>
     </ThemeProvider>
   );
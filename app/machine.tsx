@@ -0,0 +1,165 @@
+import { useCallback, useEffect, useState } from "react";
+import { ActivityIndicator, Pressable, StyleSheet, View as RNView } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import FontAwesome from "@expo/vector-icons/FontAwesome";
+import { router, useLocalSearchParams } from "expo-router";
+
+import Colors from "@/constants/Colors";
+import { useColorScheme } from "@/components/useColorScheme";
+import { Text } from "@/components/Themed";
+import { useGym } from "@/contexts/GymContext";
+import { getGym } from "@/utils/machineRegistry";
+import { savePendingMachineLink, takePendingMachineLink } from "@/utils/machineLinks";
+import { connectingParams, resolveMachineUri, type ScannedMachine } from "@/utils/machineScan";
+import { buildMachineUri, type MachineTag } from "@/utils/nfcSensorMap";
+import { getOnboardingCompleted } from "@/utils/onboardingStorage";
+
+type LinkState = "resolving" | "warning" | "error";
+
+/** Target of movo:// and movuapp:// machine links (see +native-intent.tsx). */
+export default function MachineLinkScreen() {
+  const colorScheme = useColorScheme() ?? "light";
+  const theme = Colors[colorScheme];
+  const { id, gym, kid, sig } = useLocalSearchParams<{ id?: string; gym?: string; kid?: string; sig?: string }>();
+  const { activeGymId, setCurrentGym } = useGym();
+
+  const [linkState, setLinkState] = useState<LinkState>("resolving");
+  const [status, setStatus] = useState("Opening machine…");
+  const [unverified, setUnverified] = useState<ScannedMachine | null>(null);
+
+  const connectTo = useCallback(
+    (scanned: ScannedMachine) => {
+      if (scanned.tagGymId && getGym(scanned.tagGymId)) setCurrentGym(scanned.tagGymId);
+      router.replace({ pathname: "/workout/connecting", params: connectingParams(scanned) });
+    },
+    [setCurrentGym]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      if (!id) {
+        setLinkState("error");
+        setStatus("This link doesn't name a machine.");
+        return;
+      }
+      const tag: MachineTag = { machineId: id, gymId: gym || null, keyId: kid || null, signature: sig || null };
+
+      // Not set up yet: park the link; onboarding hands it back here when it finishes
+      if (!(await getOnboardingCompleted())) {
+        await savePendingMachineLink(tag);
+        if (!cancelled) router.replace("/onboarding");
+        return;
+      }
+      // This link is being handled now; drop any older parked one
+      void takePendingMachineLink();
+
+      const resolved = await resolveMachineUri(buildMachineUri(tag), activeGymId);
+      if (cancelled) return;
+      if (resolved.status === "error") {
+        setLinkState("error");
+        setStatus(resolved.message);
+        return;
+      }
+      if (resolved.status === "unverified") {
+        setUnverified(resolved.machine);
+        setLinkState("warning");
+        setStatus(resolved.message);
+        return;
+      }
+      connectTo(resolved.machine);
+    })();
+    return () => {
+      cancelled = true;
+    };
+    // Resolve once per link; a gym switch mid-resolve must not start it again
+  }, [id, gym, kid, sig]);
+
+  return (
+    <SafeAreaView style={[styles.safe, { backgroundColor: theme.background }]}>
+      <RNView style={styles.content}>
+        {linkState === "resolving" ? (
+          <ActivityIndicator size="large" color={theme.accent} />
+        ) : (
+          <FontAwesome
+            name={linkState === "warning" ? "warning" : "exclamation-circle"}
+            size={40}
+            color={linkState === "warning" ? theme.warning : theme.danger}
+          />
+        )}
+        <Text
+          style={[
+            styles.status,
+            {
+              color:
+                linkState === "error"
+                  ? theme.danger
+                  : linkState === "warning"
+                    ? theme.warning
+                    : theme.textSecondary,
+            },
+          ]}
+        >
+          {status}
+        </Text>
+      </RNView>
+
+      {linkState !== "resolving" ? (
+        <RNView style={styles.bottom}>
+          {unverified && linkState === "warning" ? (
+            <Pressable
+              onPress={() => connectTo(unverified)}
+              style={({ pressed }) => [styles.primaryBtn, { backgroundColor: theme.warning, opacity: pressed ? 0.85 : 1 }]}
+            >
+              <Text style={[styles.primaryBtnText, { color: theme.background }]}>
+                Connect to {unverified.displayName} anyway
+              </Text>
+            </Pressable>
+          ) : null}
+          <Pressable onPress={() => router.replace("/(tabs)")} hitSlop={8}>
+            <Text style={[styles.link, { color: theme.accent }]}>Go to home</Text>
+          </Pressable>
+        </RNView>
+      ) : null}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safe: { flex: 1 },
+  content: {
+    flex: 1,
+    paddingHorizontal: 24,
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 16,
+  },
+  status: {
+    fontSize: 14,
+    textAlign: "center",
+    maxWidth: 320,
+    lineHeight: 20,
+  },
+  bottom: {
+    paddingHorizontal: 20,
+    paddingBottom: 24,
+    alignItems: "center",
+    gap: 12,
+  },
+  primaryBtn: {
+    width: "100%",
+    height: 52,
+    borderRadius: 14,
+    alignItems: "center",
+    justifyContent: "center",
+    paddingHorizontal: 16,
+  },
+  primaryBtnText: {
+    fontSize: 16,
+    fontWeight: "700",
+  },
+  link: {
+    fontSize: 15,
+    fontWeight: "700",
+  },
+});
@@ -17,6 +17,7 @@ import { router } from "expo-router";
 import Colors from "@/constants/Colors";
 import { useColorScheme } from "@/components/useColorScheme";
 import { Text } from "@/components/Themed";
+import { machineRouteParams, takePendingMachineLink } from "@/utils/machineLinks";
 import { setOnboardingCompleted } from "@/utils/onboardingStorage";
 import { assertSupabaseConfigured, supabase } from "@/lib/supabase";
 
@@ -166,7 +167,8 @@ export default function OnboardingScreen() {
       }
     }
     await setOnboardingCompleted(true);
-    router.replace("/(tabs)");
+    const link = await takePendingMachineLink();
+    router.replace(link ? { pathname: "/machine", params: machineRouteParams(link) } : "/(tabs)");
   };
 
   const goNext = () => setIdx((v) => Math.min(steps.length - 1, v + 1));
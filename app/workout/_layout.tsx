@@ -1,18 +1,27 @@
 import { Stack } from "expo-router";
 
 import { BleConnectionProvider } from "@/contexts/BleConnectionContext";
+import { PlanRunProvider } from "@/contexts/PlanRunContext";
+import { WorkoutDraftProvider } from "@/contexts/WorkoutDraftContext";
 
 export default function WorkoutLayout() {
   return (
     <BleConnectionProvider>
-      <Stack screenOptions={{ headerTitleAlign: "center" }}>
-        <Stack.Screen name="nfc" options={{ title: "NFC" }} />
-        <Stack.Screen name="connecting" options={{ title: "Connecting", headerShown: false }} />
-        <Stack.Screen name="plan" options={{ title: "Plan Workout" }} />
-        <Stack.Screen name="ble" options={{ title: "BLE" }} />
-        <Stack.Screen name="session" options={{ title: "Session" }} />
-        <Stack.Screen name="summary" options={{ title: "Summary" }} />
-      </Stack>
+      <PlanRunProvider>
+        <WorkoutDraftProvider>
+          <Stack screenOptions={{ headerTitleAlign: "center" }}>
+            <Stack.Screen name="nfc" options={{ title: "NFC" }} />
+            <Stack.Screen name="qr" options={{ title: "Scan QR Code" }} />
+            <Stack.Screen name="connecting" options={{ title: "Connecting", headerShown: false }} />
+            <Stack.Screen name="plan" options={{ title: "Plan Workout" }} />
+            <Stack.Screen name="ble" options={{ title: "BLE" }} />
+            <Stack.Screen name="session" options={{ title: "Session" }} />
+            <Stack.Screen name="summary" options={{ title: "Summary" }} />
+            <Stack.Screen name="edit" options={{ title: "Edit Sets" }} />
+            <Stack.Screen name="diagnostics" options={{ title: "Sensor Diagnostics" }} />
+          </Stack>
+        </WorkoutDraftProvider>
+      </PlanRunProvider>
     </BleConnectionProvider>
   );
 }
\ No newline at end of file
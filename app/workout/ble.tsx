@@ -1,4 +1,4 @@
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { Pressable, ScrollView, StyleSheet, View as RNView } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { router, useLocalSearchParams } from "expo-router";
@@ -6,6 +6,15 @@ import { router, useLocalSearchParams } from "expo-router";
 import Colors from "@/constants/Colors";
 import { Text, View } from "@/components/Themed";
 import { useColorScheme } from "@/components/useColorScheme";
+import { useGym } from "@/contexts/GymContext";
+import { usePlanRun } from "@/contexts/PlanRunContext";
+import { useWeightUnit } from "@/contexts/WeightUnitContext";
+import { supabase } from "@/lib/supabase";
+import { getMachine } from "@/utils/machineRegistry";
+import { suggestNextSession } from "@/utils/overloadSuggestions";
+import { bumpRestSec, DEFAULT_REST_SEC, formatRestTarget } from "@/utils/restTimer";
+import { bumpWeightKg, formatWeight } from "@/utils/weightUnits";
+import { getWorkouts, type Workout } from "@/utils/workoutStorage";
 
 const MACHINES = [
   "Bench Press",
@@ -25,28 +34,96 @@ const MACHINES = [
 export default function Ble() {
   const colorScheme = useColorScheme() ?? "light";
   const theme = Colors[colorScheme];
-  const { machine: machineParam, sensorName, sensorMac } = useLocalSearchParams<{
+  const { machine: machineParam, machineId, sensorName, sensorMac } = useLocalSearchParams<{
     machine?: string;
+    machineId?: string;
     sensorName?: string;
     sensorMac?: string;
   }>();
 
-  const [selectedMachine, setSelectedMachine] = useState(MACHINES[0]);
+  const { currentExercise: planExercise } = usePlanRun();
+  const { activeGymId } = useGym();
 
+  // The scanned machine comes from the gym's registry, so it may not be one of the built-in names
+  const scannedMachine = useMemo(
+    () => (machineId ? getMachine(machineId, activeGymId) : null),
+    [machineId, activeGymId]
+  );
+  const scannedName = scannedMachine?.displayName ?? (machineParam || null);
+  const machineNames = useMemo(
+    () => (scannedName && !MACHINES.includes(scannedName) ? [scannedName, ...MACHINES] : MACHINES),
+    [scannedName]
+  );
+
+  // In a plan run the plan's exercise and targets are the starting point; a scanned tag still wins
+  const [selectedMachine, setSelectedMachine] = useState(
+    scannedName ?? (planExercise && MACHINES.includes(planExercise.name) ? planExercise.name : MACHINES[0])
+  );
+
+  useEffect(() => {
+    if (scannedName) setSelectedMachine(scannedName);
+  }, [scannedName]);
+  const [sets, setSets] = useState(planExercise?.sets ?? 3);
+  const [reps, setReps] = useState(planExercise?.reps ?? 10);
+  const [weightKg, setWeightKg] = useState<number | null>(planExercise?.weight_kg ?? null);
+  const [restSec, setRestSec] = useState(planExercise?.rest_sec ?? DEFAULT_REST_SEC);
+  const { unit } = useWeightUnit();
+  const [history, setHistory] = useState<Workout[]>([]);
+  // Once the user touches a stepper, suggestions stop overwriting their choice
+  const editedRef = useRef(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        if (!supabase) return;
+        const { data } = await supabase.auth.getUser();
+        if (!data.user?.id) return;
+        const workouts = await getWorkouts(data.user.id);
+        if (!cancelled) setHistory(workouts);
+      } catch {
+        // ignore
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const suggestion = useMemo(
+    () => suggestNextSession(history, selectedMachine, { unit }),
+    [history, selectedMachine, unit]
+  );
+  const isPlannedMachine = planExercise?.name === selectedMachine;
+
+  const applySuggestion = () => {
+    if (!suggestion) return;
+    setSets(suggestion.sets);
+    setReps(suggestion.reps);
+    setWeightKg(suggestion.weightKg);
+  };
+
+  // Pre-fill from history, except where the plan already prescribes this machine
   useEffect(() => {
-    if (machineParam && MACHINES.includes(machineParam)) {
-      setSelectedMachine(machineParam);
-    }
-  }, [machineParam]);
-  const [sets, setSets] = useState(3);
-  const [reps, setReps] = useState(10);
+    if (!suggestion || editedRef.current || isPlannedMachine) return;
+    setSets(suggestion.sets);
+    setReps(suggestion.reps);
+    setWeightKg(suggestion.weightKg);
+  }, [suggestion, isPlannedMachine]);
+
+  const suggestionApplied =
+    !!suggestion && suggestion.sets === sets && suggestion.reps === reps && suggestion.weightKg === weightKg;
 
   const summary = useMemo(
-    () => `${sets} set${sets === 1 ? "" : "s"} · ${reps} rep${reps === 1 ? "" : "s"}`,
-    [sets, reps]
+    () =>
+      `${sets} set${sets === 1 ? "" : "s"} · ${reps} rep${reps === 1 ? "" : "s"}` +
+      (weightKg != null ? ` · ${formatWeight(weightKg, unit)}` : "") +
+      (restSec > 0 ? ` · ${formatRestTarget(restSec)} rest` : ""),
+    [sets, reps, weightKg, restSec, unit]
   );
 
   const bumpSets = (delta: number) => {
+    editedRef.current = true;
     setSets((v) => {
       const next = Math.max(1, Math.min(20, v + delta));
       return next;
@@ -54,18 +131,31 @@ export default function Ble() {
   };
 
   const bumpReps = (delta: number) => {
+    editedRef.current = true;
     setReps((v) => {
       const next = Math.max(1, Math.min(50, v + delta));
       return next;
     });
   };
 
+  const bumpWeight = (delta: number) => {
+    editedRef.current = true;
+    setWeightKg((v) => {
+      const next = bumpWeightKg(v, delta, unit);
+      return next > 0 ? next : null;
+    });
+  };
+
+  const bumpRest = (delta: number) => {
+    setRestSec((v) => bumpRestSec(v, delta));
+  };
+
   return (
     <SafeAreaView style={[styles.safe, { backgroundColor: theme.background }]}>
       <RNView style={styles.header}>
         <Text style={[styles.title, { color: theme.text }]}>Confirm</Text>
         <Text style={[styles.subtitle, { color: theme.textSecondary }]}>
-          Choose your target reps and sets, then start your session.
+          Choose your target reps, sets, weight and rest, then start your session.
         </Text>
       </RNView>
 
@@ -79,7 +169,7 @@ export default function Ble() {
               contentContainerStyle={styles.machineScrollContent}
               style={styles.machineScroll}
             >
-              {MACHINES.map((machine) => {
+              {machineNames.map((machine) => {
                 const isSelected = machine === selectedMachine;
                 return (
                   <Pressable
@@ -161,9 +251,91 @@ export default function Ble() {
               </Pressable>
             </RNView>
           </RNView>
+
+          <RNView style={[styles.divider, { backgroundColor: theme.border }]} />
+
+          <RNView style={styles.row}>
+            <Text style={[styles.label, { color: theme.textSecondary }]}>Weight</Text>
+            <RNView style={styles.controls}>
+              <Pressable
+                onPress={() => bumpWeight(-1)}
+                style={({ pressed }) => [
+                  styles.stepBtn,
+                  { borderColor: theme.border, opacity: pressed ? 0.7 : 1 },
+                ]}
+              >
+                <Text style={[styles.stepBtnText, { color: theme.text }]}>−</Text>
+              </Pressable>
+              <Text style={[styles.value, styles.weightValue, { color: theme.text }]}>
+                {weightKg == null ? "—" : formatWeight(weightKg, unit)}
+              </Text>
+              <Pressable
+                onPress={() => bumpWeight(1)}
+                style={({ pressed }) => [
+                  styles.stepBtn,
+                  { borderColor: theme.border, opacity: pressed ? 0.7 : 1 },
+                ]}
+              >
+                <Text style={[styles.stepBtnText, { color: theme.text }]}>+</Text>
+              </Pressable>
+            </RNView>
+          </RNView>
+
+          <RNView style={[styles.divider, { backgroundColor: theme.border }]} />
+
+          <RNView style={styles.row}>
+            <Text style={[styles.label, { color: theme.textSecondary }]}>Rest</Text>
+            <RNView style={styles.controls}>
+              <Pressable
+                onPress={() => bumpRest(-1)}
+                style={({ pressed }) => [
+                  styles.stepBtn,
+                  { borderColor: theme.border, opacity: pressed ? 0.7 : 1 },
+                ]}
+              >
+                <Text style={[styles.stepBtnText, { color: theme.text }]}>−</Text>
+              </Pressable>
+              <Text style={[styles.value, styles.weightValue, { color: theme.text }]}>
+                {formatRestTarget(restSec)}
+              </Text>
+              <Pressable
+                onPress={() => bumpRest(1)}
+                style={({ pressed }) => [
+                  styles.stepBtn,
+                  { borderColor: theme.border, opacity: pressed ? 0.7 : 1 },
+                ]}
+              >
+                <Text style={[styles.stepBtnText, { color: theme.text }]}>+</Text>
+              </Pressable>
+            </RNView>
+          </RNView>
         </View>
 
         <Text style={[styles.summary, { color: theme.textSecondary }]}>{summary}</Text>
+
+        {suggestion && (
+          <View style={[styles.card, styles.suggestionCard, { backgroundColor: theme.card, borderColor: theme.border }]}>
+            <RNView style={styles.suggestionHeader}>
+              <Text style={[styles.label, { color: theme.textSecondary }]}>
+                Suggested · {suggestion.sets}×{suggestion.reps}
+                {suggestion.weightKg != null ? ` · ${formatWeight(suggestion.weightKg, unit)}` : ""}
+              </Text>
+              {!suggestionApplied && (
+                <Pressable onPress={applySuggestion} style={({ pressed }) => [{ opacity: pressed ? 0.6 : 1 }]}>
+                  <Text style={[styles.suggestionApply, { color: theme.accent }]}>Apply</Text>
+                </Pressable>
+              )}
+            </RNView>
+            {suggestion.reasons.map((reason) => (
+              <Text key={reason} style={[styles.suggestionReason, { color: theme.text }]}>
+                • {reason}
+              </Text>
+            ))}
+            <Text style={[styles.suggestionBasis, { color: theme.textSecondary }]}>
+              Based on your last {suggestion.basedOn} session{suggestion.basedOn === 1 ? "" : "s"} on {selectedMachine}
+            </Text>
+          </View>
+        )}
       </RNView>
 
       <RNView style={styles.bottom}>
@@ -174,7 +346,10 @@ export default function Ble() {
               params: {
                 sets: sets.toString(),
                 reps: reps.toString(),
+                weightKg: weightKg != null ? weightKg.toString() : "",
+                restSec: restSec.toString(),
                 machine: selectedMachine,
+                machineId: selectedMachine === scannedName ? scannedMachine?.id ?? machineId ?? "" : "",
                 sensorName: sensorName ?? "",
                 sensorMac: sensorMac ?? "",
               },
@@ -286,6 +461,9 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: "800",
   },
+  weightValue: {
+    minWidth: 72,
+  },
   divider: {
     height: StyleSheet.hairlineWidth,
     width: "100%",
@@ -295,6 +473,28 @@ const styles = StyleSheet.create({
     fontSize: 13,
     fontWeight: "700",
   },
+  suggestionCard: {
+    padding: 14,
+    gap: 6,
+  },
+  suggestionHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  suggestionApply: {
+    fontSize: 14,
+    fontWeight: "700",
+  },
+  suggestionReason: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  suggestionBasis: {
+    fontSize: 11,
+    fontWeight: "600",
+    marginTop: 2,
+  },
   bottom: {
     paddingHorizontal: 20,
     paddingBottom: 18,
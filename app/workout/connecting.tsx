@@ -1,5 +1,5 @@
-import { useEffect } from "react";
-import { ActivityIndicator, Pressable, StyleSheet, View as RNView } from "react-native";
+import { useCallback, useEffect, useState } from "react";
+import { ActivityIndicator, Pressable, ScrollView, StyleSheet, View as RNView } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { router, useLocalSearchParams } from "expo-router";
 import FontAwesome from "@expo/vector-icons/FontAwesome";
@@ -8,48 +8,206 @@ import Colors from "@/constants/Colors";
 import { useColorScheme } from "@/components/useColorScheme";
 import { Text } from "@/components/Themed";
 import { useBleConnection } from "@/contexts/BleConnectionContext";
-import { useBleConnectToSensor } from "@/hooks/useBleConnectToSensor";
+import { useGym } from "@/contexts/GymContext";
+import { useBleConnectToSensor, type DiscoveredSensor } from "@/hooks/useBleConnectToSensor";
+import { getMachine } from "@/utils/machineRegistry";
+import { getRememberedSensor, rememberSensor, sensorMachineKey } from "@/utils/rememberedSensors";
+import { describeSensorInfo, LOW_BATTERY_PERCENT } from "@/utils/sensorInfo";
+import { reportSensorStatus } from "@/utils/sensorStatus";
+
+/**
+ * "connect": scan for a known device (the registry's MAC, the one picked last time, or by name).
+ * "pick": list nearby sensors by signal strength and let the member choose.
+ */
+type Mode = "loading" | "connect" | "pick";
 
 export default function ConnectingScreen() {
   const colorScheme = useColorScheme() ?? "light";
   const theme = Colors[colorScheme];
-  const { machine, sensorName, sensorMac } = useLocalSearchParams<{
+  const { machine, machineId, sensorName, sensorMac } = useLocalSearchParams<{
     machine?: string;
+    machineId?: string;
     sensorName?: string;
     sensorMac?: string;
   }>();
   const { setPreConnected } = useBleConnection();
-  const { device, status, error, connect, manager } = useBleConnectToSensor(
-    sensorName ?? "IMU-STACK",
-    sensorMac
-  );
+  const { activeGymId } = useGym();
+  const [mode, setMode] = useState<Mode>("loading");
+  const [targetMac, setTargetMac] = useState<string | undefined>(sensorMac?.trim() || undefined);
+  // Picked in this visit; remembered for the machine once the connection succeeds
+  const [picked, setPicked] = useState<DiscoveredSensor | null>(null);
+  const { device, status, error, connect, manager, sensors, sensorInfo, startDiscovery, stopDiscovery } =
+    useBleConnectToSensor(sensorName ?? "IMU-STACK", targetMac);
+  // A low battery holds the screen until the member has seen the warning
+  const [batteryWarningSeen, setBatteryWarningSeen] = useState(false);
+  const lowBattery =
+    sensorInfo?.batteryPercent != null && sensorInfo.batteryPercent <= LOW_BATTERY_PERCENT;
+  const sensorInfoText = sensorInfo ? describeSensorInfo(sensorInfo) : null;
+
+  const machineKey = machineId ? sensorMachineKey(machineId, activeGymId) : null;
 
   useEffect(() => {
-    connect();
-  }, [connect]);
+    let cancelled = false;
+    (async () => {
+      // A MAC in the registry is authoritative; without a machine id there is nothing to remember
+      if (targetMac || !machineKey) {
+        setMode("connect");
+        return;
+      }
+      const remembered = await getRememberedSensor(machineKey);
+      if (cancelled) return;
+      if (remembered) {
+        setTargetMac(remembered.deviceId);
+        setMode("connect");
+      } else {
+        setMode("pick");
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+    // Decide once on arrival; later changes come from the member's choices
+  }, []);
 
   useEffect(() => {
+    if (mode === "connect") connect();
+    else if (mode === "pick") startDiscovery();
+  }, [mode, connect, startDiscovery]);
+
+  // sensor_status references the gym's machine row; an id not registered here has nothing to attach to
+  const registered = machineId && activeGymId ? getMachine(machineId, activeGymId) : null;
+  const unregistered = !!machineId && !!activeGymId && !registered;
+  const registeredId = registered?.id ?? null;
+
+  useEffect(() => {
+    if (status !== "connected" || !device || !sensorInfo || !registeredId || !activeGymId) return;
+    void reportSensorStatus({
+      gymId: activeGymId,
+      machineId: registeredId,
+      deviceId: device.id,
+      deviceName: device.name || device.localName || null,
+      info: sensorInfo,
+    });
+    // Once per connection
+  }, [status, device, sensorInfo, registeredId, activeGymId]);
+
+  useEffect(() => {
+    if (lowBattery && !batteryWarningSeen) return;
     if (status === "connected" && device && manager && machine && machine.trim()) {
+      if (picked && machineKey) void rememberSensor(machineKey, picked.id, picked.name);
       setPreConnected(
         device,
         manager,
         machine,
         sensorName ?? "IMU-STACK",
-        sensorMac ?? ""
+        targetMac ?? ""
       );
       router.replace({
         pathname: "/workout/ble",
         params: {
           machine,
+          machineId: machineId ?? "",
           sensorName: sensorName ?? "",
-          sensorMac: sensorMac ?? "",
+          sensorMac: targetMac ?? "",
         },
       });
     }
-  }, [status, device, manager, machine, sensorName, sensorMac, setPreConnected]);
+  }, [
+    status,
+    device,
+    manager,
+    machine,
+    machineId,
+    machineKey,
+    picked,
+    sensorName,
+    targetMac,
+    setPreConnected,
+    lowBattery,
+    batteryWarningSeen,
+  ]);
+
+  const pickSensor = useCallback(
+    (sensor: DiscoveredSensor) => {
+      stopDiscovery();
+      setPicked(sensor);
+      setTargetMac(sensor.id);
+      setMode("connect");
+    },
+    [stopDiscovery]
+  );
+
+  const choose = useCallback(() => {
+    setPicked(null);
+    setMode("pick");
+  }, []);
 
   const machineLabel = machine ?? "Machine";
 
+  if (mode === "pick") {
+    return (
+      <SafeAreaView style={[styles.safe, { backgroundColor: theme.background }]}>
+        <RNView style={styles.pickHeader}>
+          <Text style={[styles.title, { color: theme.text }]}>Choose sensor</Text>
+          <Text style={[styles.subtitle, { color: theme.textSecondary }]}>
+            Stand next to the {machineLabel}. The closest sensor is listed first.
+          </Text>
+        </RNView>
+
+        <ScrollView contentContainerStyle={styles.pickList}>
+          {status === "error" ? (
+            <RNView style={styles.pickEmpty}>
+              <Text style={[styles.subtitle, { color: theme.danger }]}>{error ?? "Something went wrong"}</Text>
+              <Pressable
+                onPress={() => startDiscovery()}
+                style={({ pressed }) => [
+                  styles.retryBtn,
+                  { backgroundColor: theme.primary, opacity: pressed ? 0.85 : 1 },
+                ]}
+              >
+                <Text style={[styles.retryBtnText, { color: theme.background }]}>Try again</Text>
+              </Pressable>
+            </RNView>
+          ) : sensors.length === 0 ? (
+            <RNView style={styles.pickEmpty}>
+              <ActivityIndicator color={theme.accent} />
+              <Text style={[styles.subtitle, { color: theme.textSecondary }]}>Looking for sensors…</Text>
+            </RNView>
+          ) : (
+            sensors.map((sensor, i) => (
+              <Pressable
+                key={sensor.id}
+                onPress={() => pickSensor(sensor)}
+                style={({ pressed }) => [
+                  styles.sensorRow,
+                  {
+                    backgroundColor: theme.card,
+                    borderColor: i === 0 ? theme.accent : theme.border,
+                    opacity: pressed ? 0.75 : 1,
+                  },
+                ]}
+              >
+                <FontAwesome name="bluetooth" size={20} color={i === 0 ? theme.accent : theme.textSecondary} />
+                <RNView style={styles.sensorText}>
+                  <Text style={[styles.sensorName, { color: theme.text }]}>{sensor.name}</Text>
+                  <Text style={[styles.sensorId, { color: theme.textSecondary }]} numberOfLines={1}>
+                    {sensor.id}
+                  </Text>
+                </RNView>
+                <RNView style={styles.sensorSignal}>
+                  {i === 0 ? (
+                    <Text style={[styles.closest, { color: theme.accent }]}>Closest</Text>
+                  ) : null}
+                  <Text style={[styles.sensorRssi, { color: theme.textSecondary }]}>{sensor.rssi} dBm</Text>
+                </RNView>
+              </Pressable>
+            ))
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    );
+  }
+
   return (
     <SafeAreaView style={[styles.safe, { backgroundColor: theme.background }]}>
       <RNView style={styles.content}>
@@ -102,6 +260,35 @@ export default function ConnectingScreen() {
                 : `Preparing ${machineLabel}…`}
         </Text>
 
+        {unregistered ? (
+          <Text style={[styles.sensorInfo, { color: theme.textSecondary }]}>
+            This machine isn't registered at this gym.
+          </Text>
+        ) : null}
+
+        {sensorInfoText ? (
+          <Text style={[styles.sensorInfo, { color: lowBattery ? theme.warning : theme.textSecondary }]}>
+            {sensorInfoText}
+          </Text>
+        ) : null}
+
+        {status === "connected" && lowBattery && (
+          <>
+            <Text style={[styles.subtitle, { color: theme.warning }]}>
+              This sensor's battery is running low. Let the staff know so they can replace it.
+            </Text>
+            <Pressable
+              onPress={() => setBatteryWarningSeen(true)}
+              style={({ pressed }) => [
+                styles.retryBtn,
+                { backgroundColor: theme.primary, opacity: pressed ? 0.85 : 1 },
+              ]}
+            >
+              <Text style={[styles.retryBtnText, { color: theme.background }]}>Continue</Text>
+            </Pressable>
+          </>
+        )}
+
         {status === "error" && (
           <Pressable
             onPress={() => connect()}
@@ -118,6 +305,14 @@ export default function ConnectingScreen() {
             </Text>
           </Pressable>
         )}
+
+        {mode === "connect" && status !== "connected" && status !== "connecting" && (
+          <Pressable onPress={choose} hitSlop={8}>
+            <Text style={[styles.chooseLink, { color: theme.accent }]}>
+              {picked ? "Choose a different sensor" : "Choose sensor manually"}
+            </Text>
+          </Pressable>
+        )}
       </RNView>
     </SafeAreaView>
   );
@@ -161,4 +356,63 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: "700",
   },
+  sensorInfo: {
+    fontSize: 13,
+    fontWeight: "600",
+    textAlign: "center",
+  },
+  chooseLink: {
+    fontSize: 15,
+    fontWeight: "700",
+  },
+  pickHeader: {
+    paddingHorizontal: 24,
+    paddingTop: 24,
+    paddingBottom: 8,
+    alignItems: "center",
+    gap: 8,
+  },
+  pickList: {
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    gap: 10,
+  },
+  pickEmpty: {
+    alignItems: "center",
+    paddingTop: 40,
+    gap: 12,
+  },
+  sensorRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 14,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderRadius: 14,
+    borderWidth: 1,
+  },
+  sensorText: {
+    flex: 1,
+    gap: 2,
+  },
+  sensorName: {
+    fontSize: 16,
+    fontWeight: "700",
+  },
+  sensorId: {
+    fontSize: 12,
+  },
+  sensorSignal: {
+    alignItems: "flex-end",
+    gap: 2,
+  },
+  closest: {
+    fontSize: 11,
+    fontWeight: "800",
+    textTransform: "uppercase",
+  },
+  sensorRssi: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
 });
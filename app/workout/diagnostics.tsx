@@ -0,0 +1,297 @@
+import { useEffect, useState } from "react";
+import { ActivityIndicator, Pressable, ScrollView, StyleSheet, View as RNView } from "react-native";
+
+import Colors from "@/constants/Colors";
+import { useColorScheme } from "@/components/useColorScheme";
+import { Text } from "@/components/Themed";
+import { MonoText } from "@/components/StyledText";
+import { exportDiagnosticsLog, getDiagnosticsSnapshot, type DiagnosticsSnapshot } from "@/utils/sensorDiagnostics";
+import { exportSessionRecording, getSessionRecording } from "@/utils/sessionRecorder";
+
+const REFRESH_MS = 1000;
+// RSSI chart range and length (2s per sample: the last two minutes)
+const RSSI_MIN = -100;
+const RSSI_MAX = -30;
+const RSSI_BARS = 60;
+const LOG_ROWS = 80;
+
+function clock(ms: number): string {
+  const d = new Date(ms);
+  const pad = (n: number, width = 2) => n.toString().padStart(width, "0");
+  return `${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}.${pad(d.getMilliseconds(), 3)}`;
+}
+
+function InfoRow({ label, value, color, isLast }: { label: string; value: string; color?: string; isLast?: boolean }) {
+  const colorScheme = useColorScheme() ?? "light";
+  const theme = Colors[colorScheme];
+  return (
+    <RNView style={[styles.row, !isLast && { borderBottomWidth: 1, borderBottomColor: theme.border }]}>
+      <Text style={[styles.rowLabel, { color: theme.textSecondary }]}>{label}</Text>
+      <Text style={[styles.rowValue, { color: color ?? theme.text }]} numberOfLines={1}>
+        {value}
+      </Text>
+    </RNView>
+  );
+}
+
+/** Connection health of the current (or last) session's sensor, with the raw frame log for bug reports. */
+export default function DiagnosticsScreen() {
+  const colorScheme = useColorScheme() ?? "light";
+  const theme = Colors[colorScheme];
+  const [snapshot, setSnapshot] = useState<DiagnosticsSnapshot>(() => getDiagnosticsSnapshot());
+  const [exporting, setExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const t = setInterval(() => setSnapshot(getDiagnosticsSnapshot()), REFRESH_MS);
+    return () => clearInterval(t);
+  }, []);
+
+  const onExport = async (exportFile: () => Promise<void>) => {
+    setExporting(true);
+    setExportError(null);
+    try {
+      await exportFile();
+    } catch (e: any) {
+      setExportError(e?.message ?? "Export failed");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const { info } = snapshot;
+  const rssiBars = snapshot.rssi.slice(-RSSI_BARS);
+  const latestRssi = rssiBars.length > 0 ? rssiBars[rssiBars.length - 1].rssi : null;
+  const lastNotifyAgo =
+    snapshot.lastNotifyAtMs === null ? "-" : `${((Date.now() - snapshot.lastNotifyAtMs) / 1000).toFixed(1)}s ago`;
+  const recentFrames = snapshot.frames.slice(-LOG_ROWS).reverse();
+
+  return (
+    <ScrollView
+      style={{ flex: 1, backgroundColor: theme.background }}
+      contentContainerStyle={styles.content}
+    >
+      <RNView style={styles.section}>
+        <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>SENSOR</Text>
+        <RNView style={[styles.card, { backgroundColor: theme.card, borderColor: theme.border }]}>
+          <InfoRow label="Device" value={info.deviceName || info.deviceId || "Not connected"} />
+          {info.deviceName && info.deviceId ? <InfoRow label="ID" value={info.deviceId} /> : null}
+          <InfoRow label="Firmware" value={info.firmwareRevision ?? "-"} />
+          <InfoRow label="Hardware" value={info.hardwareRevision ?? "-"} />
+          <InfoRow label="Model" value={info.modelNumber ?? "-"} />
+          <InfoRow label="MTU" value={info.mtu != null ? `${info.mtu} bytes` : "-"} />
+          <InfoRow
+            label="Battery"
+            value={info.batteryPercent != null ? `${info.batteryPercent}%` : "-"}
+            color={info.batteryPercent != null && info.batteryPercent <= 15 ? theme.warning : undefined}
+            isLast
+          />
+        </RNView>
+      </RNView>
+
+      <RNView style={styles.section}>
+        <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>CONNECTION</Text>
+        <RNView style={[styles.card, { backgroundColor: theme.card, borderColor: theme.border }]}>
+          <InfoRow label="Notification rate" value={`${snapshot.notifyRateHz.toFixed(1)}/s`} />
+          <InfoRow label="Last notification" value={lastNotifyAgo} />
+          <InfoRow label="Notifications" value={`${snapshot.notifyCount} (live ${snapshot.liveCount})`} />
+          <InfoRow label="Polled reads" value={String(snapshot.pollCount)} />
+          <InfoRow
+            label="Missed live frames"
+            value={String(snapshot.missedLiveFrames)}
+            color={snapshot.missedLiveFrames > 0 ? theme.warning : undefined}
+          />
+          <InfoRow label="Longest gap" value={`${snapshot.longestGapMs} ms`} />
+          <InfoRow
+            label="Rejected frames"
+            value={String(snapshot.rejectedCount)}
+            color={snapshot.rejectedCount > 0 ? theme.warning : undefined}
+          />
+          <InfoRow
+            label="Last error"
+            value={snapshot.lastError ?? "-"}
+            color={snapshot.lastError ? theme.danger : undefined}
+            isLast
+          />
+        </RNView>
+      </RNView>
+
+      <RNView style={styles.section}>
+        <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>
+          SIGNAL{latestRssi !== null ? ` · ${latestRssi} dBm` : ""}
+        </Text>
+        <RNView style={[styles.card, styles.chart, { backgroundColor: theme.card, borderColor: theme.border }]}>
+          {rssiBars.length === 0 ? (
+            <Text style={[styles.empty, { color: theme.textSecondary }]}>No readings yet</Text>
+          ) : (
+            rssiBars.map((s) => {
+              const level = Math.max(0, Math.min(1, (s.rssi - RSSI_MIN) / (RSSI_MAX - RSSI_MIN)));
+              return (
+                <RNView
+                  key={s.atMs}
+                  style={[
+                    styles.bar,
+                    {
+                      height: `${Math.max(4, level * 100)}%`,
+                      backgroundColor: level < 0.3 ? theme.danger : level < 0.5 ? theme.warning : theme.success,
+                    },
+                  ]}
+                />
+              );
+            })
+          )}
+        </RNView>
+      </RNView>
+
+      {snapshot.events.length > 0 ? (
+        <RNView style={styles.section}>
+          <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>EVENTS</Text>
+          <RNView style={[styles.card, styles.log, { backgroundColor: theme.card, borderColor: theme.border }]}>
+            {[...snapshot.events].reverse().map((e, i) => (
+              <MonoText key={`${e.atMs}-${i}`} style={[styles.logLine, { color: theme.text }]}>
+                {clock(e.atMs)} {e.message}
+              </MonoText>
+            ))}
+          </RNView>
+        </RNView>
+      ) : null}
+
+      <RNView style={styles.section}>
+        <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>
+          FRAMES · LAST {Math.min(LOG_ROWS, snapshot.frames.length)}
+        </Text>
+        <RNView style={[styles.card, styles.log, { backgroundColor: theme.card, borderColor: theme.border }]}>
+          {recentFrames.length === 0 ? (
+            <Text style={[styles.empty, { color: theme.textSecondary }]}>No frames received</Text>
+          ) : (
+            recentFrames.map((f, i) => (
+              <MonoText
+                key={`${f.atMs}-${i}`}
+                style={[styles.logLine, { color: f.rejected ? theme.danger : theme.text }]}
+              >
+                {clock(f.atMs)} {f.characteristic}/{f.source} {f.raw}
+                {"\n  "}
+                {f.rejected ? `rejected: ${f.text}` : f.text}
+              </MonoText>
+            ))
+          )}
+        </RNView>
+      </RNView>
+
+      <Pressable
+        onPress={() => onExport(exportDiagnosticsLog)}
+        disabled={exporting}
+        style={({ pressed }) => [styles.primaryBtn, { backgroundColor: theme.primary, opacity: pressed ? 0.85 : 1 }]}
+      >
+        {exporting ? (
+          <ActivityIndicator color={theme.background} />
+        ) : (
+          <Text style={[styles.primaryBtnText, { color: theme.background }]}>Export log</Text>
+        )}
+      </Pressable>
+      {/* Every notification and read of the session, for replaying it on the simulated sensor */}
+      {getSessionRecording() ? (
+        <Pressable
+          onPress={() => onExport(exportSessionRecording)}
+          disabled={exporting}
+          style={({ pressed }) => [
+            styles.secondaryBtn,
+            { borderColor: theme.border, backgroundColor: theme.card, opacity: pressed ? 0.85 : 1 },
+          ]}
+        >
+          <Text style={[styles.secondaryBtnText, { color: theme.text }]}>Export session recording</Text>
+        </Pressable>
+      ) : null}
+      {exportError ? <Text style={[styles.error, { color: theme.danger }]}>{exportError}</Text> : null}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    paddingHorizontal: 16,
+    paddingVertical: 18,
+    gap: 18,
+  },
+  section: { gap: 8 },
+  sectionTitle: {
+    fontSize: 12,
+    fontWeight: "800",
+    letterSpacing: 0.8,
+    paddingHorizontal: 4,
+  },
+  card: {
+    borderRadius: 14,
+    borderWidth: 1,
+    overflow: "hidden",
+  },
+  row: {
+    minHeight: 44,
+    paddingHorizontal: 14,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 12,
+  },
+  rowLabel: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  rowValue: {
+    flexShrink: 1,
+    fontSize: 14,
+    fontWeight: "700",
+  },
+  chart: {
+    height: 90,
+    padding: 10,
+    flexDirection: "row",
+    alignItems: "flex-end",
+    gap: 2,
+  },
+  bar: {
+    flex: 1,
+    borderRadius: 2,
+  },
+  log: {
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    gap: 6,
+  },
+  logLine: {
+    fontSize: 11,
+    lineHeight: 15,
+  },
+  empty: {
+    flex: 1,
+    fontSize: 13,
+    textAlign: "center",
+    alignSelf: "center",
+  },
+  primaryBtn: {
+    height: 52,
+    borderRadius: 14,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  primaryBtnText: {
+    fontSize: 16,
+    fontWeight: "700",
+  },
+  secondaryBtn: {
+    height: 48,
+    borderRadius: 14,
+    borderWidth: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  secondaryBtnText: {
+    fontSize: 15,
+    fontWeight: "700",
+  },
+  error: {
+    fontSize: 12,
+    fontWeight: "700",
+    paddingHorizontal: 4,
+  },
+});
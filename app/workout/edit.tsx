@@ -0,0 +1,315 @@
+import { useEffect, useState } from "react";
+import { ActivityIndicator, Pressable, ScrollView, StyleSheet, View as RNView } from "react-native";
+import { router, useLocalSearchParams } from "expo-router";
+
+import Colors from "@/constants/Colors";
+import { useColorScheme } from "@/components/useColorScheme";
+import { Text } from "@/components/Themed";
+import { supabase } from "@/lib/supabase";
+import { useWorkoutDraft } from "@/contexts/WorkoutDraftContext";
+import { correctSet, getWorkout, type Workout, type WorkoutExercise } from "@/utils/workoutStorage";
+import { updateRecordedWorkout } from "@/utils/workoutSync";
+
+const REST_STEP_SEC = 5;
+const MAX_REPS = 99;
+
+function formatRest(seconds: number): string {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins}:${secs.toString().padStart(2, "0")}`;
+}
+
+function StepperRow({
+  label,
+  value,
+  detail,
+  onBump,
+  canDecrease,
+  isLast,
+}: {
+  label: string;
+  value: string;
+  detail?: string | null;
+  onBump: (direction: 1 | -1) => void;
+  canDecrease: boolean;
+  isLast?: boolean;
+}) {
+  const colorScheme = useColorScheme() ?? "light";
+  const theme = Colors[colorScheme];
+  return (
+    <RNView style={[styles.row, !isLast && { borderBottomWidth: 1, borderBottomColor: theme.border }]}>
+      <RNView style={styles.rowText}>
+        <Text style={[styles.rowLabel, { color: theme.text }]}>{label}</Text>
+        {detail ? <Text style={[styles.rowDetail, { color: theme.warning }]}>{detail}</Text> : null}
+      </RNView>
+      <RNView style={styles.stepper}>
+        <Pressable
+          onPress={() => onBump(-1)}
+          disabled={!canDecrease}
+          style={({ pressed }) => [
+            styles.stepBtn,
+            { borderColor: theme.border, opacity: !canDecrease ? 0.4 : pressed ? 0.7 : 1 },
+          ]}
+        >
+          <Text style={[styles.stepText, { color: theme.text }]}>−</Text>
+        </Pressable>
+        <Text style={[styles.stepValue, { color: theme.text }]}>{value}</Text>
+        <Pressable
+          onPress={() => onBump(1)}
+          style={({ pressed }) => [styles.stepBtn, { borderColor: theme.border, opacity: pressed ? 0.7 : 1 }]}
+        >
+          <Text style={[styles.stepText, { color: theme.text }]}>+</Text>
+        </Pressable>
+      </RNView>
+    </RNView>
+  );
+}
+
+type SetEdit = { achievedReps: number; restBeforeSec: number };
+
+/**
+ * Correct an exercise's reps and rest times: the unsaved one from the session (no params), or
+ * exercise `exercise` of a saved workout (`workoutId`), which is re-uploaded after the change.
+ */
+export default function EditSetsScreen() {
+  const colorScheme = useColorScheme() ?? "light";
+  const theme = Colors[colorScheme];
+  const params = useLocalSearchParams<{ workoutId?: string; exercise?: string }>();
+  const { draft, updateDraftExercise } = useWorkoutDraft();
+  const [savedWorkout, setSavedWorkout] = useState<Workout | null>(null);
+  const [loading, setLoading] = useState(!!params.workoutId);
+  const [saving, setSaving] = useState(false);
+  // Edited values by set index; sets without an entry keep their current values
+  const [edits, setEdits] = useState<Record<number, SetEdit>>({});
+
+  const exerciseIndex = parseInt(params.exercise ?? "0", 10) || 0;
+  const exercise = params.workoutId ? savedWorkout?.exercises[exerciseIndex] ?? null : draft?.exercise ?? null;
+
+  useEffect(() => {
+    if (!params.workoutId) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        if (!supabase) return;
+        const { data } = await supabase.auth.getUser();
+        if (!data.user?.id) return;
+        const workout = await getWorkout(data.user.id, params.workoutId!);
+        if (!cancelled) setSavedWorkout(workout);
+      } catch {
+        // ignore
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [params.workoutId]);
+
+  if (loading) {
+    return (
+      <RNView style={[styles.empty, { backgroundColor: theme.background }]}>
+        <ActivityIndicator color={theme.textSecondary} />
+      </RNView>
+    );
+  }
+
+  if (!exercise) {
+    return (
+      <RNView style={[styles.empty, { backgroundColor: theme.background }]}>
+        <Text style={[styles.emptyText, { color: theme.textSecondary }]}>Nothing to edit.</Text>
+        <Pressable
+          onPress={() => router.back()}
+          style={({ pressed }) => [styles.primaryBtn, { backgroundColor: theme.primary, opacity: pressed ? 0.85 : 1 }]}
+        >
+          <Text style={[styles.primaryBtnText, { color: theme.background }]}>Back</Text>
+        </Pressable>
+      </RNView>
+    );
+  }
+
+  const valuesFor = (i: number): SetEdit =>
+    edits[i] ?? { achievedReps: exercise.sets[i].achievedReps, restBeforeSec: exercise.sets[i].restBeforeSec };
+
+  const bump = (index: number, field: keyof SetEdit, direction: 1 | -1) => {
+    const current = valuesFor(index);
+    const next =
+      field === "achievedReps"
+        ? { ...current, achievedReps: Math.min(MAX_REPS, Math.max(0, current.achievedReps + direction)) }
+        : { ...current, restBeforeSec: Math.max(0, current.restBeforeSec + direction * REST_STEP_SEC) };
+    setEdits((prev) => ({ ...prev, [index]: next }));
+  };
+
+  const done = async () => {
+    if (saving) return;
+    setSaving(true);
+    const corrected: WorkoutExercise = {
+      ...exercise,
+      sets: exercise.sets.map((s, i) => correctSet(s, edits[i] ?? {})),
+    };
+    if (savedWorkout) {
+      await updateRecordedWorkout({
+        ...savedWorkout,
+        exercises: savedWorkout.exercises.map((e, i) => (i === exerciseIndex ? corrected : e)),
+      });
+    } else {
+      updateDraftExercise(corrected);
+    }
+    router.back();
+  };
+
+  return (
+    <ScrollView style={{ flex: 1, backgroundColor: theme.background }} contentContainerStyle={styles.content}>
+      <Text style={[styles.title, { color: theme.text }]}>{exercise.machineName}</Text>
+      <Text style={[styles.subtitle, { color: theme.textSecondary }]}>
+        Fix any reps the sensor missed or double-counted, or a rest you forgot to end.
+      </Text>
+
+      {exercise.sets.map((set, i) => {
+        const edit = valuesFor(i);
+        // Compare with what was counted, not with an earlier correction
+        const countedReps = set.correction?.countedReps ?? set.achievedReps;
+        const countedRest = set.correction?.countedRestBeforeSec ?? set.restBeforeSec;
+        const undone = set.correction?.undoneReps ?? 0;
+        const repsDetail =
+          edit.achievedReps !== countedReps
+            ? `Counted ${countedReps}`
+            : undone > 0
+              ? `${undone} undone during the set`
+              : null;
+        return (
+          <RNView key={i} style={styles.section}>
+            <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>
+              SET {i + 1} · TARGET {set.targetReps}
+            </Text>
+            <RNView style={[styles.card, { backgroundColor: theme.card, borderColor: theme.border }]}>
+              <StepperRow
+                label="Reps"
+                value={String(edit.achievedReps)}
+                detail={repsDetail}
+                onBump={(d) => bump(i, "achievedReps", d)}
+                canDecrease={edit.achievedReps > 0}
+                isLast={i === 0}
+              />
+              {i > 0 ? (
+                <StepperRow
+                  label="Rest before"
+                  value={formatRest(edit.restBeforeSec)}
+                  detail={edit.restBeforeSec !== countedRest ? `Timed ${formatRest(countedRest)}` : null}
+                  onBump={(d) => bump(i, "restBeforeSec", d)}
+                  canDecrease={edit.restBeforeSec > 0}
+                  isLast
+                />
+              ) : null}
+            </RNView>
+          </RNView>
+        );
+      })}
+
+      <Pressable
+        onPress={done}
+        disabled={saving}
+        style={({ pressed }) => [styles.primaryBtn, { backgroundColor: theme.primary, opacity: pressed ? 0.85 : 1 }]}
+      >
+        {saving ? (
+          <ActivityIndicator color={theme.background} />
+        ) : (
+          <Text style={[styles.primaryBtnText, { color: theme.background }]}>
+            {savedWorkout ? "Save changes" : "Done"}
+          </Text>
+        )}
+      </Pressable>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    paddingHorizontal: 16,
+    paddingVertical: 18,
+    gap: 18,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: "800",
+  },
+  subtitle: {
+    fontSize: 14,
+    marginTop: -10,
+  },
+  section: { gap: 8 },
+  sectionTitle: {
+    fontSize: 12,
+    fontWeight: "800",
+    letterSpacing: 0.8,
+    paddingHorizontal: 4,
+  },
+  card: {
+    borderRadius: 14,
+    borderWidth: 1,
+    overflow: "hidden",
+  },
+  row: {
+    minHeight: 56,
+    paddingHorizontal: 14,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 12,
+  },
+  rowText: {
+    flexShrink: 1,
+    gap: 2,
+  },
+  rowLabel: {
+    fontSize: 15,
+    fontWeight: "700",
+  },
+  rowDetail: {
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  stepper: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+  },
+  stepBtn: {
+    width: 32,
+    height: 32,
+    borderRadius: 10,
+    borderWidth: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  stepText: {
+    fontSize: 18,
+    fontWeight: "800",
+  },
+  stepValue: {
+    minWidth: 48,
+    textAlign: "center",
+    fontSize: 16,
+    fontWeight: "800",
+  },
+  primaryBtn: {
+    height: 52,
+    borderRadius: 14,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  primaryBtnText: {
+    fontSize: 16,
+    fontWeight: "700",
+  },
+  empty: {
+    flex: 1,
+    justifyContent: "center",
+    gap: 16,
+    padding: 24,
+  },
+  emptyText: {
+    fontSize: 15,
+    textAlign: "center",
+  },
+});
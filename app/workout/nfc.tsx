@@ -1,71 +1,29 @@
 import { useCallback, useEffect, useState } from "react";
 import {
   ActivityIndicator,
+  Alert,
   Pressable,
   StyleSheet,
   View as RNView,
 } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import FontAwesome from "@expo/vector-icons/FontAwesome";
-import NfcManager, { NfcTech, Ndef } from "react-native-nfc-manager";
+import NfcManager, { NfcTech } from "react-native-nfc-manager";
 import { router } from "expo-router";
 
 import Colors from "@/constants/Colors";
 import { useColorScheme } from "@/components/useColorScheme";
 import { Text } from "@/components/Themed";
-import {
-  extractMachineIdFromUri,
-  getMachineDisplayName,
-  getSensorForMachineId,
-} from "@/utils/nfcSensorMap";
-
-type ScanState = "idle" | "loading" | "success" | "error";
-
-function extractUriFromTag(tag: {
-  ndefMessage?: Array<{
-    tnf?: number;
-    type?: string | number[];
-    payload?: number[];
-  }>;
-}): string | null {
-  const records = tag?.ndefMessage;
-  if (!Array.isArray(records) || records.length === 0) return null;
+import { useGym } from "@/contexts/GymContext";
+import { usePlanRun } from "@/contexts/PlanRunContext";
+import { supabase } from "@/lib/supabase";
+import { recordWorkout } from "@/utils/workoutSync";
+import { getGym } from "@/utils/machineRegistry";
+import { connectingParams, resolveMachineUri, type ScannedMachine } from "@/utils/machineScan";
+import { extractUriFromTag } from "@/utils/nfcTags";
 
-  for (const record of records) {
-    try {
-      if (record.tnf === 0x03 && typeof record.type === "string") {
-        return record.type;
-      }
-      if (record.tnf === 0x01 && record.payload && record.payload.length > 0) {
-        const typeStr =
-          Array.isArray(record.type) ? String.fromCharCode(...record.type) : record.type;
-        const payload =
-          record.payload instanceof Uint8Array
-            ? record.payload
-            : new Uint8Array(record.payload);
-        if (typeStr === "U" || (Array.isArray(record.type) && record.type[0] === 0x55)) {
-          const uri = Ndef.uri.decodePayload(payload);
-          if (uri) return uri;
-        }
-        if (typeStr === "T" || (Array.isArray(record.type) && record.type[0] === 0x54)) {
-          try {
-            const text = Ndef.text.decodePayload(payload);
-            if (text && text.includes("movo://")) return text;
-          } catch {
-            // skip
-          }
-        }
-      }
-      if (record.payload && record.payload.length > 0) {
-        const raw = String.fromCharCode(...record.payload);
-        if (raw.includes("movo://")) return raw;
-      }
-    } catch {
-      // skip
-    }
-  }
-  return null;
-}
+/** "warning": the tag resolved to a machine but its signature could not be checked */
+type ScanState = "idle" | "loading" | "success" | "warning" | "error";
 
 export default function NfcScreen() {
   const colorScheme = useColorScheme() ?? "light";
@@ -74,7 +32,21 @@ export default function NfcScreen() {
   const [scanState, setScanState] = useState<ScanState>("idle");
   const [status, setStatus] = useState<string>("Checking NFC…");
   const [scannedMachine, setScannedMachine] = useState<string | null>(null);
+  // Held back from auto-connecting until the member confirms the unverified tag
+  const [unverified, setUnverified] = useState<ScannedMachine | null>(null);
   const [nfcSupported, setNfcSupported] = useState<boolean | null>(null);
+  const {
+    isRunning: isPlanRun,
+    currentExercise: planExercise,
+    currentIndex: planIndex,
+    exercises: planExercises,
+    results: planResults,
+    startedAt: planStartedAt,
+    completeExercise,
+    endPlanRun,
+  } = usePlanRun();
+  const [savingRun, setSavingRun] = useState(false);
+  const { activeGymId, setCurrentGym } = useGym();
 
   useEffect(() => {
     let mounted = true;
@@ -86,7 +58,7 @@ export default function NfcScreen() {
           setStatus(
             supported
               ? 'Tap "Scan NFC tag" to start, then hold phone near the machine'
-              : "NFC is not supported on this device"
+              : "NFC isn't available on this device. Scan the QR code on the machine instead."
           );
         }
         if (supported) await NfcManager.start();
@@ -103,6 +75,14 @@ export default function NfcScreen() {
     };
   }, []);
 
+  const connectTo = useCallback(
+    (scanned: ScannedMachine) => {
+      if (scanned.tagGymId && getGym(scanned.tagGymId)) setCurrentGym(scanned.tagGymId);
+      router.push({ pathname: "/workout/connecting", params: connectingParams(scanned) });
+    },
+    [setCurrentGym]
+  );
+
   const scanNfc = useCallback(async () => {
     if (nfcSupported === false) {
       setScanState("error");
@@ -117,6 +97,7 @@ export default function NfcScreen() {
     setScanState("loading");
     setStatus("Hold your phone near the machine tag now…");
     setScannedMachine(null);
+    setUnverified(null);
 
     try {
       await NfcManager.requestTechnology(NfcTech.Ndef, {
@@ -132,34 +113,24 @@ export default function NfcScreen() {
         return;
       }
 
-      const machineId = extractMachineIdFromUri(uri);
-      if (!machineId) {
+      const resolved = await resolveMachineUri(uri, activeGymId);
+      if (resolved.status === "error") {
         setScanState("error");
-        setStatus(`Unknown tag format: ${uri}`);
+        setStatus(resolved.message);
         return;
       }
 
-      const sensor = getSensorForMachineId(machineId);
-      const displayName = getMachineDisplayName(machineId) ?? machineId;
-
-      if (!sensor || (!sensor.name && !sensor.mac)) {
-        setScanState("error");
-        setStatus(`Machine "${machineId}" has no sensor mapped`);
+      setScannedMachine(resolved.machine.displayName);
+      if (resolved.status === "unverified") {
+        setUnverified(resolved.machine);
+        setScanState("warning");
+        setStatus(resolved.message);
         return;
       }
 
-      setScannedMachine(displayName);
       setScanState("success");
-      setStatus(`Found ${displayName} — connecting…`);
-
-      router.push({
-        pathname: "/workout/connecting",
-        params: {
-          machine: displayName,
-          sensorName: sensor.name ?? "",
-          sensorMac: sensor.mac ?? "",
-        },
-      });
+      setStatus(`Verified ${resolved.machine.displayName} — connecting…`);
+      connectTo(resolved.machine);
     } catch (e: any) {
       const msg = e?.message ?? String(e);
       setScanState("error");
@@ -180,17 +151,87 @@ export default function NfcScreen() {
         // ignore
       }
     }
-  }, [nfcSupported]);
+  }, [nfcSupported, activeGymId, connectTo]);
+
+  const connectUnverified = useCallback(() => {
+    if (!unverified) return;
+    setUnverified(null);
+    setScanState("success");
+    setStatus(`Found ${unverified.displayName} — connecting…`);
+    connectTo(unverified);
+  }, [unverified, connectTo]);
+
+  const scanQr = useCallback(() => {
+    setScannedMachine(null);
+    setUnverified(null);
+    router.push("/workout/qr");
+  }, []);
 
   const goToBle = useCallback(() => {
+    const machine = scannedMachine ?? planExercise?.name;
     router.push({
       pathname: "/workout/ble",
-      params: scannedMachine ? { machine: scannedMachine } : undefined,
+      params: machine ? { machine } : undefined,
     });
-  }, [scannedMachine]);
+  }, [scannedMachine, planExercise]);
+
+  // Skipping the last exercise ends the run; whatever was done so far is saved as one workout
+  const skipExercise = useCallback(async () => {
+    if (savingRun) return;
+    setScannedMachine(null);
+    setUnverified(null);
+    setScanState("idle");
+    if (planIndex < planExercises.length - 1) {
+      completeExercise(null);
+      return;
+    }
+    if (planResults.length === 0) {
+      endPlanRun();
+      router.back();
+      return;
+    }
+    // The run only ends once the workout is saved, so a failed save can be retried
+    setSavingRun(true);
+    try {
+      // The stored session, so saving works offline; the upload queue takes it from there
+      const { data } = supabase ? await supabase.auth.getSession() : { data: { session: null } };
+      const userId = data.session?.user.id;
+      if (!userId) throw new Error("Not signed in");
+      const duration = Math.floor((Date.now() - (planStartedAt ?? Date.now())) / 1000);
+      await recordWorkout(
+        { duration, fromPlan: true, gymId: activeGymId ?? undefined, exercises: planResults },
+        userId
+      );
+    } catch {
+      setSavingRun(false);
+      Alert.alert("Save Workout", "Couldn't save the workout. Your sets are still here, so you can try again.");
+      return;
+    }
+    endPlanRun();
+    router.replace("/(tabs)/two");
+  }, [savingRun, planIndex, planExercises, planResults, completeExercise, endPlanRun, planStartedAt, activeGymId]);
 
   return (
     <SafeAreaView style={[styles.safe, { backgroundColor: theme.background }]}>
+      {isPlanRun && planExercise && (
+        <RNView style={[styles.planBanner, { backgroundColor: theme.card, borderColor: theme.border }]}>
+          <RNView style={styles.planBannerText}>
+            <Text style={[styles.planStep, { color: theme.textSecondary }]}>
+              Exercise {planIndex + 1} of {planExercises.length}
+            </Text>
+            <Text style={[styles.planExercise, { color: theme.text }]}>
+              {planExercise.name} · {planExercise.sets}×{planExercise.reps}
+            </Text>
+          </RNView>
+          <Pressable
+            onPress={skipExercise}
+            disabled={savingRun}
+            style={({ pressed }) => [{ opacity: pressed || savingRun ? 0.6 : 1 }]}
+          >
+            <Text style={[styles.planSkip, { color: theme.accent }]}>Skip</Text>
+          </Pressable>
+        </RNView>
+      )}
       <RNView style={styles.content}>
         <RNView
           style={[
@@ -200,9 +241,11 @@ export default function NfcScreen() {
               borderColor:
                 scanState === "success"
                   ? theme.success
-                  : scanState === "error"
-                    ? theme.danger
-                    : theme.border,
+                  : scanState === "warning"
+                    ? theme.warning
+                    : scanState === "error"
+                      ? theme.danger
+                      : theme.border,
             },
           ]}
         >
@@ -213,17 +256,21 @@ export default function NfcScreen() {
               name={
                 scanState === "success"
                   ? "check"
-                  : scanState === "error"
-                    ? "exclamation-circle"
-                    : "wifi"
+                  : scanState === "warning"
+                    ? "warning"
+                    : scanState === "error"
+                      ? "exclamation-circle"
+                      : "wifi"
               }
               size={40}
               color={
                 scanState === "success"
                   ? theme.success
-                  : scanState === "error"
-                    ? theme.danger
-                    : theme.accent
+                  : scanState === "warning"
+                    ? theme.warning
+                    : scanState === "error"
+                      ? theme.danger
+                      : theme.accent
               }
             />
           )}
@@ -231,25 +278,39 @@ export default function NfcScreen() {
 
         <Text style={[styles.title, { color: theme.text }]}>Tap to connect</Text>
         <Text style={[styles.subtitle, { color: theme.textSecondary }]}>
-          Scan the NFC tag on the machine to automatically connect to its Bluetooth sensor.
+          {isPlanRun && planExercise
+            ? `Scan the ${nfcSupported === false ? "QR code" : "NFC tag"} on the ${planExercise.name} to connect to its Bluetooth sensor.`
+            : `Scan the ${nfcSupported === false ? "QR code" : "NFC tag"} on the machine to automatically connect to its Bluetooth sensor.`}
         </Text>
 
-        <Pressable
-          onPress={scanNfc}
-          disabled={scanState === "loading" || !nfcSupported}
-          style={({ pressed }) => [
-            styles.scanBtn,
-            {
-              backgroundColor:
-                scanState === "loading" ? theme.border : theme.primary,
-              opacity: pressed ? 0.85 : 1,
-            },
-          ]}
-        >
-          <Text style={[styles.scanBtnText, { color: theme.background }]}>
-            {scanState === "loading" ? "Scanning…" : "Scan NFC tag"}
-          </Text>
-        </Pressable>
+        {nfcSupported === false ? (
+          <Pressable
+            onPress={scanQr}
+            style={({ pressed }) => [
+              styles.scanBtn,
+              { backgroundColor: theme.primary, opacity: pressed ? 0.85 : 1 },
+            ]}
+          >
+            <Text style={[styles.scanBtnText, { color: theme.background }]}>Scan QR code</Text>
+          </Pressable>
+        ) : (
+          <Pressable
+            onPress={scanNfc}
+            disabled={scanState === "loading" || !nfcSupported}
+            style={({ pressed }) => [
+              styles.scanBtn,
+              {
+                backgroundColor:
+                  scanState === "loading" ? theme.border : theme.primary,
+                opacity: pressed ? 0.85 : 1,
+              },
+            ]}
+          >
+            <Text style={[styles.scanBtnText, { color: theme.background }]}>
+              {scanState === "loading" ? "Scanning…" : "Scan NFC tag"}
+            </Text>
+          </Pressable>
+        )}
 
         <Text
           style={[
@@ -258,15 +319,23 @@ export default function NfcScreen() {
               color:
                 scanState === "error"
                   ? theme.danger
-                  : scanState === "success"
-                    ? theme.success
-                    : theme.textSecondary,
+                  : scanState === "warning"
+                    ? theme.warning
+                    : scanState === "success"
+                      ? theme.success
+                      : theme.textSecondary,
             },
           ]}
         >
           {status}
         </Text>
 
+        {nfcSupported ? (
+          <Pressable onPress={scanQr} disabled={scanState === "loading"} hitSlop={8}>
+            <Text style={[styles.qrLink, { color: theme.accent }]}>Use the QR code instead</Text>
+          </Pressable>
+        ) : null}
+
         {scannedMachine && scanState === "success" && (
           <RNView style={[styles.machineChip, { backgroundColor: theme.success }]}>
             <Text style={[styles.machineChipText, { color: theme.background }]}>
@@ -274,6 +343,22 @@ export default function NfcScreen() {
             </Text>
           </RNView>
         )}
+
+        {unverified && scanState === "warning" && (
+          <RNView style={[styles.warningCard, { borderColor: theme.warning }]}>
+            <Text style={[styles.warningTitle, { color: theme.warning }]}>Unverified tag</Text>
+            <Text style={[styles.warningMachine, { color: theme.text }]}>{unverified.displayName}</Text>
+            <Pressable
+              onPress={connectUnverified}
+              style={({ pressed }) => [
+                styles.warningBtn,
+                { backgroundColor: theme.warning, opacity: pressed ? 0.85 : 1 },
+              ]}
+            >
+              <Text style={[styles.warningBtnText, { color: theme.background }]}>Connect anyway</Text>
+            </Pressable>
+          </RNView>
+        )}
       </RNView>
 
       <RNView style={styles.bottom}>
@@ -290,7 +375,9 @@ export default function NfcScreen() {
           <Text style={[styles.continueBtnText, { color: theme.background }]}>
             {scannedMachine
               ? "Continue with " + scannedMachine
-              : "Continue without scanning"}
+              : isPlanRun && planExercise
+                ? "Continue with " + planExercise.name + " without scanning"
+                : "Continue without scanning"}
           </Text>
         </Pressable>
       </RNView>
@@ -300,6 +387,34 @@ export default function NfcScreen() {
 
 const styles = StyleSheet.create({
   safe: { flex: 1 },
+  planBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginHorizontal: 20,
+    marginTop: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 14,
+    borderWidth: 1,
+    gap: 12,
+  },
+  planBannerText: {
+    flex: 1,
+    gap: 2,
+  },
+  planStep: {
+    fontSize: 12,
+    fontWeight: "600",
+    textTransform: "uppercase",
+  },
+  planExercise: {
+    fontSize: 16,
+    fontWeight: "700",
+  },
+  planSkip: {
+    fontSize: 15,
+    fontWeight: "700",
+  },
   content: {
     flex: 1,
     paddingHorizontal: 24,
@@ -340,6 +455,10 @@ const styles = StyleSheet.create({
     fontSize: 13,
     textAlign: "center",
   },
+  qrLink: {
+    fontSize: 14,
+    fontWeight: "700",
+  },
   machineChip: {
     paddingHorizontal: 16,
     paddingVertical: 10,
@@ -350,6 +469,34 @@ const styles = StyleSheet.create({
     fontSize: 15,
     fontWeight: "700",
   },
+  warningCard: {
+    alignItems: "center",
+    borderWidth: 1,
+    borderRadius: 14,
+    paddingHorizontal: 20,
+    paddingVertical: 14,
+    gap: 6,
+  },
+  warningTitle: {
+    fontSize: 12,
+    fontWeight: "800",
+    textTransform: "uppercase",
+    letterSpacing: 0.8,
+  },
+  warningMachine: {
+    fontSize: 16,
+    fontWeight: "700",
+  },
+  warningBtn: {
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 12,
+    marginTop: 4,
+  },
+  warningBtnText: {
+    fontSize: 15,
+    fontWeight: "700",
+  },
   bottom: {
     paddingHorizontal: 20,
     paddingBottom: 24,
@@ -9,12 +9,14 @@ import {
   FlatList,
 } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
-import { useFocusEffect } from "expo-router";
+import { router, useFocusEffect } from "expo-router";
 import FontAwesome from "@expo/vector-icons/FontAwesome";
 
 import Colors from "@/constants/Colors";
 import { Text, View } from "@/components/Themed";
 import { useColorScheme } from "@/components/useColorScheme";
+import { usePlanRun } from "@/contexts/PlanRunContext";
+import { useWeightUnit } from "@/contexts/WeightUnitContext";
 import { supabase } from "@/lib/supabase";
 import {
   addPlanExercise as dbAddPlanExercise,
@@ -22,6 +24,10 @@ import {
   removePlanExercise as dbRemovePlanExercise,
   updatePlanExercise as dbUpdatePlanExercise,
 } from "@/utils/planStorage";
+import { suggestNextSession } from "@/utils/overloadSuggestions";
+import { bumpRestSec, DEFAULT_REST_SEC, formatRestTarget } from "@/utils/restTimer";
+import { bumpWeightKg, formatWeight } from "@/utils/weightUnits";
+import { getWorkouts, type Workout } from "@/utils/workoutStorage";
 
 const EXERCISES = [
   "Bench Press",
@@ -43,6 +49,8 @@ type PlannedExercise = {
   name: string;
   sets: number;
   reps: number;
+  weight_kg: number | null;
+  rest_sec: number;
 };
 
 export default function Plan() {
@@ -53,6 +61,10 @@ export default function Plan() {
   const [addModalVisible, setAddModalVisible] = useState(false);
   const [loading, setLoading] = useState(true);
   const [userId, setUserId] = useState<string | null>(null);
+  const [starting, setStarting] = useState(false);
+  const [history, setHistory] = useState<Workout[]>([]);
+  const { startPlanRun } = usePlanRun();
+  const { unit } = useWeightUnit();
 
   const ensureUser = useCallback(async (): Promise<string | null> => {
     if (!supabase) return null;
@@ -66,9 +78,17 @@ export default function Plan() {
       const uid = await ensureUser();
       setUserId(uid);
       if (uid) {
+        setHistory(await getWorkouts(uid));
         const loaded = await getPlanExercises(uid);
         setExercises(
-          loaded.map((e) => ({ id: e.id, name: e.name, sets: e.sets, reps: e.reps }))
+          loaded.map((e) => ({
+            id: e.id,
+            name: e.name,
+            sets: e.sets,
+            reps: e.reps,
+            weight_kg: e.weight_kg,
+            rest_sec: e.rest_sec,
+          }))
         );
       } else {
         setExercises([]);
@@ -85,11 +105,15 @@ export default function Plan() {
   );
 
   const addExercise = async (name: string) => {
+    // Start from what history says to do next on this machine rather than a flat 3×10
+    const suggestion = suggestNextSession(history, name, { unit });
     const newEx: PlannedExercise = {
       id: `temp-${Date.now()}`,
       name,
-      sets: 3,
-      reps: 10,
+      sets: suggestion?.sets ?? 3,
+      reps: suggestion?.reps ?? 10,
+      weight_kg: suggestion?.weightKg ?? null,
+      rest_sec: DEFAULT_REST_SEC,
     };
     setExercises((prev) => [...prev, newEx]);
     setAddModalVisible(false);
@@ -101,8 +125,10 @@ export default function Plan() {
 
     const saved = await dbAddPlanExercise(uid, {
       name,
-      sets: 3,
-      reps: 10,
+      sets: newEx.sets,
+      reps: newEx.reps,
+      weight_kg: newEx.weight_kg,
+      rest_sec: newEx.rest_sec,
     });
     if (saved) {
       setExercises((prev) =>
@@ -150,12 +176,49 @@ export default function Plan() {
     }
   };
 
+  const bumpWeight = async (id: string, delta: number) => {
+    const current = exercises.find((e) => e.id === id);
+    if (!current) return;
+    const bumped = bumpWeightKg(current.weight_kg, delta, unit);
+    // Stepping down to zero clears the load back to bodyweight
+    const nextWeight = bumped > 0 ? bumped : null;
+    setExercises((prev) => prev.map((e) => (e.id === id ? { ...e, weight_kg: nextWeight } : e)));
+    if (userId && !id.startsWith("temp-")) {
+      await dbUpdatePlanExercise(userId, id, { weight_kg: nextWeight });
+    }
+  };
+
+  const bumpRest = async (id: string, delta: number) => {
+    const current = exercises.find((e) => e.id === id);
+    if (!current) return;
+    const nextRest = bumpRestSec(current.rest_sec, delta);
+    setExercises((prev) => prev.map((e) => (e.id === id ? { ...e, rest_sec: nextRest } : e)));
+    if (userId && !id.startsWith("temp-")) {
+      await dbUpdatePlanExercise(userId, id, { rest_sec: nextRest });
+    }
+  };
+
+  const startWorkout = async () => {
+    setStarting(true);
+    try {
+      const uid = userId ?? (await ensureUser());
+      if (!uid) return;
+      // Reload so the run follows the saved order_index, not optimistic local edits
+      const plan = await getPlanExercises(uid);
+      if (plan.length === 0) return;
+      startPlanRun(plan);
+      router.push("/workout/nfc");
+    } finally {
+      setStarting(false);
+    }
+  };
+
   return (
     <SafeAreaView style={[styles.safe, { backgroundColor: theme.background }]}>
       <RNView style={styles.header}>
         <Text style={[styles.title, { color: theme.text }]}>Plan Workout</Text>
         <Text style={[styles.subtitle, { color: theme.textSecondary }]}>
-          Add exercises and set your target sets and reps for each.
+          Add exercises and set your target sets, reps and rest for each.
         </Text>
       </RNView>
 
@@ -239,6 +302,58 @@ export default function Plan() {
                 </RNView>
               </RNView>
             </RNView>
+            <RNView style={styles.controlGroup}>
+              <Text style={[styles.controlLabel, { color: theme.textSecondary }]}>Weight</Text>
+              <RNView style={styles.stepper}>
+                <Pressable
+                  onPress={() => bumpWeight(ex.id, -1)}
+                  style={({ pressed }) => [
+                    styles.stepBtn,
+                    { borderColor: theme.border, opacity: pressed ? 0.7 : 1 },
+                  ]}
+                >
+                  <Text style={[styles.stepBtnText, { color: theme.text }]}>−</Text>
+                </Pressable>
+                <Text style={[styles.value, styles.weightValue, { color: theme.text }]}>
+                  {ex.weight_kg == null ? "Bodyweight" : formatWeight(ex.weight_kg, unit)}
+                </Text>
+                <Pressable
+                  onPress={() => bumpWeight(ex.id, 1)}
+                  style={({ pressed }) => [
+                    styles.stepBtn,
+                    { borderColor: theme.border, opacity: pressed ? 0.7 : 1 },
+                  ]}
+                >
+                  <Text style={[styles.stepBtnText, { color: theme.text }]}>+</Text>
+                </Pressable>
+              </RNView>
+            </RNView>
+            <RNView style={styles.controlGroup}>
+              <Text style={[styles.controlLabel, { color: theme.textSecondary }]}>Rest</Text>
+              <RNView style={styles.stepper}>
+                <Pressable
+                  onPress={() => bumpRest(ex.id, -1)}
+                  style={({ pressed }) => [
+                    styles.stepBtn,
+                    { borderColor: theme.border, opacity: pressed ? 0.7 : 1 },
+                  ]}
+                >
+                  <Text style={[styles.stepBtnText, { color: theme.text }]}>−</Text>
+                </Pressable>
+                <Text style={[styles.value, styles.weightValue, { color: theme.text }]}>
+                  {formatRestTarget(ex.rest_sec)}
+                </Text>
+                <Pressable
+                  onPress={() => bumpRest(ex.id, 1)}
+                  style={({ pressed }) => [
+                    styles.stepBtn,
+                    { borderColor: theme.border, opacity: pressed ? 0.7 : 1 },
+                  ]}
+                >
+                  <Text style={[styles.stepBtnText, { color: theme.text }]}>+</Text>
+                </Pressable>
+              </RNView>
+            </RNView>
           </View>
         ))}
 
@@ -259,6 +374,25 @@ export default function Plan() {
       </ScrollView>
       )}
 
+      {!loading && exercises.length > 0 && (
+        <RNView style={styles.bottom}>
+          <Pressable
+            onPress={startWorkout}
+            disabled={starting}
+            style={({ pressed }) => [
+              styles.startBtn,
+              { backgroundColor: theme.primary, opacity: pressed || starting ? 0.85 : 1 },
+            ]}
+          >
+            {starting ? (
+              <ActivityIndicator color={theme.background} />
+            ) : (
+              <Text style={[styles.startBtnText, { color: theme.background }]}>Start workout</Text>
+            )}
+          </Pressable>
+        </RNView>
+      )}
+
       <Modal
         visible={addModalVisible}
         transparent
@@ -390,6 +524,9 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: "800",
   },
+  weightValue: {
+    minWidth: 96,
+  },
   addBtn: {
     flexDirection: "row",
     alignItems: "center",
@@ -404,6 +541,21 @@ const styles = StyleSheet.create({
     fontSize: 15,
     fontWeight: "700",
   },
+  bottom: {
+    paddingHorizontal: 20,
+    paddingBottom: 24,
+  },
+  startBtn: {
+    width: "100%",
+    height: 52,
+    borderRadius: 14,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  startBtnText: {
+    fontSize: 16,
+    fontWeight: "700",
+  },
   modalOverlay: {
     flex: 1,
     backgroundColor: "rgba(0,0,0,0.5)",
@@ -0,0 +1,239 @@
+import { useCallback, useRef, useState } from "react";
+import { ActivityIndicator, Linking, Pressable, StyleSheet, View as RNView } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import FontAwesome from "@expo/vector-icons/FontAwesome";
+import { CameraView, useCameraPermissions, type BarcodeScanningResult } from "expo-camera";
+import { router } from "expo-router";
+
+import Colors from "@/constants/Colors";
+import { useColorScheme } from "@/components/useColorScheme";
+import { Text } from "@/components/Themed";
+import { useGym } from "@/contexts/GymContext";
+import { getGym } from "@/utils/machineRegistry";
+import { connectingParams, resolveMachineUri, type ScannedMachine } from "@/utils/machineScan";
+
+type ScanState = "scanning" | "resolving" | "warning" | "error";
+
+/** Camera fallback for devices without NFC; machines carry a QR code with the same movo:// URI as their tag. */
+export default function QrScreen() {
+  const colorScheme = useColorScheme() ?? "light";
+  const theme = Colors[colorScheme];
+  const [permission, requestPermission] = useCameraPermissions();
+  const { activeGymId, setCurrentGym } = useGym();
+
+  const [scanState, setScanState] = useState<ScanState>("scanning");
+  const [status, setStatus] = useState("Point the camera at the QR code on the machine");
+  const [unverified, setUnverified] = useState<ScannedMachine | null>(null);
+  // The camera reports the same code many times a second; handle one at a time, and each bad code once
+  const busyRef = useRef(false);
+  const lastRejectedRef = useRef<string | null>(null);
+
+  const connectTo = useCallback(
+    (scanned: ScannedMachine) => {
+      if (scanned.tagGymId && getGym(scanned.tagGymId)) setCurrentGym(scanned.tagGymId);
+      router.replace({ pathname: "/workout/connecting", params: connectingParams(scanned) });
+    },
+    [setCurrentGym]
+  );
+
+  const onBarcodeScanned = useCallback(
+    async ({ data }: BarcodeScanningResult) => {
+      if (busyRef.current || data === lastRejectedRef.current) return;
+      busyRef.current = true;
+      try {
+        if (!data.toLowerCase().includes("movo://")) {
+          lastRejectedRef.current = data;
+          setScanState("error");
+          setStatus("That isn't a machine code. Look for the QR code next to the NFC tag.");
+          return;
+        }
+
+        setScanState("resolving");
+        setStatus("Looking up machine…");
+        const resolved = await resolveMachineUri(data, activeGymId);
+        if (resolved.status === "error") {
+          lastRejectedRef.current = data;
+          setScanState("error");
+          setStatus(resolved.message);
+          return;
+        }
+        if (resolved.status === "unverified") {
+          setUnverified(resolved.machine);
+          setScanState("warning");
+          setStatus(resolved.message);
+          return;
+        }
+        // Leave busyRef set: the screen is going away and must not navigate twice
+        connectTo(resolved.machine);
+        return;
+      } catch {
+        setScanState("error");
+        setStatus("Couldn't look up that machine. Try again.");
+      }
+      busyRef.current = false;
+    },
+    [activeGymId, connectTo]
+  );
+
+  const scanAgain = useCallback(() => {
+    lastRejectedRef.current = null;
+    setUnverified(null);
+    setScanState("scanning");
+    setStatus("Point the camera at the QR code on the machine");
+  }, []);
+
+  if (!permission) {
+    return (
+      <SafeAreaView style={[styles.safe, styles.center, { backgroundColor: theme.background }]}>
+        <ActivityIndicator color={theme.accent} />
+      </SafeAreaView>
+    );
+  }
+
+  if (!permission.granted) {
+    return (
+      <SafeAreaView style={[styles.safe, styles.center, { backgroundColor: theme.background }]}>
+        <FontAwesome name="camera" size={40} color={theme.accent} />
+        <Text style={[styles.title, { color: theme.text }]}>Camera access</Text>
+        <Text style={[styles.subtitle, { color: theme.textSecondary }]}>
+          Movu uses the camera to read the QR code on the machine.
+        </Text>
+        <Pressable
+          onPress={() => (permission.canAskAgain ? requestPermission() : Linking.openSettings())}
+          style={({ pressed }) => [styles.primaryBtn, { backgroundColor: theme.primary, opacity: pressed ? 0.85 : 1 }]}
+        >
+          <Text style={[styles.primaryBtnText, { color: theme.background }]}>
+            {permission.canAskAgain ? "Allow camera" : "Open Settings"}
+          </Text>
+        </Pressable>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView edges={["bottom"]} style={[styles.safe, { backgroundColor: theme.background }]}>
+      <RNView style={styles.cameraWrap}>
+        <CameraView
+          style={StyleSheet.absoluteFill}
+          facing="back"
+          barcodeScannerSettings={{ barcodeTypes: ["qr"] }}
+          onBarcodeScanned={scanState === "warning" ? undefined : onBarcodeScanned}
+        />
+        <RNView
+          pointerEvents="none"
+          style={[
+            styles.frame,
+            {
+              borderColor:
+                scanState === "error" ? theme.danger : scanState === "warning" ? theme.warning : theme.primary,
+            },
+          ]}
+        />
+      </RNView>
+
+      <RNView style={styles.bottom}>
+        {scanState === "resolving" ? <ActivityIndicator color={theme.accent} /> : null}
+        <Text
+          style={[
+            styles.status,
+            {
+              color:
+                scanState === "error"
+                  ? theme.danger
+                  : scanState === "warning"
+                    ? theme.warning
+                    : theme.textSecondary,
+            },
+          ]}
+        >
+          {status}
+        </Text>
+
+        {unverified && scanState === "warning" ? (
+          <RNView style={styles.actions}>
+            <Pressable
+              onPress={() => connectTo(unverified)}
+              style={({ pressed }) => [styles.primaryBtn, { backgroundColor: theme.warning, opacity: pressed ? 0.85 : 1 }]}
+            >
+              <Text style={[styles.primaryBtnText, { color: theme.background }]}>
+                Connect to {unverified.displayName} anyway
+              </Text>
+            </Pressable>
+            <Pressable onPress={scanAgain} hitSlop={8}>
+              <Text style={[styles.link, { color: theme.accent }]}>Scan again</Text>
+            </Pressable>
+          </RNView>
+        ) : scanState === "error" ? (
+          <Pressable onPress={scanAgain} hitSlop={8}>
+            <Text style={[styles.link, { color: theme.accent }]}>Scan again</Text>
+          </Pressable>
+        ) : null}
+      </RNView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safe: { flex: 1 },
+  center: {
+    alignItems: "center",
+    justifyContent: "center",
+    paddingHorizontal: 24,
+    gap: 16,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: "800",
+    textAlign: "center",
+  },
+  subtitle: {
+    fontSize: 14,
+    textAlign: "center",
+    maxWidth: 320,
+    lineHeight: 20,
+  },
+  cameraWrap: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    overflow: "hidden",
+  },
+  frame: {
+    width: 240,
+    height: 240,
+    borderRadius: 24,
+    borderWidth: 3,
+  },
+  bottom: {
+    paddingHorizontal: 20,
+    paddingTop: 16,
+    paddingBottom: 24,
+    alignItems: "center",
+    gap: 12,
+  },
+  status: {
+    fontSize: 13,
+    textAlign: "center",
+  },
+  actions: {
+    width: "100%",
+    alignItems: "center",
+    gap: 12,
+  },
+  primaryBtn: {
+    width: "100%",
+    height: 52,
+    borderRadius: 14,
+    alignItems: "center",
+    justifyContent: "center",
+    paddingHorizontal: 16,
+  },
+  primaryBtnText: {
+    fontSize: 16,
+    fontWeight: "700",
+  },
+  link: {
+    fontSize: 15,
+    fontWeight: "700",
+  },
+});
@@ -1,25 +1,80 @@
 import { useEffect, useMemo, useRef, useState } from "react";
-import { ActivityIndicator, LayoutAnimation, Modal, Pressable, StyleSheet, UIManager, View as RNView, Platform } from "react-native";
+import { ActivityIndicator, LayoutAnimation, Modal, Pressable, StyleSheet, UIManager, Vibration, View as RNView, Platform } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { router, useLocalSearchParams } from "expo-router";
-import { BleManager, Device, State } from "react-native-ble-plx";
-import { decode as atob } from "base-64";
+import { setAudioModeAsync, useAudioPlayer } from "expo-audio";
 
 import Colors from "@/constants/Colors";
 import { Text } from "@/components/Themed";
 import { useColorScheme } from "@/components/useColorScheme";
 import SlideToConfirm from "@/components/SlideToConfirm";
-import { saveWorkout } from "@/utils/workoutStorage";
-import { supabase } from "@/lib/supabase";
+import { correctSet, type RepCountedBy, type WorkoutExercise, type WorkoutRep } from "@/utils/workoutStorage";
 import { useBleConnection } from "@/contexts/BleConnectionContext";
-import { useBleConnectToSensor } from "@/hooks/useBleConnectToSensor";
+import { usePlanRun } from "@/contexts/PlanRunContext";
+import { useWorkoutDraft } from "@/contexts/WorkoutDraftContext";
+import { useWeightUnit } from "@/contexts/WeightUnitContext";
+import { useAutoReconnect } from "@/hooks/useAutoReconnect";
+import { useSensorSession } from "@/hooks/useSensorSession";
+import type { SensorSessionEvent } from "@/utils/sensorSession";
+import { createTelemetryBuffer, type RepMetrics } from "@/utils/repTelemetry";
+import { createRepDetector } from "@/utils/repDetector";
+import { getRepDetectionForMachine, type RepCountSource } from "@/utils/nfcSensorMap";
+import { bumpWeightKg, formatWeight } from "@/utils/weightUnits";
+import {
+  formatRestTarget,
+  getAutoStartNextSet,
+  getRestEndSound,
+  MAX_REST_SEC,
+  MIN_REST_BEFORE_AUTO_START_SEC,
+} from "@/utils/restTimer";
+import {
+  recordDiagnosticsEvent,
+  recordRssi,
+  recordSensorEvent,
+  resetDiagnostics,
+  updateDiagnosticsInfo,
+} from "@/utils/sensorDiagnostics";
+import { readSensorInfo } from "@/utils/sensorInfo";
+import type { SensorPeripheral, SensorTransport } from "@/utils/sensorTransport";
+import { recordSessionFrame, startSessionRecording, updateSessionRecordingSensor } from "@/utils/sessionRecorder";
 
-const SERVICE_UUID = "6E400001-B5A3-F393-E0A9-E50E24DCCA9E";
-const CHAR_UUID = "6E400003-B5A3-F393-E0A9-E50E24DCCA9E";
-const LIVE_CHAR_UUID = "6E400004-B5A3-F393-E0A9-E50E24DCCA9E";
-const SERVICE_UUID_LC = SERVICE_UUID.toLowerCase();
-const CHAR_UUID_LC = CHAR_UUID.toLowerCase();
-const LIVE_CHAR_UUID_LC = LIVE_CHAR_UUID.toLowerCase();
+// How often the connected sensor's signal strength is sampled for diagnostics
+const RSSI_POLL_MS = 2000;
+
+const REP_SOURCE_LABELS: Record<RepCountSource, string> = {
+  sensor: "Sensor",
+  imu: "Motion",
+  both: "Sensor + Motion",
+};
+const REP_SOURCE_ORDER: RepCountSource[] = ["sensor", "imu", "both"];
+// Buzz pattern when the rest target is reached (wait, buzz, pause, buzz)
+const REST_END_VIBRATION = [0, 400, 200, 400];
+const REST_END_SOUND = require("../../assets/sounds/rest-end.wav");
+
+function WeightStepper({ label, weightKg, onBump }: { label: string; weightKg: number | null; onBump: (delta: number) => void }) {
+  const colorScheme = useColorScheme() ?? "light";
+  const theme = Colors[colorScheme];
+  const { unit } = useWeightUnit();
+
+  return (
+    <RNView style={styles.weightRow}>
+      <Text style={[styles.weightLabel, { color: theme.textSecondary }]}>{label}</Text>
+      <Pressable
+        onPress={() => onBump(-1)}
+        style={({ pressed }) => [styles.weightStepBtn, { borderColor: theme.border, opacity: pressed ? 0.7 : 1 }]}
+      >
+        <Text style={[styles.weightStepText, { color: theme.text }]}>−</Text>
+      </Pressable>
+      <Text style={[styles.weightValue, { color: theme.text }]}>{formatWeight(weightKg, unit)}</Text>
+      <Pressable
+        onPress={() => onBump(1)}
+        style={({ pressed }) => [styles.weightStepBtn, { borderColor: theme.border, opacity: pressed ? 0.7 : 1 }]}
+      >
+        <Text style={[styles.weightStepText, { color: theme.text }]}>+</Text>
+      </Pressable>
+    </RNView>
+  );
+}
 
 export default function Session() {
   const colorScheme = useColorScheme() ?? "light";
@@ -27,7 +82,10 @@ export default function Session() {
   const params = useLocalSearchParams<{
     sets?: string;
     reps?: string;
+    weightKg?: string;
+    restSec?: string;
     machine?: string;
+    machineId?: string;
     sensorName?: string;
     sensorMac?: string;
   }>();
@@ -45,15 +103,43 @@ export default function Session() {
     return isNaN(parsed) || parsed < 1 ? 10 : Math.min(50, parsed);
   }, [params.reps]);
 
+  const initialWeightKg = useMemo(() => {
+    const parsed = params.weightKg ? parseFloat(params.weightKg) : NaN;
+    return isNaN(parsed) || parsed <= 0 ? null : parsed;
+  }, [params.weightKg]);
+
+  // Target rest between sets; 0 counts up with no target
+  const restTargetSec = useMemo(() => {
+    const parsed = params.restSec ? parseInt(params.restSec, 10) : 0;
+    return isNaN(parsed) || parsed < 0 ? 0 : Math.min(MAX_REST_SEC, parsed);
+  }, [params.restSec]);
+
   const machineName = params.machine || "Machine";
+  const repDetection = useMemo(
+    () => getRepDetectionForMachine(params.machineId || machineName),
+    [params.machineId, machineName]
+  );
   const { device: preConnectedDevice, manager: preConnectedManager, clearPreConnected } = useBleConnection();
+  const {
+    isRunning: isPlanRun,
+    currentExercise: planExercise,
+    currentIndex: planIndex,
+    exercises: planExercises,
+    startedAt: planStartedAt,
+  } = usePlanRun();
+  const { setDraft } = useWorkoutDraft();
+  // Position in the plan when this session opened; the context moves on as soon as the exercise is recorded
+  const [planPosition] = useState(planIndex);
   const {
     device: retryDevice,
-    status: retryStatus,
-    error: retryError,
-    connect: retryConnect,
     manager: retryManager,
-  } = useBleConnectToSensor(targetSensorName, targetSensorMac);
+    phase: reconnectPhase,
+    attempt: reconnectAttempt,
+    maxAttempts: reconnectMaxAttempts,
+    error: retryError,
+    start: startReconnect,
+    retryNow: retryReconnectNow,
+  } = useAutoReconnect(targetSensorName, targetSensorMac);
 
   // Enable LayoutAnimation on Android
   if (Platform.OS === 'android' && UIManager.setLayoutAnimationEnabledExperimental) {
@@ -65,54 +151,47 @@ export default function Session() {
   const [currentSetIndex, setCurrentSetIndex] = useState(0);
   const [setRepsCompleted, setSetRepsCompleted] = useState<number[]>(Array(sets).fill(0));
   const [setRestTimes, setSetRestTimes] = useState<number[]>(Array(sets).fill(0));
+  const [setWeightsKg, setSetWeightsKg] = useState<(number | null)[]>(Array(sets).fill(initialWeightKg));
+  const { unit } = useWeightUnit();
   const [showRestDrawer, setShowRestDrawer] = useState(false);
   const [restTimer, setRestTimer] = useState(0);
-  const [userId, setUserId] = useState<string | null>(null);
-  const [sensorStatus, setSensorStatus] = useState<"idle" | "need_scan" | "scanning" | "connecting" | "connected" | "error">("idle");
-  const [sensorReps, setSensorReps] = useState(0);
-  const [bleLastText, setBleLastText] = useState<string | null>(null);
-  const [bleNotifyCount, setBleNotifyCount] = useState(0);
-  const [bleLastAtMs, setBleLastAtMs] = useState<number | null>(null);
-  const [bleLastError, setBleLastError] = useState<string | null>(null);
-  const [bleLiveLastText, setBleLiveLastText] = useState<string | null>(null);
-  const [bleLiveCount, setBleLiveCount] = useState(0);
-  const [bleLiveLastAtMs, setBleLiveLastAtMs] = useState<number | null>(null);
+  // Device the sensor session runs on: the pre-connected one from the NFC flow, or a retry connection
+  const [device, setDevice] = useState<SensorPeripheral | null>(preConnectedDevice);
   const restTimerIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const restStartTimeRef = useRef<number>(Date.now());
+  const restAlertedRef = useRef(false);
   const sessionStartTimeRef = useRef<number>(Date.now());
+  const savedRef = useRef(false);
   
   // BLE Manager and device refs
-  const bleManagerRef = useRef<BleManager | null>(null);
-  const deviceRef = useRef<Device | null>(null);
-  const stateSubscriptionRef = useRef<any>(null);
-  const scanSubscriptionRef = useRef<any>(null);
-  const characteristicSubscriptionRef = useRef<any>(null);
-  const lastSensorRepRef = useRef<number>(0);
+  const bleManagerRef = useRef<SensorTransport | null>(preConnectedManager);
+  const deviceRef = useRef<SensorPeripheral | null>(preConnectedDevice);
   const currentRepsRef = useRef<number>(0);
   const showRestDrawerRef = useRef<boolean>(false);
-  const connectInFlightRef = useRef(false);
-  const scanTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const readPollIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
-  const hadDeviceRef = useRef(false);
-
-  // Get current user ID
-  useEffect(() => {
-    let cancelled = false;
-    (async () => {
-      try {
-        if (!supabase) return;
-        const { data } = await supabase.auth.getUser();
-        if (!cancelled && data.user?.id) {
-          setUserId(data.user.id);
-        }
-      } catch {
-        // ignore
-      }
-    })();
-    return () => {
-      cancelled = true;
-    };
-  }, []);
+  const hadDeviceRef = useRef(!!preConnectedDevice);
+  const telemetryRef = useRef(createTelemetryBuffer());
+  const setTelemetryRef = useRef<RepMetrics[][]>([]);
+  const setRepLogRef = useRef<WorkoutRep[][]>([]);
+  // Reps taken back per set with -1 / Undo, flagged on the saved set
+  const setUndoneRepsRef = useRef<number[]>([]);
+  // The most recent count (one tap, or a batch from the sensor), so Undo takes back exactly that
+  const [lastAdded, setLastAdded] = useState<{ setIndex: number; count: number } | null>(null);
+  const [repSource, setRepSource] = useState<RepCountSource>(repDetection.source);
+  const repSourceRef = useRef(repSource);
+  repSourceRef.current = repSource;
+  // Start the next set as soon as the stack moves during rest (Settings → Auto-start Next Set)
+  const [autoStart, setAutoStart] = useState(false);
+  const autoStartRef = useRef(autoStart);
+  autoStartRef.current = autoStart;
+  const restEndSoundRef = useRef(true);
+  const restEndPlayer = useAudioPlayer(REST_END_SOUND);
+  const detectorRef = useRef(createRepDetector(repDetection.detector));
+  // Per-set rep counts from each source, and how many of them have been credited to the set
+  const sensorSetRepsRef = useRef(0);
+  const detectorSetRepsRef = useRef(0);
+  const creditedAutoRepsRef = useRef(0);
+  // Sensor counter value already turned into reps, carried into the session after a reconnect
+  const lastSensorRepsRef = useRef<number | null>(null);
 
   const currentReps = setRepsCompleted[currentSetIndex] || 0;
   const isSetComplete = currentReps >= reps;
@@ -123,336 +202,155 @@ export default function Session() {
   currentRepsRef.current = currentReps;
   showRestDrawerRef.current = showRestDrawer;
 
-  // BLE Sensor connection and monitoring
+  // The pre-connected device has been adopted into local state; release it from the context
   useEffect(() => {
-    if (__DEV__) {
-      console.log("[BLE] Effect running, showRestDrawer:", showRestDrawer, "isAllSetsComplete:", isAllSetsComplete);
-    }
+    if (preConnectedDevice) clearPreConnected();
+  }, [preConnectedDevice, clearPreConnected]);
 
-    if (showRestDrawer || isAllSetsComplete) {
-      // Clean up any active connections when pausing
-      connectInFlightRef.current = false;
-      if (scanTimeoutRef.current) {
-        clearTimeout(scanTimeoutRef.current);
-        scanTimeoutRef.current = null;
-      }
-      if (readPollIntervalRef.current) {
-        clearInterval(readPollIntervalRef.current);
-        readPollIntervalRef.current = null;
-      }
-      if (deviceRef.current) {
-        if (__DEV__) {
-          console.log("[BLE] Pausing - disconnecting device");
-        }
-        deviceRef.current.cancelConnection().catch(() => {});
-        deviceRef.current = null;
-      }
-      if (bleManagerRef.current) {
-        bleManagerRef.current.stopDeviceScan().catch(() => {});
-      }
-      setSensorStatus("idle");
-      return; // Don't scan during rest or when complete
-    }
-
-    // Use pre-connected device from NFC flow (connecting screen)
-    if (preConnectedDevice && preConnectedManager) {
-      hadDeviceRef.current = true;
-      clearPreConnected();
-      bleManagerRef.current = preConnectedManager;
-      deviceRef.current = preConnectedDevice;
-      setBleLastError(null);
-      setSensorStatus("connected");
-      let setupCancelled = false;
-      (async () => {
-        try {
-          const services = await preConnectedDevice.services();
-          const targetService =
-            services.find((s) => s.uuid.toLowerCase() === SERVICE_UUID_LC) ?? null;
-          const targetServiceUuid = targetService?.uuid ?? SERVICE_UUID;
-          let repsCharUuid = CHAR_UUID;
-          let liveCharUuid: string | null = null;
-          if (targetService) {
-            const chars = await targetService.characteristics();
-            const repsChar = chars.find((c) => c.uuid.toLowerCase() === CHAR_UUID_LC) ?? null;
-            const liveChar = chars.find((c) => c.uuid.toLowerCase() === LIVE_CHAR_UUID_LC) ?? null;
-            if (repsChar?.uuid) repsCharUuid = repsChar.uuid;
-            if (liveChar?.uuid) liveCharUuid = liveChar.uuid;
-          }
-          if (setupCancelled) return;
-          characteristicSubscriptionRef.current = preConnectedDevice.monitorCharacteristicForService(
-            targetServiceUuid,
-            repsCharUuid,
-            (err, characteristic) => {
-              if (setupCancelled) return;
-              if (err) {
-                setBleLastError(typeof (err as any)?.message === "string" ? (err as any).message : "Characteristic error");
-                if (!setupCancelled) {
-                  setSensorStatus("idle");
-                  preConnectedDevice.cancelConnection().catch(() => {});
-                  deviceRef.current = null;
-                }
-                return;
-              }
-              if (!characteristic?.value) return;
-              try {
-                const text = atob(characteristic.value);
-                setBleLastText(text);
-                setBleNotifyCount((c) => c + 1);
-                setBleLastAtMs(Date.now());
-                let newReps: number | null = null;
-                const matchReps = text.match(/REPS[:\s]*(\d+)/i);
-                if (matchReps) {
-                  newReps = parseInt(matchReps[1], 10);
-                } else {
-                  const matchNumber = text.match(/(\d+)/);
-                  if (matchNumber) newReps = parseInt(matchNumber[1], 10);
-                }
-                if (newReps !== null && !isNaN(newReps)) {
-                  setSensorReps(newReps);
-                  const currentRepsNow = currentRepsRef.current;
-                  const inRestPeriod = showRestDrawerRef.current;
-                  const sensorRepDelta = newReps - lastSensorRepRef.current;
-                  if (sensorRepDelta > 0 && currentRepsNow < reps && !inRestPeriod) {
-                    const repsToAdd = Math.min(sensorRepDelta, reps - currentRepsNow);
-                    for (let i = 0; i < repsToAdd; i++) incrementRep();
-                    lastSensorRepRef.current = newReps;
-                  } else if (newReps > 0 && lastSensorRepRef.current === 0 && currentRepsNow < reps && !inRestPeriod) {
-                    incrementRep();
-                    lastSensorRepRef.current = newReps;
-                  }
-                }
-              } catch {
-                setBleLastError("Parse error decoding BLE value");
-              }
-            }
-          );
-          if (liveCharUuid) {
-            preConnectedDevice.monitorCharacteristicForService(
-              targetServiceUuid,
-              liveCharUuid,
-              (err, characteristic) => {
-                if (setupCancelled || err || !characteristic?.value) return;
-                try {
-                  const text = atob(characteristic.value);
-                  setBleLiveLastText(text);
-                  setBleLiveCount((c) => c + 1);
-                  setBleLiveLastAtMs(Date.now());
-                } catch {}
-              }
-            );
-          }
-          try {
-            const initial = await preConnectedDevice.readCharacteristicForService(targetServiceUuid, repsCharUuid);
-            if (initial?.value) {
-              setBleLastText(atob(initial.value));
-              setBleLastAtMs(Date.now());
-            }
-          } catch {}
-          readPollIntervalRef.current = setInterval(async () => {
-            try {
-              if (setupCancelled || !deviceRef.current) return;
-              const c = await preConnectedDevice.readCharacteristicForService(targetServiceUuid, repsCharUuid);
-              if (!c?.value) return;
-              const t = atob(c.value);
-              setBleLastText(t);
-              setBleLastAtMs(Date.now());
-              const matchReps = t.match(/REPS[:\s]*(\d+)/i);
-              const matchNumber = t.match(/(\d+)/);
-              const parsed =
-                matchReps?.[1] ? parseInt(matchReps[1], 10) : matchNumber?.[1] ? parseInt(matchNumber[1], 10) : NaN;
-              if (!Number.isFinite(parsed)) return;
-              setSensorReps(parsed);
-              const currentRepsNow = currentRepsRef.current;
-              const inRestPeriod = showRestDrawerRef.current;
-              const delta = parsed - lastSensorRepRef.current;
-              if (delta > 0 && currentRepsNow < reps && !inRestPeriod) {
-                const repsToAdd = Math.min(delta, reps - currentRepsNow);
-                for (let i = 0; i < repsToAdd; i++) incrementRep();
-                lastSensorRepRef.current = parsed;
-              } else if (parsed > 0 && lastSensorRepRef.current === 0 && currentRepsNow < reps && !inRestPeriod) {
-                incrementRep();
-                lastSensorRepRef.current = parsed;
-              }
-            } catch {}
-          }, 750);
-        } catch (e: any) {
-          setSensorStatus("idle");
-          setBleLastError(e?.message ?? "Setup failed");
-          preConnectedDevice.cancelConnection().catch(() => {});
-          deviceRef.current = null;
-        }
-      })();
-      return () => {
-        setupCancelled = true;
-        if (readPollIntervalRef.current) {
-          clearInterval(readPollIntervalRef.current);
-          readPollIntervalRef.current = null;
-        }
-        try {
-          characteristicSubscriptionRef.current?.remove?.();
-        } catch {}
-        characteristicSubscriptionRef.current = null;
-        if (deviceRef.current) {
-          deviceRef.current.cancelConnection().catch(() => {});
-          deviceRef.current = null;
-        }
-      };
-    }
-
-    // No pre-connected device: require NFC scan or show retry if we had one and lost it
-    setSensorStatus(hadDeviceRef.current ? "error" : "need_scan");
-    return;
-  }, [
-    showRestDrawer,
-    isAllSetsComplete,
-    preConnectedDevice,
-    preConnectedManager,
-    clearPreConnected,
-    reps,
-  ]);
-
-  // Retry flow: when sensorStatus is "error" and retry succeeds (retryDevice set), set up monitoring
+  // Auto-reconnect: a successful reconnect replaces the lost device
   useEffect(() => {
-    if (sensorStatus !== "error") return;
     if (!retryDevice || !retryManager) return;
     hadDeviceRef.current = true;
     deviceRef.current = retryDevice;
     bleManagerRef.current = retryManager;
-    setBleLastError(null);
-    setSensorStatus("connected");
-    let setupCancelled = false;
-    (async () => {
-      try {
-        const services = await retryDevice.services();
-        const targetService =
-          services.find((s) => s.uuid.toLowerCase() === SERVICE_UUID_LC) ?? null;
-        const targetServiceUuid = targetService?.uuid ?? SERVICE_UUID;
-        let repsCharUuid = CHAR_UUID;
-        let liveCharUuid: string | null = null;
-        if (targetService) {
-          const chars = await targetService.characteristics();
-          const repsChar = chars.find((c) => c.uuid.toLowerCase() === CHAR_UUID_LC) ?? null;
-          const liveChar = chars.find((c) => c.uuid.toLowerCase() === LIVE_CHAR_UUID_LC) ?? null;
-          if (repsChar?.uuid) repsCharUuid = repsChar.uuid;
-          if (liveChar?.uuid) liveCharUuid = liveChar.uuid;
-        }
-        if (setupCancelled) return;
-        characteristicSubscriptionRef.current = retryDevice.monitorCharacteristicForService(
-          targetServiceUuid,
-          repsCharUuid,
-          (err, characteristic) => {
-            if (setupCancelled) return;
-            if (err) {
-              setBleLastError(typeof (err as any)?.message === "string" ? (err as any).message : "Characteristic error");
-              setSensorStatus("error");
-              retryDevice.cancelConnection().catch(() => {});
-              deviceRef.current = null;
-              return;
-            }
-            if (!characteristic?.value) return;
-            try {
-              const text = atob(characteristic.value);
-              setBleLastText(text);
-              setBleNotifyCount((c) => c + 1);
-              setBleLastAtMs(Date.now());
-              let newReps: number | null = null;
-              const matchReps = text.match(/REPS[:\s]*(\d+)/i);
-              if (matchReps) newReps = parseInt(matchReps[1], 10);
-              else {
-                const matchNumber = text.match(/(\d+)/);
-                if (matchNumber) newReps = parseInt(matchNumber[1], 10);
-              }
-              if (newReps !== null && !isNaN(newReps)) {
-                setSensorReps(newReps);
-                const currentRepsNow = currentRepsRef.current;
-                const inRestPeriod = showRestDrawerRef.current;
-                const sensorRepDelta = newReps - lastSensorRepRef.current;
-                if (sensorRepDelta > 0 && currentRepsNow < reps && !inRestPeriod) {
-                  const repsToAdd = Math.min(sensorRepDelta, reps - currentRepsNow);
-                  for (let i = 0; i < repsToAdd; i++) incrementRep();
-                  lastSensorRepRef.current = newReps;
-                } else if (newReps > 0 && lastSensorRepRef.current === 0 && currentRepsNow < reps && !inRestPeriod) {
-                  incrementRep();
-                  lastSensorRepRef.current = newReps;
-                }
-              }
-            } catch {
-              setBleLastError("Parse error decoding BLE value");
-            }
+    setDevice(retryDevice);
+  }, [retryDevice, retryManager]);
+
+  // Diagnostics: a fresh log and recording per workout; device info and RSSI for whichever device is connected
+  useEffect(() => {
+    resetDiagnostics();
+    startSessionRecording(params.machine ?? null);
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    getAutoStartNextSet().then((enabled) => {
+      if (!cancelled) setAutoStart(enabled);
+    });
+    getRestEndSound().then((enabled) => {
+      if (cancelled) return;
+      restEndSoundRef.current = enabled;
+      // Vibration alone is easy to miss with the phone in a pocket, and iOS mutes the tone on silent otherwise
+      if (enabled) setAudioModeAsync({ playsInSilentMode: true, interruptionMode: "duckOthers" }).catch(() => {});
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!device) return;
+    let cancelled = false;
+    recordDiagnosticsEvent(`Connected to ${device.name || device.localName || "sensor"} (${device.id})`);
+    updateDiagnosticsInfo({ deviceId: device.id, deviceName: device.name || device.localName, mtu: device.mtu });
+    updateSessionRecordingSensor({ id: device.id, name: device.name || device.localName });
+    readSensorInfo(device).then((sensorInfo) => {
+      if (cancelled) return;
+      updateDiagnosticsInfo(sensorInfo);
+      updateSessionRecordingSensor({ firmwareRevision: sensorInfo.firmwareRevision });
+    });
+    const rssiInterval = setInterval(() => {
+      device
+        .readRSSI()
+        .then((d) => {
+          if (!cancelled && d.rssi != null) recordRssi(d.rssi);
+        })
+        .catch(() => {});
+    }, RSSI_POLL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(rssiInterval);
+    };
+  }, [device]);
+
+  useEffect(() => {
+    if (reconnectPhase === "connecting") recordDiagnosticsEvent(`Reconnect attempt ${reconnectAttempt}`);
+    else if (reconnectPhase === "exhausted") recordDiagnosticsEvent("Gave up reconnecting");
+  }, [reconnectPhase, reconnectAttempt]);
+
+  // Credit whatever the selected source(s) counted beyond what the set already got from them
+  const creditAutoReps = (atMs: number) => {
+    const source = repSourceRef.current;
+    const target =
+      source === "sensor"
+        ? sensorSetRepsRef.current
+        : source === "imu"
+          ? detectorSetRepsRef.current
+          : Math.max(sensorSetRepsRef.current, detectorSetRepsRef.current);
+    const pending = target - creditedAutoRepsRef.current;
+    if (pending <= 0) return;
+    creditedAutoRepsRef.current = target;
+    const currentRepsNow = currentRepsRef.current;
+    if (currentRepsNow >= reps) return;
+    addReps(Math.min(pending, reps - currentRepsNow), "sensor", atMs);
+  };
+
+  const handleSensorEvent = (event: SensorSessionEvent) => {
+    recordSensorEvent(event);
+    recordSessionFrame(event);
+    if (event.type === "live") {
+      if (showRestDrawerRef.current) {
+        // Auto-start: a lift after the minimum rest begins the next set with that rep under way
+        if (autoStartRef.current) {
+          detectorRef.current.push({ atMs: event.atMs, sample: event.frame.sample });
+          const restedSec = (Date.now() - restStartTimeRef.current) / 1000;
+          if (detectorRef.current.isMoving() && restedSec >= MIN_REST_BEFORE_AUTO_START_SEC) {
+            continueToNextSet(true);
           }
-        );
-        if (liveCharUuid) {
-          retryDevice.monitorCharacteristicForService(
-            targetServiceUuid,
-            liveCharUuid,
-            (err, characteristic) => {
-              if (setupCancelled || err || !characteristic?.value) return;
-              try {
-                const text = atob(characteristic.value);
-                setBleLiveLastText(text);
-                setBleLiveCount((c) => c + 1);
-                setBleLiveLastAtMs(Date.now());
-              } catch {}
-            }
-          );
         }
-        try {
-          const initial = await retryDevice.readCharacteristicForService(targetServiceUuid, repsCharUuid);
-          if (initial?.value) {
-            setBleLastText(atob(initial.value));
-            setBleLastAtMs(Date.now());
-          }
-        } catch {}
-        readPollIntervalRef.current = setInterval(async () => {
-          try {
-            if (setupCancelled || !deviceRef.current) return;
-            const c = await retryDevice.readCharacteristicForService(targetServiceUuid, repsCharUuid);
-            if (!c?.value) return;
-            const t = atob(c.value);
-            setBleLastText(t);
-            setBleLastAtMs(Date.now());
-            const matchReps = t.match(/REPS[:\s]*(\d+)/i);
-            const matchNumber = t.match(/(\d+)/);
-            const parsed =
-              matchReps?.[1] ? parseInt(matchReps[1], 10) : matchNumber?.[1] ? parseInt(matchNumber[1], 10) : NaN;
-            if (!Number.isFinite(parsed)) return;
-            setSensorReps(parsed);
-            const currentRepsNow = currentRepsRef.current;
-            const inRestPeriod = showRestDrawerRef.current;
-            const delta = parsed - lastSensorRepRef.current;
-            if (delta > 0 && currentRepsNow < reps && !inRestPeriod) {
-              const repsToAdd = Math.min(delta, reps - currentRepsNow);
-              for (let i = 0; i < repsToAdd; i++) incrementRep();
-              lastSensorRepRef.current = parsed;
-            } else if (parsed > 0 && lastSensorRepRef.current === 0 && currentRepsNow < reps && !inRestPeriod) {
-              incrementRep();
-              lastSensorRepRef.current = parsed;
-            }
-          } catch {}
-        }, 750);
-      } catch (e: any) {
-        setSensorStatus("error");
-        setBleLastError(e?.message ?? "Setup failed");
-        retryDevice.cancelConnection().catch(() => {});
-        deviceRef.current = null;
+        return;
       }
-    })();
-    return () => {
-      setupCancelled = true;
-      if (readPollIntervalRef.current) {
-        clearInterval(readPollIntervalRef.current);
-        readPollIntervalRef.current = null;
+      const timed = { atMs: event.atMs, sample: event.frame.sample };
+      telemetryRef.current.addSample(timed);
+      if (detectorRef.current.push(timed)) {
+        detectorSetRepsRef.current += 1;
+        creditAutoReps(event.atMs);
       }
-      try {
-        characteristicSubscriptionRef.current?.remove?.();
-      } catch {}
-      characteristicSubscriptionRef.current = null;
-    };
-  }, [sensorStatus, retryDevice, retryManager, reps]);
+      return;
+    }
+    if (event.type === "reps-frame") {
+      lastSensorRepsRef.current = event.frame.repIndex;
+      return;
+    }
+    if (event.type === "rep") {
+      if (showRestDrawerRef.current) return;
+      sensorSetRepsRef.current += event.delta;
+      creditAutoReps(event.atMs);
+      return;
+    }
+    if (event.type === "error" && event.fatal) {
+      // Keep the workout on screen and get the same sensor back in the background
+      const lostDeviceId = deviceRef.current?.id ?? null;
+      deviceRef.current?.cancelConnection().catch(() => {});
+      deviceRef.current = null;
+      // A rep half-seen before the drop must not be completed by samples after it
+      detectorRef.current.reset();
+      setDevice(null);
+      startReconnect(lostDeviceId);
+    }
+  };
 
-  // Cleanup BLE manager on unmount - MOVED UP (old fallback scan removed)
+  const sensor = useSensorSession(isAllSetsComplete ? null : device, handleSensorEvent, {
+    resumeFromSensorReps: lastSensorRepsRef.current,
+  });
+
+  const sensorStatus: "need_scan" | "idle" | "connected" | "reconnecting" | "manual" = !device
+    ? !hadDeviceRef.current
+      ? "need_scan"
+      : reconnectPhase === "exhausted"
+        ? "manual"
+        : "reconnecting"
+    : showRestDrawer || isAllSetsComplete
+      ? "idle"
+      : "connected";
+
+  // Cleanup BLE manager on unmount
   useEffect(() => {
     return () => {
+      if (deviceRef.current) {
+        deviceRef.current.cancelConnection().catch(() => {});
+        deviceRef.current = null;
+      }
       if (bleManagerRef.current) {
         try {
           bleManagerRef.current.stopDeviceScan().catch(() => {});
@@ -462,10 +360,6 @@ export default function Session() {
         }
         bleManagerRef.current = null;
       }
-      if (deviceRef.current) {
-        deviceRef.current.cancelConnection().catch(() => {});
-        deviceRef.current = null;
-      }
     };
   }, []);
 
@@ -476,38 +370,77 @@ export default function Session() {
     return `${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
   };
 
-  // Navigate to history when all sets are complete
+  // The exercise as done so far: every set when complete, the sets started when ended early
+  const handOverToSummary = (setCount: number) => {
+    const exercise: WorkoutExercise = {
+      machineName,
+      planExerciseId: planExercise?.id,
+      targetSets: sets,
+      targetReps: reps,
+      sets: setRepsCompleted.slice(0, setCount).map((achievedReps, i) =>
+        correctSet(
+          {
+            targetReps: reps,
+            achievedReps,
+            reps: setRepLogRef.current[i] ?? [],
+            // setRestTimes[i] is the rest taken after set i
+            restBeforeSec: i === 0 ? 0 : setRestTimes[i - 1] ?? 0,
+            restTargetSec: i > 0 && restTargetSec > 0 ? restTargetSec : undefined,
+            weightKg: setWeightsKg[i] ?? undefined,
+            // A set ended early hasn't been closed yet
+            telemetry:
+              i === currentSetIndex && currentRepsRef.current < reps
+                ? telemetryRef.current.finishSet()
+                : setTelemetryRef.current[i] ?? [],
+          },
+          { undoneReps: setUndoneRepsRef.current[i] ?? 0 }
+        )
+      ),
+    };
+    setDraft({ exercise, startedAt: sessionStartTimeRef.current, endedAt: Date.now() });
+  };
+
+  // When all sets are complete, show the summary; it saves after any corrections
   useEffect(() => {
-    if (isAllSetsComplete && userId) {
-      // Save workout data
-      const duration = Math.floor((Date.now() - sessionStartTimeRef.current) / 1000);
-      saveWorkout(
-        {
-          machineName,
-          sets,
-          reps,
-          setRepsCompleted: [...setRepsCompleted],
-          setRestTimes: [...setRestTimes],
-          duration,
-        },
-        userId
-      ).then(() => {
-        // Small delay to show completion state
-        setTimeout(() => {
-          router.replace("/(tabs)/two");
-        }, 500);
-      });
-    }
-  }, [isAllSetsComplete, machineName, sets, reps, userId, setRepsCompleted, setRestTimes]);
+    if (!isAllSetsComplete || savedRef.current) return;
+    savedRef.current = true;
+    handOverToSummary(sets);
+    // Small delay to show completion state
+    setTimeout(() => {
+      router.replace("/workout/summary");
+    }, 500);
+  }, [isAllSetsComplete]);
+
+  const endSessionEarly = () => {
+    if (savedRef.current) return;
+    savedRef.current = true;
+    // The current set counts if it was started
+    handOverToSummary(currentReps > 0 ? currentSetIndex + 1 : currentSetIndex);
+    router.replace("/workout/summary");
+  };
 
   // Start/stop rest timer
   useEffect(() => {
     if (showRestDrawer) {
       restStartTimeRef.current = Date.now();
+      restAlertedRef.current = false;
       setRestTimer(0);
+      // Fresh baseline for auto-start, so the tail of the last rep doesn't read as a new lift
+      detectorRef.current.reset();
       restTimerIntervalRef.current = setInterval(() => {
         const elapsed = Math.floor((Date.now() - restStartTimeRef.current) / 1000);
         setRestTimer(elapsed);
+        if (restTargetSec > 0 && elapsed >= restTargetSec && !restAlertedRef.current) {
+          restAlertedRef.current = true;
+          Vibration.vibrate(REST_END_VIBRATION);
+          if (restEndSoundRef.current) {
+            // Back to the start, since the player stays at the end after the last rest
+            restEndPlayer
+              .seekTo(0)
+              .then(() => restEndPlayer.play())
+              .catch(() => {});
+          }
+        }
       }, 1000);
     } else {
       if (restTimerIntervalRef.current) {
@@ -523,8 +456,8 @@ export default function Session() {
     };
   }, [showRestDrawer]);
 
-  const incrementRep = () => {
-    if (isAllSetsComplete) return;
+  const addReps = (count: number, countedBy: RepCountedBy, atMs = Date.now()) => {
+    if (isAllSetsComplete || count <= 0) return;
 
     // Configure smooth animation
     LayoutAnimation.configureNext({
@@ -541,34 +474,91 @@ export default function Session() {
 
     setSetRepsCompleted((prev) => {
       const next = [...prev];
-      if (next[currentSetIndex] < reps) {
-        next[currentSetIndex] = next[currentSetIndex] + 1;
-      }
+      next[currentSetIndex] = Math.min(reps, next[currentSetIndex] + count);
       return next;
     });
+    // Keep the ref ahead of the next render so back-to-back sensor events don't overshoot
+    const added = Math.min(count, reps - currentRepsRef.current);
+    currentRepsRef.current += added;
+    telemetryRef.current.markReps(added, atMs);
+    const repLog = (setRepLogRef.current[currentSetIndex] ??= []);
+    for (let i = 0; i < added; i++) repLog.push({ at: atMs, countedBy });
+    if (added > 0) setLastAdded({ setIndex: currentSetIndex, count: added });
+    if (currentRepsRef.current >= reps) {
+      setTelemetryRef.current[currentSetIndex] = telemetryRef.current.finishSet();
+    }
 
     // Show rest drawer if set is complete and not last set
-    if (currentReps + 1 >= reps && currentSetIndex < sets - 1) {
+    if (currentRepsRef.current >= reps && currentSetIndex < sets - 1) {
+      showRestDrawerRef.current = true;
       setShowRestDrawer(true);
-      // Reset sensor rep counter for next set
-      lastSensorRepRef.current = 0;
-      setSensorReps(0);
     }
   };
 
-  const continueToNextSet = () => {
+  const incrementRep = () => addReps(1, "manual");
+
+  // Take back reps counted by mistake; reopens the set if one of them completed it
+  const removeReps = (count: number) => {
+    const removed = Math.min(count, currentRepsRef.current);
+    if (isAllSetsComplete || removed <= 0) return;
+    const setIndex = currentSetIndex;
+    if (currentRepsRef.current >= reps) {
+      telemetryRef.current.resumeSet(setTelemetryRef.current[setIndex] ?? []);
+      setTelemetryRef.current[setIndex] = [];
+      showRestDrawerRef.current = false;
+      setShowRestDrawer(false);
+    }
+    setSetRepsCompleted((prev) => {
+      const next = [...prev];
+      next[setIndex] = Math.max(0, next[setIndex] - removed);
+      return next;
+    });
+    currentRepsRef.current -= removed;
+    telemetryRef.current.unmarkReps(removed);
+    setRepLogRef.current[setIndex]?.splice(-removed);
+    setUndoneRepsRef.current[setIndex] = (setUndoneRepsRef.current[setIndex] ?? 0) + removed;
+    setLastAdded(null);
+  };
+
+  const decrementRep = () => removeReps(1);
+
+  const undoLastRep = () => {
+    if (lastAdded?.setIndex === currentSetIndex) removeReps(lastAdded.count);
+  };
+  const canUndo = !isAllSetsComplete && lastAdded?.setIndex === currentSetIndex;
+  const undoLabel = lastAdded && lastAdded.count > 1 ? `Undo last ${lastAdded.count} reps` : "Undo last rep";
+
+  const cycleRepSource = () => {
+    setRepSource((prev) => REP_SOURCE_ORDER[(REP_SOURCE_ORDER.indexOf(prev) + 1) % REP_SOURCE_ORDER.length]);
+  };
+
+  // Changing the load carries forward to every later set, like moving the pin once on the stack
+  const bumpWeightFrom = (setIndex: number, delta: number) => {
+    setSetWeightsKg((prev) => {
+      const next = bumpWeightKg(prev[setIndex], delta, unit);
+      return prev.map((w, i) => (i < setIndex ? w : next > 0 ? next : null));
+    });
+  };
+
+  // `startedByMovement`: auto-start caught a rep already under way, which the detector should finish
+  const continueToNextSet = (startedByMovement = false) => {
     // Save the rest time for the completed set
+    const restedSec = Math.floor((Date.now() - restStartTimeRef.current) / 1000);
     setSetRestTimes((prev) => {
       const next = [...prev];
-      next[currentSetIndex] = restTimer;
+      next[currentSetIndex] = restedSec;
       return next;
     });
+    showRestDrawerRef.current = false;
     setShowRestDrawer(false);
+    setLastAdded(null);
     setCurrentSetIndex((prev) => prev + 1);
-    // Reset sensor rep counter for next set
-    lastSensorRepRef.current = 0;
-    setSensorReps(0);
     currentRepsRef.current = 0;
+    telemetryRef.current.startSet(Date.now());
+    if (!startedByMovement) detectorRef.current.reset();
+    sensorSetRepsRef.current = 0;
+    detectorSetRepsRef.current = 0;
+    creditedAutoRepsRef.current = 0;
   };
 
   // Update rest drawer ref when it changes
@@ -581,6 +571,23 @@ export default function Session() {
     currentRepsRef.current = currentReps;
   }, [currentReps]);
 
+  // Counts down to the target, then up in overtime
+  const restRemainingSec = restTargetSec - restTimer;
+  const isOverRest = restTargetSec > 0 && restRemainingSec < 0;
+  const restClock =
+    restTargetSec === 0
+      ? formatTime(restTimer)
+      : isOverRest
+        ? `+${formatTime(-restRemainingSec)}`
+        : formatTime(restRemainingSec);
+  const restCaption = [
+    restTargetSec > 0 ? (isOverRest ? "Past your rest target" : `Target ${formatRestTarget(restTargetSec)}`) : null,
+    // Auto-start needs the live stream; sensors without it only count reps
+    autoStart && device && sensor.liveCount > 0 ? "Lift to start the next set" : null,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
   if (sensorStatus === "need_scan") {
     return (
       <SafeAreaView style={[styles.safe, { backgroundColor: theme.background }]}>
@@ -603,37 +610,6 @@ export default function Session() {
     );
   }
 
-  if (sensorStatus === "error") {
-    return (
-      <SafeAreaView style={[styles.safe, { backgroundColor: theme.background }]}>
-        <RNView style={styles.retryContainer}>
-          <Text style={[styles.retryTitle, { color: theme.text }]}>Connection lost</Text>
-          <Text style={[styles.retrySubtitle, { color: theme.textSecondary }]}>
-            {bleLastError || retryError || "The sensor disconnected. Make sure it's on and nearby."}
-          </Text>
-          {(retryStatus === "scanning" || retryStatus === "connecting") ? (
-            <RNView style={styles.retryButton}>
-              <ActivityIndicator size="small" color={theme.background} />
-              <Text style={[styles.retryButtonText, { color: theme.background }]}>
-                {retryStatus === "scanning" ? "Searching…" : "Connecting…"}
-              </Text>
-            </RNView>
-          ) : (
-            <Pressable
-              onPress={() => retryConnect()}
-              style={({ pressed }) => [
-                styles.retryButton,
-                { backgroundColor: theme.primary, opacity: pressed ? 0.85 : 1 },
-              ]}
-            >
-              <Text style={[styles.retryButtonText, { color: theme.background }]}>Retry</Text>
-            </Pressable>
-          )}
-        </RNView>
-      </SafeAreaView>
-    );
-  }
-
   return (
     <SafeAreaView style={[styles.safe, { backgroundColor: theme.background }]}>
       <RNView style={styles.top}>
@@ -682,64 +658,102 @@ export default function Session() {
         </RNView>
       </RNView>
       <RNView style={styles.container}>
-        <Text style={[styles.machineName, { color: theme.textSecondary }]}>{machineName}</Text>
+        <Text style={[styles.machineName, { color: theme.textSecondary }]}>
+          {planStartedAt !== null ? `${machineName} · Exercise ${planPosition + 1} of ${planExercises.length}` : machineName}
+        </Text>
+        <WeightStepper
+          label={`Set ${currentSetIndex + 1}`}
+          weightKg={setWeightsKg[currentSetIndex] ?? null}
+          onBump={(delta) => bumpWeightFrom(currentSetIndex, delta)}
+        />
         {sensorStatus === "connected" && (
           <RNView style={styles.sensorStatusRow}>
             <Text style={[styles.sensorStatus, { color: theme.success }]}>
               Sensor Connected
             </Text>
-            {sensorReps > 0 && (
+            {sensor.sensorReps > 0 && (
               <Text style={[styles.sensorReps, { color: theme.textSecondary }]}>
-                Sensor: {sensorReps}
+                Sensor: {sensor.sensorReps}
               </Text>
             )}
           </RNView>
         )}
-        {sensorStatus === "scanning" && (
-          <Text style={[styles.sensorStatus, { color: theme.textSecondary }]}>
-            Scanning for sensor...
-          </Text>
-        )}
-        {sensorStatus === "connecting" && (
-          <Text style={[styles.sensorStatus, { color: theme.textSecondary }]}>
-            Connecting...
-          </Text>
+        {sensorStatus === "connected" && (
+          <Pressable
+            onPress={cycleRepSource}
+            style={({ pressed }) => [
+              styles.repSourceChip,
+              { borderColor: theme.border, opacity: pressed ? 0.7 : 1 },
+            ]}
+          >
+            <Text style={[styles.sensorReps, { color: theme.textSecondary }]}>
+              Counting: {REP_SOURCE_LABELS[repSource]}
+            </Text>
+          </Pressable>
         )}
         {sensorStatus === "idle" && (
           <Text style={[styles.sensorStatus, { color: theme.textSecondary }]}>
             Resting
           </Text>
         )}
-        {sensorStatus === "error" && (
-          <Text style={[styles.sensorStatus, { color: theme.danger }]}>
-            BLE: Error
-          </Text>
+        {sensorStatus === "reconnecting" && (
+          <RNView style={styles.sensorStatusRow}>
+            <ActivityIndicator size="small" color={theme.warning} />
+            <Text style={[styles.sensorStatus, { color: theme.warning }]}>
+              Reconnecting… ({reconnectAttempt}/{reconnectMaxAttempts})
+            </Text>
+            {reconnectPhase === "waiting" && (
+              <Pressable onPress={retryReconnectNow} hitSlop={8}>
+                <Text style={[styles.sensorReps, { color: theme.accent }]}>Try now</Text>
+              </Pressable>
+            )}
+          </RNView>
         )}
+        {sensorStatus === "manual" && (
+          <RNView style={[styles.manualBanner, { borderColor: theme.warning }]}>
+            <Text style={[styles.manualTitle, { color: theme.warning }]}>Sensor unavailable</Text>
+            <Text style={[styles.manualBody, { color: theme.textSecondary }]}>
+              {retryError ? `${retryError} ` : ""}Log your reps with +1 Rep; progress so far is kept.
+            </Text>
+            <Pressable onPress={retryReconnectNow} hitSlop={8}>
+              <Text style={[styles.manualAction, { color: theme.accent }]}>Reconnect</Text>
+            </Pressable>
+          </RNView>
+        )}
+
+        <Pressable onPress={() => router.push("/workout/diagnostics")} hitSlop={8}>
+          <Text style={[styles.sensorReps, { color: theme.accent }]}>Connection diagnostics</Text>
+        </Pressable>
 
         {/* Dev-only BLE debug */}
         {__DEV__ ? (
           <RNView style={{ marginTop: 6, alignItems: "center", gap: 4 }}>
             <Text style={[styles.sensorStatus, { color: theme.textSecondary }]}>
-              Notifies: {bleNotifyCount}
-              {bleLastAtMs ? ` · last ${Math.round((Date.now() - bleLastAtMs) / 1000)}s ago` : ""}
+              Notifies: {sensor.notifyCount}
+              {sensor.lastAtMs ? ` · last ${Math.round((Date.now() - sensor.lastAtMs) / 1000)}s ago` : ""}
             </Text>
-            {bleLastText ? (
+            {sensor.lastText ? (
               <Text style={[styles.sensorStatus, { color: theme.textSecondary }]}>
-                Last: {bleLastText.trim()}
+                Last: {sensor.lastText.trim()}
               </Text>
             ) : null}
             <Text style={[styles.sensorStatus, { color: theme.textSecondary }]}>
-              LIVE: {bleLiveCount}
-              {bleLiveLastAtMs ? ` · last ${Math.round((Date.now() - bleLiveLastAtMs) / 1000)}s ago` : ""}
+              LIVE: {sensor.liveCount}
+              {sensor.liveLastAtMs ? ` · last ${Math.round((Date.now() - sensor.liveLastAtMs) / 1000)}s ago` : ""}
             </Text>
-            {bleLiveLastText ? (
+            {sensor.liveLastText ? (
+              <Text style={[styles.sensorStatus, { color: theme.textSecondary }]}>
+                LiveLast: {sensor.liveLastText.trim()}
+              </Text>
+            ) : null}
+            {sensor.rejectedCount > 0 ? (
               <Text style={[styles.sensorStatus, { color: theme.textSecondary }]}>
-                LiveLast: {bleLiveLastText.trim()}
+                Rejected: {sensor.rejectedCount} · {sensor.lastRejectReason}
               </Text>
             ) : null}
-            {bleLastError ? (
+            {sensor.lastError ? (
               <Text style={[styles.sensorStatus, { color: theme.danger }]}>
-                {bleLastError}
+                {sensor.lastError}
               </Text>
             ) : null}
           </RNView>
@@ -768,11 +782,35 @@ export default function Session() {
             {isAllSetsComplete ? "Complete" : "+1 Rep"}
           </Text>
         </Pressable>
+        {!isAllSetsComplete && (
+          <RNView style={styles.correctionRow}>
+            <Pressable
+              onPress={decrementRep}
+              disabled={currentReps === 0}
+              style={({ pressed }) => [
+                styles.correctionButton,
+                { borderColor: theme.border, opacity: currentReps === 0 ? 0.4 : pressed ? 0.7 : 1 },
+              ]}
+            >
+              <Text style={[styles.correctionText, { color: theme.text }]}>−1 Rep</Text>
+            </Pressable>
+            <Pressable
+              onPress={undoLastRep}
+              disabled={!canUndo}
+              style={({ pressed }) => [
+                styles.correctionButton,
+                { borderColor: theme.border, opacity: !canUndo ? 0.4 : pressed ? 0.7 : 1 },
+              ]}
+            >
+              <Text style={[styles.correctionText, { color: theme.text }]}>{undoLabel}</Text>
+            </Pressable>
+          </RNView>
+        )}
       </RNView>
       <RNView style={styles.bottom}>
         <SlideToConfirm
           label="End Session Early"
-          onComplete={() => router.push("/workout/summary")}
+          onComplete={endSessionEarly}
           variant="danger"
         />
       </RNView>
@@ -792,11 +830,24 @@ export default function Session() {
             </Text>
             
             <RNView style={styles.timerContainer}>
-              <Text style={[styles.timerText, { color: theme.accent }]}>{formatTime(restTimer)}</Text>
+              <Text style={[styles.timerText, { color: isOverRest ? theme.warning : theme.accent }]}>{restClock}</Text>
+              {restCaption ? (
+                <Text style={[styles.timerCaption, { color: theme.textSecondary }]}>{restCaption}</Text>
+              ) : null}
             </RNView>
 
+            {!isLastSet && (
+              <RNView style={styles.drawerWeight}>
+                <WeightStepper
+                  label="Next set"
+                  weightKg={setWeightsKg[currentSetIndex + 1] ?? null}
+                  onBump={(delta) => bumpWeightFrom(currentSetIndex + 1, delta)}
+                />
+              </RNView>
+            )}
+
             <Pressable
-              onPress={continueToNextSet}
+              onPress={() => continueToNextSet()}
               style={({ pressed }) => [
                 styles.continueButton,
                 {
@@ -807,6 +858,11 @@ export default function Session() {
             >
               <Text style={[styles.continueButtonText, { color: theme.background }]}>Continue</Text>
       </Pressable>
+            {canUndo ? (
+              <Pressable onPress={undoLastRep} hitSlop={8} style={styles.drawerUndo}>
+                <Text style={[styles.correctionText, { color: theme.accent }]}>{undoLabel}</Text>
+              </Pressable>
+            ) : null}
           </RNView>
         </RNView>
       </Modal>
@@ -919,6 +975,21 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: "800",
   },
+  correctionRow: {
+    flexDirection: "row",
+    gap: 10,
+    marginTop: 12,
+  },
+  correctionButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  correctionText: {
+    fontSize: 13,
+    fontWeight: "700",
+  },
   bottom: {
     paddingHorizontal: 20,
     paddingBottom: 18,
@@ -965,6 +1036,11 @@ const styles = StyleSheet.create({
     fontWeight: "800",
     letterSpacing: 2,
   },
+  timerCaption: {
+    marginTop: 6,
+    fontSize: 13,
+    fontWeight: "600",
+  },
   continueButton: {
     width: "100%",
     paddingVertical: 16,
@@ -976,6 +1052,64 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: "800",
   },
+  drawerUndo: {
+    alignSelf: "center",
+    marginTop: 14,
+  },
+  weightRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+  },
+  weightLabel: {
+    fontSize: 12,
+    fontWeight: "600",
+    textTransform: "uppercase",
+  },
+  weightStepBtn: {
+    width: 32,
+    height: 32,
+    borderRadius: 10,
+    borderWidth: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  weightStepText: {
+    fontSize: 18,
+    fontWeight: "800",
+    marginTop: -1,
+  },
+  weightValue: {
+    minWidth: 64,
+    textAlign: "center",
+    fontSize: 16,
+    fontWeight: "800",
+  },
+  drawerWeight: {
+    marginTop: -12,
+    marginBottom: 24,
+  },
+  manualBanner: {
+    alignItems: "center",
+    borderWidth: 1,
+    borderRadius: 14,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    marginTop: 6,
+    gap: 4,
+  },
+  manualTitle: {
+    fontSize: 13,
+    fontWeight: "800",
+  },
+  manualBody: {
+    fontSize: 12,
+    textAlign: "center",
+  },
+  manualAction: {
+    fontSize: 14,
+    fontWeight: "700",
+  },
   sensorStatusRow: {
     flexDirection: "row",
     alignItems: "center",
@@ -983,6 +1117,13 @@ const styles = StyleSheet.create({
     marginTop: 8,
     marginBottom: -8,
   },
+  repSourceChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginTop: -8,
+  },
   sensorStatus: {
     fontSize: 12,
     fontWeight: "600",
@@ -1,13 +1,501 @@
-import { View, Text, Pressable } from "react-native";
-import { router } from "expo-router";
+import { useCallback, useState } from "react";
+import { ActivityIndicator, Alert, Pressable, ScrollView, StyleSheet, View as RNView } from "react-native";
+import { Stack, router, useFocusEffect, useLocalSearchParams } from "expo-router";
+
+import Colors from "@/constants/Colors";
+import { useColorScheme } from "@/components/useColorScheme";
+import { Text } from "@/components/Themed";
+import { supabase } from "@/lib/supabase";
+import { useGym } from "@/contexts/GymContext";
+import { usePlanRun } from "@/contexts/PlanRunContext";
+import { useWeightUnit } from "@/contexts/WeightUnitContext";
+import { useWorkoutDraft } from "@/contexts/WorkoutDraftContext";
+import { timeUnderTensionMs } from "@/utils/repTelemetry";
+import { formatRestDeviation, getRestDeviationSec } from "@/utils/restTimer";
+import { formatWeight } from "@/utils/weightUnits";
+import { getWorkouts, getWorkoutTitle, type Workout, type WorkoutExercise } from "@/utils/workoutStorage";
+import { findPreviousExercise, getExerciseTotals } from "@/utils/workoutSummary";
+import { recordWorkout } from "@/utils/workoutSync";
+
+function formatClock(seconds: number): string {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins}:${secs.toString().padStart(2, "0")}`;
+}
+
+function formatDuration(seconds?: number | null): string {
+  if (!seconds) return "-";
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  if (mins > 0) return `${mins}m ${secs}s`;
+  return `${secs}s`;
+}
+
+function formatTut(ms: number | null): string {
+  return ms === null ? "-" : `${Math.round(ms / 1000)}s`;
+}
+
+/** "+3" / "−2" / "±0"; empty when either side is unknown. */
+function formatDelta(current: number | null, previous: number | null, format: (n: number) => string): string {
+  if (current === null || previous === null) return "";
+  const delta = current - previous;
+  if (delta === 0) return "±0";
+  return `${delta > 0 ? "+" : "−"}${format(Math.abs(delta))}`;
+}
+
+function InfoRow({
+  label,
+  detail,
+  value,
+  color,
+  isLast,
+}: {
+  label: string;
+  detail?: string | null;
+  value: string;
+  color?: string;
+  isLast?: boolean;
+}) {
+  const colorScheme = useColorScheme() ?? "light";
+  const theme = Colors[colorScheme];
+  return (
+    <RNView style={[styles.row, !isLast && { borderBottomWidth: 1, borderBottomColor: theme.border }]}>
+      <RNView style={styles.rowText}>
+        <Text style={[styles.rowLabel, { color: theme.text }]}>{label}</Text>
+        {detail ? <Text style={[styles.rowDetail, { color: theme.textSecondary }]}>{detail}</Text> : null}
+      </RNView>
+      <Text style={[styles.rowValue, { color: color ?? theme.text }]}>{value}</Text>
+    </RNView>
+  );
+}
+
+function ExerciseSummary({
+  exercise,
+  history,
+  completedAt,
+  workoutId,
+  onEdit,
+}: {
+  exercise: WorkoutExercise;
+  history: Workout[];
+  completedAt: string;
+  workoutId?: string;
+  onEdit: () => void;
+}) {
+  const colorScheme = useColorScheme() ?? "light";
+  const theme = Colors[colorScheme];
+  const { unit } = useWeightUnit();
+  const totals = getExerciseTotals(exercise);
+  const previous = findPreviousExercise(history, exercise.machineName, completedAt, workoutId);
+  const previousTotals = previous ? getExerciseTotals(previous.exercise) : null;
+
+  return (
+    <>
+      <RNView style={styles.section}>
+        <RNView style={styles.sectionHeader}>
+          <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>
+            {exercise.machineName.toUpperCase()}
+          </Text>
+          <Pressable onPress={onEdit} hitSlop={8}>
+            <Text style={[styles.sectionAction, { color: theme.accent }]}>Edit sets</Text>
+          </Pressable>
+        </RNView>
+        <RNView style={[styles.card, { backgroundColor: theme.card, borderColor: theme.border }]}>
+          {exercise.sets.length === 0 ? (
+            <InfoRow label="No sets done" value="" isLast />
+          ) : (
+            exercise.sets.map((set, i) => {
+              const restDeviation = getRestDeviationSec(set);
+              const detail = [
+                set.weightKg != null ? formatWeight(set.weightKg, unit) : null,
+                i > 0
+                  ? `rest ${formatClock(set.restBeforeSec)}` +
+                    (restDeviation !== null ? ` (${formatRestDeviation(restDeviation)})` : "")
+                  : null,
+                set.telemetry?.length ? `TUT ${formatTut(timeUnderTensionMs(set.telemetry))}` : null,
+                set.correction ? "corrected" : null,
+              ]
+                .filter(Boolean)
+                .join(" · ");
+              return (
+                <InfoRow
+                  key={i}
+                  label={`Set ${i + 1}`}
+                  detail={detail}
+                  value={`${set.achievedReps} / ${set.targetReps}`}
+                  color={set.achievedReps >= set.targetReps ? theme.success : theme.warning}
+                  isLast={i === exercise.sets.length - 1}
+                />
+              );
+            })
+          )}
+        </RNView>
+      </RNView>
+
+      <RNView style={styles.section}>
+        <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>
+          {previous
+            ? `VS LAST TIME · ${new Date(previous.completedAt).toLocaleDateString(undefined, { month: "short", day: "numeric" })}`
+            : "VS LAST TIME"}
+        </Text>
+        <RNView style={[styles.card, { backgroundColor: theme.card, borderColor: theme.border }]}>
+          {previousTotals ? (
+            <>
+              <InfoRow
+                label="Reps"
+                detail={`was ${previousTotals.reps} in ${previousTotals.sets} sets`}
+                value={`${totals.reps}  ${formatDelta(totals.reps, previousTotals.reps, String)}`}
+              />
+              <InfoRow
+                label="Top weight"
+                detail={previousTotals.topWeightKg !== null ? `was ${formatWeight(previousTotals.topWeightKg, unit)}` : null}
+                value={`${totals.topWeightKg !== null ? formatWeight(totals.topWeightKg, unit) : "-"}  ${formatDelta(
+                  totals.topWeightKg,
+                  previousTotals.topWeightKg,
+                  (n) => formatWeight(n, unit)
+                )}`}
+              />
+              <InfoRow
+                label="Time under tension"
+                detail={previousTotals.timeUnderTensionMs !== null ? `was ${formatTut(previousTotals.timeUnderTensionMs)}` : null}
+                value={`${formatTut(totals.timeUnderTensionMs)}  ${formatDelta(
+                  totals.timeUnderTensionMs,
+                  previousTotals.timeUnderTensionMs,
+                  (n) => formatTut(n)
+                )}`}
+                isLast
+              />
+            </>
+          ) : (
+            <InfoRow label="First session on this machine" value="" isLast />
+          )}
+        </RNView>
+      </RNView>
+    </>
+  );
+}
+
+/**
+ * Results of a workout: the one just finished (from the session, not saved yet) with
+ * save / discard / edit, or a saved one opened from history (`workoutId`).
+ */
+export default function SummaryScreen() {
+  const colorScheme = useColorScheme() ?? "light";
+  const theme = Colors[colorScheme];
+  const params = useLocalSearchParams<{ workoutId?: string }>();
+  const { draft, clearDraft } = useWorkoutDraft();
+  const {
+    isRunning: isPlanRun,
+    currentIndex: planIndex,
+    exercises: planExercises,
+    results: planResults,
+    startedAt: planStartedAt,
+    completeExercise,
+    endPlanRun,
+  } = usePlanRun();
+  const { activeGymId } = useGym();
+  const [userId, setUserId] = useState<string | null>(null);
+  // Newest first; the saved workout being shown is in here too
+  const [history, setHistory] = useState<Workout[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  // Reload on focus so corrections made on the edit screen show up
+  useFocusEffect(
+    useCallback(() => {
+      let cancelled = false;
+      (async () => {
+        try {
+          if (!supabase) return;
+          // The stored session, so a workout can be saved (and queued) without a connection
+          const { data } = await supabase.auth.getSession();
+          const id = data.session?.user.id;
+          if (!id || cancelled) return;
+          setUserId(id);
+          const workouts = await getWorkouts(id);
+          if (cancelled) return;
+          setHistory(workouts);
+        } catch {
+          // ignore
+        } finally {
+          if (!cancelled) setLoading(false);
+        }
+      })();
+      return () => {
+        cancelled = true;
+      };
+    }, [])
+  );
+
+  const isDraft = !params.workoutId;
+  const savedWorkout = isDraft ? null : history.find((w) => w.id === params.workoutId) ?? null;
+  const exercises = isDraft ? (draft ? [draft.exercise] : []) : savedWorkout?.exercises ?? [];
+  const completedAt = isDraft
+    ? new Date(draft?.endedAt ?? Date.now()).toISOString()
+    : savedWorkout?.completedAt ?? new Date().toISOString();
+  const durationSec = isDraft
+    ? draft
+      ? Math.floor((draft.endedAt - draft.startedAt) / 1000)
+      : null
+    : savedWorkout?.duration ?? null;
+  const allSets = exercises.flatMap((e) => e.sets);
+  const totalReps = allSets.reduce((sum, s) => sum + s.achievedReps, 0);
+  const totalTargetReps = allSets.reduce((sum, s) => sum + s.targetReps, 0);
+  const totalTut = timeUnderTensionMs(allSets.flatMap((s) => s.telemetry ?? []));
+  const isLastPlanExercise = planIndex >= planExercises.length - 1;
+  // Moving on to the next exercise of a plan saves nothing yet
+  const canSave = allSets.length > 0 && (!!userId || (isPlanRun && !isLastPlanExercise));
+
+  // Record the exercise (or skip it with null); a plan run moves on to its next machine instead
+  const finish = async (exercise: WorkoutExercise | null) => {
+    if (!draft || saving) return;
+    setSaving(true);
+    let toSave = exercise ? [exercise] : [];
+    let startedAt = draft.startedAt;
+    if (isPlanRun) {
+      if (!isLastPlanExercise) {
+        completeExercise(exercise);
+        clearDraft();
+        router.dismissTo("/workout/nfc");
+        return;
+      }
+      // The run only moves past its last exercise once the workout is saved, so a failed save can be retried
+      toSave = [...planResults, ...toSave];
+      startedAt = planStartedAt ?? startedAt;
+    }
+    if (toSave.length > 0) {
+      const duration = Math.floor((draft.endedAt - startedAt) / 1000);
+      try {
+        if (!userId) throw new Error("Not signed in");
+        await recordWorkout(
+          { duration, gymId: activeGymId ?? undefined, fromPlan: isPlanRun || undefined, exercises: toSave },
+          userId
+        );
+      } catch {
+        setSaving(false);
+        Alert.alert("Save Workout", "Couldn't save the workout. Your sets are still here, so you can try again.");
+        return;
+      }
+    }
+    if (isPlanRun) endPlanRun();
+    clearDraft();
+    router.replace(toSave.length > 0 ? "/(tabs)/two" : "/(tabs)");
+  };
+
+  const discard = () => {
+    Alert.alert(
+      "Discard workout?",
+      isPlanRun && !isLastPlanExercise
+        ? "This exercise won't be saved. The rest of your plan continues."
+        : "These sets won't be saved.",
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Discard", style: "destructive", onPress: () => void finish(null) },
+      ]
+    );
+  };
+
+  const editExercise = (index: number) => {
+    if (isDraft) router.push("/workout/edit");
+    else router.push({ pathname: "/workout/edit", params: { workoutId: params.workoutId, exercise: String(index) } });
+  };
+
+  if (loading && !isDraft) {
+    return (
+      <RNView style={[styles.empty, { backgroundColor: theme.background }]}>
+        <ActivityIndicator color={theme.textSecondary} />
+      </RNView>
+    );
+  }
+
+  if (isDraft ? !draft : !savedWorkout) {
+    return (
+      <RNView style={[styles.empty, { backgroundColor: theme.background }]}>
+        <Text style={[styles.emptyText, { color: theme.textSecondary }]}>
+          {isDraft ? "No workout to show." : "This workout isn't on this device."}
+        </Text>
+        <Pressable
+          onPress={() => router.replace("/(tabs)")}
+          style={({ pressed }) => [styles.primaryBtn, { backgroundColor: theme.primary, opacity: pressed ? 0.85 : 1 }]}
+        >
+          <Text style={[styles.primaryBtnText, { color: theme.background }]}>Done</Text>
+        </Pressable>
+      </RNView>
+    );
+  }
+
+  const title = savedWorkout ? getWorkoutTitle(savedWorkout) : exercises[0]?.machineName ?? "Workout";
 
-export default function Summary() {
   return (
-    <View style={{ flex: 1, justifyContent: "center", alignItems: "center", gap: 16 }}>
-      <Text style={{ fontSize: 22, fontWeight: "700" }}>Summary</Text>
-      <Pressable onPress={() => router.replace("/(tabs)")} style={{ padding: 14, borderRadius: 12, backgroundColor: "#111" }}>
-        <Text style={{ color: "#fff", fontWeight: "600" }}>Back to Tabs</Text>
-      </Pressable>
-    </View>
-  );
-}
\ No newline at end of file
+    <ScrollView style={{ flex: 1, backgroundColor: theme.background }} contentContainerStyle={styles.content}>
+      {/* An unsaved workout can only be left by saving or discarding it */}
+      <Stack.Screen options={{ headerBackVisible: !isDraft, gestureEnabled: !isDraft }} />
+      <RNView>
+        <Text style={[styles.title, { color: theme.text }]}>{title}</Text>
+        <Text style={[styles.subtitle, { color: theme.textSecondary }]}>
+          {savedWorkout
+            ? new Date(savedWorkout.completedAt).toLocaleString(undefined, {
+                weekday: "short",
+                month: "short",
+                day: "numeric",
+                hour: "numeric",
+                minute: "2-digit",
+              })
+            : "Not saved yet"}
+        </Text>
+      </RNView>
+
+      <RNView style={[styles.card, { backgroundColor: theme.card, borderColor: theme.border }]}>
+        <InfoRow
+          label="Reps"
+          value={`${totalReps} / ${totalTargetReps}`}
+          color={totalReps >= totalTargetReps ? theme.success : theme.warning}
+        />
+        <InfoRow label="Time under tension" value={formatTut(totalTut)} />
+        <InfoRow label="Duration" value={formatDuration(durationSec)} isLast />
+      </RNView>
+
+      {exercises.map((exercise, i) => (
+        <ExerciseSummary
+          key={i}
+          exercise={exercise}
+          history={history}
+          completedAt={completedAt}
+          workoutId={savedWorkout?.id}
+          onEdit={() => editExercise(i)}
+        />
+      ))}
+
+      {isDraft ? (
+        <RNView style={styles.actions}>
+          <Pressable
+            onPress={() => void finish(draft!.exercise)}
+            disabled={saving || !canSave}
+            style={({ pressed }) => [
+              styles.primaryBtn,
+              {
+                backgroundColor: theme.primary,
+                opacity: !canSave ? 0.5 : pressed ? 0.85 : 1,
+              },
+            ]}
+          >
+            {saving ? (
+              <ActivityIndicator color={theme.background} />
+            ) : (
+              <Text style={[styles.primaryBtnText, { color: theme.background }]}>
+                {isPlanRun && !isLastPlanExercise ? "Save and next exercise" : "Save workout"}
+              </Text>
+            )}
+          </Pressable>
+          <Pressable onPress={discard} disabled={saving} hitSlop={8} style={styles.discardBtn}>
+            <Text style={[styles.discardText, { color: theme.danger }]}>Discard</Text>
+          </Pressable>
+          {!loading && !userId ? (
+            <Text style={[styles.note, { color: theme.textSecondary }]}>
+              Sign in to keep your workouts in history.
+            </Text>
+          ) : null}
+        </RNView>
+      ) : null}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    paddingHorizontal: 16,
+    paddingVertical: 18,
+    gap: 18,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: "800",
+  },
+  subtitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    marginTop: 2,
+  },
+  section: { gap: 8 },
+  sectionHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingRight: 4,
+  },
+  sectionTitle: {
+    fontSize: 12,
+    fontWeight: "800",
+    letterSpacing: 0.8,
+    paddingHorizontal: 4,
+  },
+  sectionAction: {
+    fontSize: 13,
+    fontWeight: "700",
+  },
+  card: {
+    borderRadius: 14,
+    borderWidth: 1,
+    overflow: "hidden",
+  },
+  row: {
+    minHeight: 48,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 12,
+  },
+  rowText: {
+    flexShrink: 1,
+    gap: 2,
+  },
+  rowLabel: {
+    fontSize: 15,
+    fontWeight: "700",
+  },
+  rowDetail: {
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  rowValue: {
+    fontSize: 15,
+    fontWeight: "800",
+  },
+  actions: {
+    gap: 12,
+  },
+  primaryBtn: {
+    height: 52,
+    borderRadius: 14,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  primaryBtnText: {
+    fontSize: 16,
+    fontWeight: "700",
+  },
+  discardBtn: {
+    alignSelf: "center",
+    padding: 6,
+  },
+  discardText: {
+    fontSize: 15,
+    fontWeight: "700",
+  },
+  note: {
+    fontSize: 12,
+    textAlign: "center",
+  },
+  empty: {
+    flex: 1,
+    justifyContent: "center",
+    gap: 16,
+    padding: 24,
+  },
+  emptyText: {
+    fontSize: 15,
+    textAlign: "center",
+  },
+});
@@ -4,6 +4,7 @@
 // Primary (CTA / slider): #FFFFFF
 // Accent (status / success): #4ADE80
 // Secondary accent: #3B82F6
+// Warning (unverified / caution): #F59E0B
 // Text primary: #FFFFFF
 // Text secondary: #9CA3AF
 
@@ -13,6 +14,7 @@ const darkPalette = {
   primary: "#FFFFFF",
   success: "#4ADE80",
   danger: "#EF4444",
+  warning: "#F59E0B",
   accent: "#3B82F6",
   text: "#FFFFFF",
   textSecondary: "#9CA3AF",
@@ -25,6 +27,7 @@ const lightPalette = {
   primary: "#0E0F12",
   success: "#4ADE80",
   danger: "#EF4444",
+  warning: "#F59E0B",
   accent: "#3B82F6",
   text: "#0E0F12",
   textSecondary: "#6B7280",
@@ -1,16 +1,16 @@
 import React, { createContext, useCallback, useContext, useState } from "react";
-import type { BleManager, Device } from "react-native-ble-plx";
+import type { SensorPeripheral, SensorTransport } from "@/utils/sensorTransport";
 
 type BleConnectionState = {
-  device: Device | null;
-  manager: BleManager | null;
+  device: SensorPeripheral | null;
+  manager: SensorTransport | null;
   machine: string | null;
   sensorName: string | null;
   sensorMac: string | null;
 };
 
 type BleConnectionContextValue = BleConnectionState & {
-  setPreConnected: (device: Device, manager: BleManager, machine: string, sensorName: string, sensorMac: string) => void;
+  setPreConnected: (device: SensorPeripheral, manager: SensorTransport, machine: string, sensorName: string, sensorMac: string) => void;
   clearPreConnected: () => void;
 };
 
@@ -28,7 +28,7 @@ export function BleConnectionProvider({ children }: { children: React.ReactNode
   const [state, setState] = useState<BleConnectionState>(initialState);
 
   const setPreConnected = useCallback(
-    (device: Device, manager: BleManager, machine: string, sensorName: string, sensorMac: string) => {
+    (device: SensorPeripheral, manager: SensorTransport, machine: string, sensorName: string, sensorMac: string) => {
       setState({ device, manager, machine, sensorName, sensorMac });
     },
     []
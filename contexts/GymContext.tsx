@@ -0,0 +1,76 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from "react";
+
+import {
+  fetchHomeGymFromProfile,
+  getGymPreference,
+  saveHomeGymToProfile,
+  setGymPreference,
+  type GymPreference,
+} from "@/utils/gymPreference";
+
+type GymContextValue = GymPreference & {
+  /** Gym used to resolve tags without a gym id and recorded on new workouts */
+  activeGymId: string | null;
+  setHomeGym: (gymId: string | null) => void;
+  setCurrentGym: (gymId: string | null) => void;
+};
+
+const GymContext = createContext<GymContextValue | null>(null);
+
+export function GymProvider({ children }: { children: React.ReactNode }) {
+  const [pref, setPref] = useState<GymPreference>({ homeGymId: null, currentGymId: null });
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const saved = await getGymPreference();
+      if (cancelled) return;
+      setPref(saved);
+      // A home gym chosen on another device wins over an empty local one
+      if (!saved.homeGymId) {
+        const remote = await fetchHomeGymFromProfile();
+        if (!cancelled && remote) {
+          const next = { ...saved, homeGymId: remote };
+          setPref(next);
+          void setGymPreference(next);
+        }
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const setHomeGym = useCallback((gymId: string | null) => {
+    setPref((prev) => {
+      const next = { ...prev, homeGymId: gymId };
+      void setGymPreference(next);
+      return next;
+    });
+    void saveHomeGymToProfile(gymId);
+  }, []);
+
+  const setCurrentGym = useCallback((gymId: string | null) => {
+    setPref((prev) => {
+      if (prev.currentGymId === gymId) return prev;
+      const next = { ...prev, currentGymId: gymId };
+      void setGymPreference(next);
+      return next;
+    });
+  }, []);
+
+  const value: GymContextValue = {
+    ...pref,
+    activeGymId: pref.currentGymId ?? pref.homeGymId,
+    setHomeGym,
+    setCurrentGym,
+  };
+
+  return <GymContext.Provider value={value}>{children}</GymContext.Provider>;
+}
+
+export function useGym() {
+  const ctx = useContext(GymContext);
+  if (!ctx) throw new Error("useGym must be used within GymProvider");
+  return ctx;
+}
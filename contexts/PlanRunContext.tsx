@@ -0,0 +1,83 @@
+import React, { createContext, useCallback, useContext, useState } from "react";
+
+import type { PlanExercise } from "@/utils/planStorage";
+import type { WorkoutExercise } from "@/utils/workoutStorage";
+
+/**
+ * "Run my plan" state shared by the workout screens: which plan exercise is up next and the
+ * results of the ones already done, so a single grouped workout can be saved at the end.
+ */
+
+type PlanRunState = {
+  exercises: PlanExercise[];
+  currentIndex: number;
+  results: WorkoutExercise[];
+  startedAt: number | null;
+};
+
+type PlanRunContextValue = PlanRunState & {
+  isRunning: boolean;
+  currentExercise: PlanExercise | null;
+  startPlanRun: (exercises: PlanExercise[]) => void;
+  /**
+   * Record the current exercise (or skip it with null) and move on. Returns every recorded
+   * result once the last exercise is done, null while there are exercises left.
+   */
+  completeExercise: (result: WorkoutExercise | null) => WorkoutExercise[] | null;
+  endPlanRun: () => void;
+};
+
+const initialState: PlanRunState = {
+  exercises: [],
+  currentIndex: 0,
+  results: [],
+  startedAt: null,
+};
+
+const PlanRunContext = createContext<PlanRunContextValue | null>(null);
+
+export function PlanRunProvider({ children }: { children: React.ReactNode }) {
+  const [state, setState] = useState<PlanRunState>(initialState);
+
+  const startPlanRun = useCallback((exercises: PlanExercise[]) => {
+    setState({
+      exercises: [...exercises].sort((a, b) => a.order_index - b.order_index),
+      currentIndex: 0,
+      results: [],
+      startedAt: Date.now(),
+    });
+  }, []);
+
+  const completeExercise = useCallback(
+    (result: WorkoutExercise | null) => {
+      const results = result ? [...state.results, result] : state.results;
+      const nextIndex = state.currentIndex + 1;
+      setState((s) => ({ ...s, currentIndex: nextIndex, results }));
+      return nextIndex >= state.exercises.length ? results : null;
+    },
+    [state]
+  );
+
+  const endPlanRun = useCallback(() => {
+    setState(initialState);
+  }, []);
+
+  const isRunning = state.startedAt !== null && state.currentIndex < state.exercises.length;
+
+  const value: PlanRunContextValue = {
+    ...state,
+    isRunning,
+    currentExercise: isRunning ? state.exercises[state.currentIndex] : null,
+    startPlanRun,
+    completeExercise,
+    endPlanRun,
+  };
+
+  return <PlanRunContext.Provider value={value}>{children}</PlanRunContext.Provider>;
+}
+
+export function usePlanRun() {
+  const ctx = useContext(PlanRunContext);
+  if (!ctx) throw new Error("usePlanRun must be used within PlanRunProvider");
+  return ctx;
+}
@@ -0,0 +1,42 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from "react";
+
+import {
+  DEFAULT_WEIGHT_UNIT,
+  getWeightUnit,
+  setWeightUnit as persistWeightUnit,
+  type WeightUnit,
+} from "@/utils/weightUnits";
+
+type WeightUnitContextValue = {
+  unit: WeightUnit;
+  setUnit: (unit: WeightUnit) => void;
+};
+
+const WeightUnitContext = createContext<WeightUnitContextValue | null>(null);
+
+export function WeightUnitProvider({ children }: { children: React.ReactNode }) {
+  const [unit, setUnitState] = useState<WeightUnit>(DEFAULT_WEIGHT_UNIT);
+
+  useEffect(() => {
+    let cancelled = false;
+    getWeightUnit().then((saved) => {
+      if (!cancelled) setUnitState(saved);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const setUnit = useCallback((next: WeightUnit) => {
+    setUnitState(next);
+    void persistWeightUnit(next);
+  }, []);
+
+  return <WeightUnitContext.Provider value={{ unit, setUnit }}>{children}</WeightUnitContext.Provider>;
+}
+
+export function useWeightUnit() {
+  const ctx = useContext(WeightUnitContext);
+  if (!ctx) throw new Error("useWeightUnit must be used within WeightUnitProvider");
+  return ctx;
+}
@@ -0,0 +1,53 @@
+import React, { createContext, useCallback, useContext, useState } from "react";
+
+import type { WorkoutExercise } from "@/utils/workoutStorage";
+
+/**
+ * A finished exercise waiting to be reviewed and saved. The session hands it over when the last
+ * set is done (or the session is ended early), so the member can check the summary and correct
+ * counts before anything is written to history.
+ */
+
+export type WorkoutDraft = {
+  exercise: WorkoutExercise;
+  startedAt: number;
+  endedAt: number;
+};
+
+type WorkoutDraftContextValue = {
+  draft: WorkoutDraft | null;
+  setDraft: (draft: WorkoutDraft) => void;
+  /** Replace the exercise after corrections on the edit screen */
+  updateDraftExercise: (exercise: WorkoutExercise) => void;
+  clearDraft: () => void;
+};
+
+const WorkoutDraftContext = createContext<WorkoutDraftContextValue | null>(null);
+
+export function WorkoutDraftProvider({ children }: { children: React.ReactNode }) {
+  const [draft, setDraftState] = useState<WorkoutDraft | null>(null);
+
+  const setDraft = useCallback((next: WorkoutDraft) => {
+    setDraftState(next);
+  }, []);
+
+  const updateDraftExercise = useCallback((exercise: WorkoutExercise) => {
+    setDraftState((d) => (d ? { ...d, exercise } : d));
+  }, []);
+
+  const clearDraft = useCallback(() => {
+    setDraftState(null);
+  }, []);
+
+  return (
+    <WorkoutDraftContext.Provider value={{ draft, setDraft, updateDraftExercise, clearDraft }}>
+      {children}
+    </WorkoutDraftContext.Provider>
+  );
+}
+
+export function useWorkoutDraft() {
+  const ctx = useContext(WorkoutDraftContext);
+  if (!ctx) throw new Error("useWorkoutDraft must be used within WorkoutDraftProvider");
+  return ctx;
+}
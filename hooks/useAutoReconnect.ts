@@ -0,0 +1,103 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import { useBleConnectToSensor } from "@/hooks/useBleConnectToSensor";
+
+const MAX_ATTEMPTS = 5;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 15000;
+// Per attempt; the sensor was just here, so it either answers quickly or is gone
+const ATTEMPT_SCAN_TIMEOUT_MS = 10000;
+
+/**
+ * "waiting": backing off before the next attempt. "connecting": an attempt is scanning or connecting.
+ * "exhausted": every attempt failed; the caller falls back to manual entry.
+ */
+export type ReconnectPhase = "idle" | "waiting" | "connecting" | "exhausted";
+
+/** Delay before attempt `attempt` (1-based): 1s, 2s, 4s, 8s, capped at 15s. */
+function backoffMs(attempt: number): number {
+  return Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1));
+}
+
+/**
+ * Reconnects to a sensor that dropped mid-workout, retrying with exponential backoff.
+ * `start(deviceId)` targets the exact device that was lost, never just any sensor with the same
+ * name, so its rep counter can be resumed. The reconnected device comes back through `device`.
+ */
+export function useAutoReconnect(sensorName: string, sensorMac?: string | null) {
+  const [targetId, setTargetId] = useState<string | undefined>(sensorMac?.trim() || undefined);
+  const [phase, setPhase] = useState<ReconnectPhase>("idle");
+  const [attempt, setAttempt] = useState(0);
+  const { device, manager, status, error, connect } = useBleConnectToSensor(sensorName, targetId, {
+    scanTimeoutMs: ATTEMPT_SCAN_TIMEOUT_MS,
+  });
+
+  const phaseRef = useRef(phase);
+  phaseRef.current = phase;
+  const attemptRef = useRef(0);
+  const connectRef = useRef(connect);
+  connectRef.current = connect;
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const clearTimer = () => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+  };
+
+  const scheduleAttempt = useCallback(() => {
+    clearTimer();
+    const next = attemptRef.current + 1;
+    if (next > MAX_ATTEMPTS) {
+      setPhase("exhausted");
+      return;
+    }
+    attemptRef.current = next;
+    setAttempt(next);
+    setPhase("waiting");
+    timerRef.current = setTimeout(() => {
+      timerRef.current = null;
+      setPhase("connecting");
+      // Through the ref: the target id set in start() has re-created connect by now
+      void connectRef.current();
+    }, backoffMs(next));
+  }, []);
+
+  /** Begin reconnecting to `deviceId` (the device that just dropped). */
+  const start = useCallback(
+    (deviceId?: string | null) => {
+      if (deviceId) setTargetId(deviceId);
+      attemptRef.current = 0;
+      scheduleAttempt();
+    },
+    [scheduleAttempt]
+  );
+
+  /** Skip the backoff, or start a fresh round of attempts after exhausting them. */
+  const retryNow = useCallback(() => {
+    clearTimer();
+    // While waiting, the pending attempt just runs early; after giving up, a fresh round starts
+    if (phaseRef.current === "exhausted") {
+      attemptRef.current = 1;
+      setAttempt(1);
+    }
+    setPhase("connecting");
+    void connectRef.current();
+  }, []);
+
+  useEffect(() => {
+    if (phaseRef.current !== "connecting") return;
+    if (status === "connected") {
+      setPhase("idle");
+      attemptRef.current = 0;
+      setAttempt(0);
+    } else if (status === "error") {
+      scheduleAttempt();
+    }
+  }, [status, scheduleAttempt]);
+
+  useEffect(() => clearTimer, []);
+
+  return { device, manager, phase, attempt, maxAttempts: MAX_ATTEMPTS, error, start, retryNow };
+}
@@ -1,46 +1,197 @@
 import { useCallback, useEffect, useRef, useState } from "react";
-import { BleManager, Device, State } from "react-native-ble-plx";
+import { State } from "react-native-ble-plx";
+
+import { readSensorInfo, type SensorInfo } from "@/utils/sensorInfo";
+import { createSensorTransport, type SensorPeripheral, type SensorTransport } from "@/utils/sensorTransport";
 
 const SERVICE_UUID_LC = "6e400001-b5a3-f393-e0a9-e50e24dcca9e";
 
-export type ConnectStatus = "idle" | "scanning" | "connecting" | "connected" | "error";
+const DEFAULT_SCAN_TIMEOUT_MS = 30000;
+// Drop a sensor from the discovery list when it hasn't advertised for this long
+const DISCOVERY_STALE_MS = 6000;
+// Weight of the newest RSSI reading; advertisements are noisy and the ranking shouldn't jump around
+const RSSI_SMOOTHING = 0.4;
+
+export type ConnectStatus = "idle" | "discovering" | "scanning" | "connecting" | "connected" | "error";
+
+/** A nearby advertiser of the sensor service, as listed by discovery mode. */
+export type DiscoveredSensor = {
+  /** MAC address on Android, per-phone UUID on iOS; usable as the sensorMac to connect to */
+  id: string;
+  name: string;
+  rssi: number;
+  lastSeen: number;
+};
+
+async function waitForPoweredOn(manager: SensorTransport): Promise<State> {
+  let state = await manager.state();
+  if (state === State.Unknown) {
+    manager.startDeviceScan(null, null, () => {});
+    await new Promise((r) => setTimeout(r, 2000));
+    await manager.stopDeviceScan();
+    await new Promise((r) => setTimeout(r, 300));
+    state = await manager.state();
+  }
 
-export function useBleConnectToSensor(sensorName: string, sensorMac?: string | null) {
+  if (state !== State.PoweredOn && state !== State.Unknown) {
+    state = await new Promise<State>((resolve) => {
+      const t = setTimeout(() => resolve(state), 5000);
+      manager.onStateChange((s) => {
+        if (s === State.PoweredOn) {
+          clearTimeout(t);
+          resolve(s);
+        }
+      });
+    });
+  }
+  return state;
+}
+
+function bluetoothStateError(state: State): string | null {
+  if (state === State.Unsupported || state === State.Unauthorized) return "Bluetooth not available";
+  if (state !== State.PoweredOn) return "Bluetooth not powered on";
+  return null;
+}
+
+export type BleConnectOptions = {
+  /** How long one connect() scans before giving up */
+  scanTimeoutMs?: number;
+};
+
+export function useBleConnectToSensor(
+  sensorName: string,
+  sensorMac?: string | null,
+  options?: BleConnectOptions
+) {
   const [status, setStatus] = useState<ConnectStatus>("idle");
   const [error, setError] = useState<string | null>(null);
-  const [device, setDevice] = useState<Device | null>(null);
-  const [manager, setManager] = useState<BleManager | null>(null);
-  const managerRef = useRef<BleManager | null>(null);
+  const [device, setDevice] = useState<SensorPeripheral | null>(null);
+  const [manager, setManager] = useState<SensorTransport | null>(null);
+  const [sensors, setSensors] = useState<DiscoveredSensor[]>([]);
+  // Battery and firmware of the connected sensor; null until read, fields null when not exposed
+  const [sensorInfo, setSensorInfo] = useState<SensorInfo | null>(null);
+  const managerRef = useRef<SensorTransport | null>(null);
   const connectInFlightRef = useRef(false);
   const scanTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Ends an in-progress connect scan early, e.g. when the user switches to picking a sensor
+  const cancelConnectScanRef = useRef<(() => void) | null>(null);
+  const discoveringRef = useRef(false);
+  const discoveredRef = useRef(new Map<string, DiscoveredSensor>());
+  const discoveryTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
 
   const targetName = sensorName?.trim() || "IMU-STACK";
   const targetMac = sensorMac?.trim() || undefined;
+  const scanTimeoutMs = options?.scanTimeoutMs ?? DEFAULT_SCAN_TIMEOUT_MS;
+
+  const ensureManager = useCallback((): SensorTransport | null => {
+    if (managerRef.current) return managerRef.current;
+    try {
+      const m = createSensorTransport();
+      managerRef.current = m;
+      setManager(m);
+      return m;
+    } catch (e: any) {
+      setStatus("error");
+      setError(e?.message ?? "Failed to init BLE");
+      return null;
+    }
+  }, []);
+
+  const stopDiscovery = useCallback(() => {
+    if (!discoveringRef.current) return;
+    discoveringRef.current = false;
+    if (discoveryTimerRef.current) {
+      clearInterval(discoveryTimerRef.current);
+      discoveryTimerRef.current = null;
+    }
+    managerRef.current?.stopDeviceScan().catch(() => {});
+    setStatus((s) => (s === "discovering" ? "idle" : s));
+  }, []);
+
+  /** List nearby sensors by signal strength instead of connecting to the first name match. */
+  const startDiscovery = useCallback(async () => {
+    if (discoveringRef.current) return;
+    if (connectInFlightRef.current) {
+      connectInFlightRef.current = false;
+      cancelConnectScanRef.current?.();
+    }
+
+    discoveringRef.current = true;
+    discoveredRef.current.clear();
+    setSensors([]);
+    setError(null);
+    setDevice(null);
+    setStatus("discovering");
+
+    const manager = ensureManager();
+    if (!manager) {
+      discoveringRef.current = false;
+      return;
+    }
+
+    try {
+      const state = await waitForPoweredOn(manager);
+      if (!discoveringRef.current) return;
+      const stateError = bluetoothStateError(state);
+      if (stateError) {
+        discoveringRef.current = false;
+        setStatus("error");
+        setError(stateError);
+        return;
+      }
+
+      await manager.stopDeviceScan();
+      // Duplicates keep RSSI fresh as the user walks up to the machine
+      manager.startDeviceScan([SERVICE_UUID_LC], { allowDuplicates: true }, (err, d) => {
+        if (!discoveringRef.current) return;
+        if (err) {
+          stopDiscovery();
+          setStatus("error");
+          setError(err.message ?? "Scan error");
+          return;
+        }
+        if (!d || d.rssi == null) return;
+        const prev = discoveredRef.current.get(d.id);
+        discoveredRef.current.set(d.id, {
+          id: d.id,
+          name: d.name || d.localName || prev?.name || "Unnamed sensor",
+          rssi: prev ? Math.round(prev.rssi * (1 - RSSI_SMOOTHING) + d.rssi * RSSI_SMOOTHING) : d.rssi,
+          lastSeen: Date.now(),
+        });
+      });
+
+      // Publish once a second rather than on every advertisement
+      discoveryTimerRef.current = setInterval(() => {
+        const now = Date.now();
+        for (const [id, s] of discoveredRef.current) {
+          if (now - s.lastSeen > DISCOVERY_STALE_MS) discoveredRef.current.delete(id);
+        }
+        setSensors([...discoveredRef.current.values()].sort((a, b) => b.rssi - a.rssi));
+      }, 1000);
+    } catch (e: any) {
+      discoveringRef.current = false;
+      setStatus("error");
+      setError(e?.message ?? "Scan failed");
+    }
+  }, [ensureManager, stopDiscovery]);
 
   const connect = useCallback(async () => {
     if (connectInFlightRef.current) return;
+    stopDiscovery();
 
     let cancelled = false;
     connectInFlightRef.current = true;
     setError(null);
     setDevice(null);
+    setSensorInfo(null);
     setStatus("scanning");
 
-    if (!managerRef.current) {
-      try {
-        const m = new BleManager();
-        managerRef.current = m;
-        setManager(m);
-      } catch (e: any) {
-        setStatus("error");
-        setError(e?.message ?? "Failed to init BLE");
-        connectInFlightRef.current = false;
-        return;
-      }
+    const manager = ensureManager();
+    if (!manager) {
+      connectInFlightRef.current = false;
+      return;
     }
 
-    const manager = managerRef.current;
-
     const cleanup = () => {
       if (scanTimeoutRef.current) {
         clearTimeout(scanTimeoutRef.current);
@@ -50,37 +201,14 @@ export function useBleConnectToSensor(sensorName: string, sensorMac?: string | n
     };
 
     try {
-      let state = await manager.state();
-      if (state === State.Unknown) {
-        manager.startDeviceScan(null, null, () => {});
-        await new Promise((r) => setTimeout(r, 2000));
-        await manager.stopDeviceScan();
-        await new Promise((r) => setTimeout(r, 300));
-        state = await manager.state();
-      }
-
-      if (state !== State.PoweredOn && state !== State.Unknown) {
-        state = await new Promise<State>((resolve) => {
-          const t = setTimeout(() => resolve(state), 5000);
-          manager.onStateChange((s) => {
-            if (s === State.PoweredOn) {
-              clearTimeout(t);
-              resolve(s);
-            }
-          });
-        });
-      }
+      const state = await waitForPoweredOn(manager);
 
-      if (cancelled) return;
-      if (state === State.Unsupported || state === State.Unauthorized) {
+      // Discovery took over while Bluetooth was starting up
+      if (cancelled || !connectInFlightRef.current) return;
+      const stateError = bluetoothStateError(state);
+      if (stateError) {
         setStatus("error");
-        setError("Bluetooth not available");
-        connectInFlightRef.current = false;
-        return;
-      }
-      if (state !== State.PoweredOn) {
-        setStatus("error");
-        setError("Bluetooth not powered on");
+        setError(stateError);
         connectInFlightRef.current = false;
         return;
       }
@@ -136,11 +264,14 @@ export function useBleConnectToSensor(sensorName: string, sensorMac?: string | n
                 resolve();
                 return;
               }
+              // Battery and Device Information services, when the firmware has them
+              const info = await readSensorInfo(connected);
               if (cancelled) {
                 await connected.cancelConnection();
                 resolve();
                 return;
               }
+              setSensorInfo(info);
               setDevice(connected);
               setStatus("connected");
             } catch (e: any) {
@@ -151,6 +282,12 @@ export function useBleConnectToSensor(sensorName: string, sensorMac?: string | n
           }
         });
 
+        cancelConnectScanRef.current = () => {
+          cancelled = true;
+          cleanup();
+          resolve();
+        };
+
         scanTimeoutRef.current = setTimeout(() => {
           if (connectInFlightRef.current) {
             connectInFlightRef.current = false;
@@ -163,22 +300,25 @@ export function useBleConnectToSensor(sensorName: string, sensorMac?: string | n
             setError("Sensor not found. Make sure it's on and nearby.");
           }
           resolve();
-        }, 30000);
+        }, scanTimeoutMs);
       });
     } catch (e: any) {
       setStatus("error");
       setError(e?.message ?? "Connection failed");
     } finally {
       connectInFlightRef.current = false;
+      cancelConnectScanRef.current = null;
     }
-  }, [targetName, targetMac]);
+  }, [targetName, targetMac, scanTimeoutMs, ensureManager, stopDiscovery]);
 
   useEffect(() => {
     return () => {
       if (scanTimeoutRef.current) clearTimeout(scanTimeoutRef.current);
+      if (discoveryTimerRef.current) clearInterval(discoveryTimerRef.current);
+      discoveringRef.current = false;
       managerRef.current?.stopDeviceScan().catch(() => {});
     };
   }, []);
 
-  return { device, status, error, connect, manager };
+  return { device, status, error, connect, manager, sensors, sensorInfo, startDiscovery, stopDiscovery };
 }
@@ -0,0 +1,108 @@
+import { useEffect, useRef, useState } from "react";
+
+import {
+  createSensorSession,
+  type SensorDevice,
+  type SensorSessionEvent,
+  type SensorSessionOptions,
+} from "@/utils/sensorSession";
+
+export type SensorSessionStatus = "idle" | "connected" | "error";
+
+export type SensorSessionStats = {
+  sensorReps: number;
+  lastText: string | null;
+  notifyCount: number;
+  lastAtMs: number | null;
+  liveLastText: string | null;
+  liveCount: number;
+  liveLastAtMs: number | null;
+  rejectedCount: number;
+  lastRejectReason: string | null;
+  lastError: string | null;
+};
+
+const initialStats: SensorSessionStats = {
+  sensorReps: 0,
+  lastText: null,
+  notifyCount: 0,
+  lastAtMs: null,
+  liveLastText: null,
+  liveCount: 0,
+  liveLastAtMs: null,
+  rejectedCount: 0,
+  lastRejectReason: null,
+  lastError: null,
+};
+
+/**
+ * Runs a SensorSession for `device` while it is non-null and forwards every event to `onEvent`.
+ * The session is torn down (but the device is not disconnected) when the device changes or on unmount.
+ */
+export function useSensorSession(
+  device: SensorDevice | null,
+  onEvent?: (event: SensorSessionEvent) => void,
+  options?: SensorSessionOptions
+) {
+  const [status, setStatus] = useState<SensorSessionStatus>("idle");
+  const [stats, setStats] = useState<SensorSessionStats>(initialStats);
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  useEffect(() => {
+    if (!device) {
+      setStatus("idle");
+      return;
+    }
+    const session = createSensorSession(device, optionsRef.current);
+    setStatus("connected");
+    setStats((s) => ({ ...s, lastError: null }));
+
+    const unsubscribe = session.subscribe((event) => {
+      switch (event.type) {
+        case "reps-frame":
+          setStats((s) => ({
+            ...s,
+            lastText: event.text,
+            lastAtMs: event.atMs,
+            notifyCount: event.source === "notify" ? s.notifyCount + 1 : s.notifyCount,
+          }));
+          break;
+        case "rep":
+          setStats((s) => ({ ...s, sensorReps: event.sensorReps }));
+          break;
+        case "live":
+          setStats((s) => ({
+            ...s,
+            liveLastText: event.text,
+            liveCount: s.liveCount + 1,
+            liveLastAtMs: event.atMs,
+          }));
+          break;
+        case "rejected":
+          setStats((s) => ({
+            ...s,
+            rejectedCount: s.rejectedCount + 1,
+            lastRejectReason: `${event.characteristic}: ${event.reason}`,
+          }));
+          break;
+        case "error":
+          setStats((s) => ({ ...s, lastError: event.message }));
+          if (event.fatal) setStatus("error");
+          break;
+      }
+      onEventRef.current?.(event);
+    });
+
+    session.start();
+
+    return () => {
+      unsubscribe();
+      session.stop();
+    };
+  }, [device]);
+
+  return { status, ...stats };
+}
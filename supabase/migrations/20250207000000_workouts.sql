@@ -0,0 +1,78 @@
+-- Workout history: one row per finished session, uploaded from the app's local history.
+-- client_id is the id the app generated offline; (user_id, client_id) makes uploads idempotent.
+create table if not exists public.workouts (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  client_id text not null,
+  version int not null default 2,
+  machine_name text not null,
+  target_sets int not null check (target_sets >= 1),
+  target_reps int not null check (target_reps >= 0),
+  duration_sec int check (duration_sec >= 0),
+  completed_at timestamptz not null,
+  updated_at timestamptz not null default now(),
+  created_at timestamptz not null default now(),
+  unique (user_id, client_id)
+);
+
+-- One row per set; reps and telemetry are kept as JSON arrays exactly as the app stores them.
+create table if not exists public.workout_sets (
+  id uuid primary key default gen_random_uuid(),
+  workout_id uuid not null references public.workouts(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  set_index int not null check (set_index >= 0),
+  target_reps int not null check (target_reps >= 0),
+  achieved_reps int not null check (achieved_reps >= 0),
+  rest_before_sec int not null default 0 check (rest_before_sec >= 0),
+  reps jsonb not null default '[]'::jsonb,
+  telemetry jsonb,
+  unique (workout_id, set_index)
+);
+
+-- Indexes for history pulls
+create index if not exists idx_workouts_user_completed_at
+  on public.workouts(user_id, completed_at desc);
+
+create index if not exists idx_workout_sets_workout_id
+  on public.workout_sets(workout_id);
+
+-- RLS: users can only access their own workouts and sets
+alter table public.workouts enable row level security;
+alter table public.workout_sets enable row level security;
+
+create policy "Users can view own workouts"
+  on public.workouts for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert own workouts"
+  on public.workouts for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update own workouts"
+  on public.workouts for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete own workouts"
+  on public.workouts for delete
+  using (auth.uid() = user_id);
+
+create policy "Users can view own workout sets"
+  on public.workout_sets for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert own workout sets"
+  on public.workout_sets for insert
+  with check (
+    auth.uid() = user_id
+    and exists (select 1 from public.workouts w where w.id = workout_id and w.user_id = auth.uid())
+  );
+
+create policy "Users can update own workout sets"
+  on public.workout_sets for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete own workout sets"
+  on public.workout_sets for delete
+  using (auth.uid() = user_id);
@@ -0,0 +1,39 @@
+-- Multi-exercise workouts: a "run my plan" session covers several machines in one record.
+-- Each set row now says which exercise it belongs to; workout-level targets only apply to
+-- single-machine sessions, so they become optional.
+-- plan_exercise_id is a plain reference, not a foreign key: a workout recorded offline keeps the
+-- id of the plan exercise it came from even after that exercise is removed from the plan, and
+-- uploading it must still succeed.
+alter table public.workouts
+  add column if not exists from_plan boolean not null default false,
+  alter column target_sets drop not null,
+  alter column target_reps drop not null,
+  alter column version set default 3;
+
+alter table public.workout_sets
+  add column if not exists exercise_index int not null default 0 check (exercise_index >= 0),
+  add column if not exists machine_name text,
+  add column if not exists plan_exercise_id uuid,
+  add column if not exists exercise_target_sets int check (exercise_target_sets >= 1),
+  add column if not exists exercise_target_reps int check (exercise_target_reps >= 0);
+
+-- Existing rows are single-machine workouts: copy the exercise details down from the parent
+update public.workout_sets s
+set
+  machine_name = w.machine_name,
+  exercise_target_sets = w.target_sets,
+  exercise_target_reps = w.target_reps
+from public.workouts w
+where w.id = s.workout_id and s.machine_name is null;
+
+alter table public.workout_sets
+  alter column machine_name set not null,
+  alter column exercise_target_sets set not null,
+  alter column exercise_target_reps set not null;
+
+alter table public.workout_sets
+  drop constraint if exists workout_sets_workout_id_set_index_key;
+
+alter table public.workout_sets
+  add constraint workout_sets_workout_id_exercise_index_set_index_key
+  unique (workout_id, exercise_index, set_index);
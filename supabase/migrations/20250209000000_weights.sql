@@ -0,0 +1,7 @@
+-- Load tracking: plan exercises carry a starting weight and every workout set records what was
+-- lifted. Values are always kg; the app converts to the user's preferred unit for display.
+alter table public.workout_plan_exercises
+  add column if not exists weight_kg numeric(6,2) check (weight_kg >= 0);
+
+alter table public.workout_sets
+  add column if not exists weight_kg numeric(6,2) check (weight_kg >= 0);
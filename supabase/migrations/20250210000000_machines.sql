@@ -0,0 +1,45 @@
+-- Machine registry: which BLE sensor sits on which machine, managed server-side so gyms can add
+-- or re-tag machines without an app release. The app caches this table for offline use.
+-- id is the value written on the machine's NFC tag (movo://machine?id=<id>).
+create table if not exists public.machines (
+  id text not null,
+  gym_id text not null default 'main',
+  display_name text not null,
+  exercise_type text not null,
+  sensor_name text,
+  sensor_mac text,
+  nfc_tag_id text,
+  active boolean not null default true,
+  updated_at timestamptz not null default now(),
+  primary key (gym_id, id),
+  check (sensor_name is not null or sensor_mac is not null)
+);
+
+create unique index if not exists idx_machines_nfc_tag_id
+  on public.machines(nfc_tag_id)
+  where nfc_tag_id is not null;
+
+-- RLS: any signed-in member can read the registry; writes go through the dashboard / service role
+alter table public.machines enable row level security;
+
+create policy "Signed-in users can view machines"
+  on public.machines for select
+  to authenticated
+  using (true);
+
+-- Seed with the machines the app used to hard-code
+insert into public.machines (id, display_name, exercise_type, sensor_name)
+values
+  ('bench_press_1', 'Bench Press', 'bench_press', 'IMU-STACK'),
+  ('squat_rack_1', 'Squat Rack', 'squat_rack', 'IMU-STACK'),
+  ('leg_press_1', 'Leg Press', 'leg_press', 'IMU-STACK'),
+  ('cable_machine_1', 'Cable Machine', 'cable_machine', 'IMU-STACK'),
+  ('lat_pulldown_1', 'Lat Pulldown', 'lat_pulldown', 'IMU-STACK'),
+  ('shoulder_press_1', 'Shoulder Press', 'shoulder_press', 'IMU-STACK'),
+  ('leg_curl_1', 'Leg Curl', 'leg_curl', 'IMU-STACK'),
+  ('leg_extension_1', 'Leg Extension', 'leg_extension', 'IMU-STACK'),
+  ('chest_fly_1', 'Chest Fly', 'chest_fly', 'IMU-STACK'),
+  ('row_machine_1', 'Row Machine', 'row_machine', 'IMU-STACK'),
+  ('bicep_curl_1', 'Bicep Curl', 'bicep_curl', 'IMU-STACK'),
+  ('tricep_extension_1', 'Tricep Extension', 'tricep_extension', 'IMU-STACK')
+on conflict (gym_id, id) do nothing;
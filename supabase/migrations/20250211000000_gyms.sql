@@ -0,0 +1,34 @@
+-- Multi-gym support: machines belong to a gym, members have a home gym, and each workout
+-- records where it happened. Machine ids (the value on NFC tags) only need to be unique per gym.
+create table if not exists public.gyms (
+  id text primary key,
+  name text not null,
+  city text,
+  active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+insert into public.gyms (id, name)
+values ('main', 'Main Gym')
+on conflict (id) do nothing;
+
+alter table public.machines
+  add constraint machines_gym_id_fkey
+  foreign key (gym_id) references public.gyms(id) on delete cascade;
+
+alter table if exists public.profiles
+  add column if not exists home_gym_id text references public.gyms(id) on delete set null;
+
+alter table public.workouts
+  add column if not exists gym_id text references public.gyms(id) on delete set null;
+
+create index if not exists idx_workouts_user_gym
+  on public.workouts(user_id, gym_id);
+
+-- RLS: any signed-in member can read the gym list
+alter table public.gyms enable row level security;
+
+create policy "Signed-in users can view gyms"
+  on public.gyms for select
+  to authenticated
+  using (true);
@@ -0,0 +1,21 @@
+-- Signed NFC tags: each gym publishes the Ed25519 public keys it signs machine tags with.
+-- Tags carry movo://machine?id=<id>&gym=<gym>&kid=<key_id>&sig=<signature>, where the signature
+-- covers "movo:v1:<gym>:<id>". Private keys stay with the gym; only public keys live here.
+create table if not exists public.gym_signing_keys (
+  gym_id text not null references public.gyms(id) on delete cascade,
+  key_id text not null,
+  -- Raw 32-byte Ed25519 public key, base64url without padding
+  public_key text not null,
+  -- Tags signed with a revoked key are rejected instead of merely unverified
+  revoked boolean not null default false,
+  created_at timestamptz not null default now(),
+  primary key (gym_id, key_id)
+);
+
+-- RLS: public keys are readable by any signed-in member; writes go through the dashboard / service role
+alter table public.gym_signing_keys enable row level security;
+
+create policy "Signed-in users can view gym signing keys"
+  on public.gym_signing_keys for select
+  to authenticated
+  using (true);
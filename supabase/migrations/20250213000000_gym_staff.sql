@@ -0,0 +1,62 @@
+-- Gym staff: users who may provision NFC tags for a gym's machines from the app.
+create table if not exists public.gym_staff (
+  gym_id text not null references public.gyms(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (gym_id, user_id)
+);
+
+create index if not exists idx_gym_staff_user_id
+  on public.gym_staff(user_id);
+
+-- RLS: users can see their own staff rows; membership is managed from the dashboard / service role
+alter table public.gym_staff enable row level security;
+
+create policy "Users can view own staff membership"
+  on public.gym_staff for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+-- Record the hardware id of the tag written for a machine. Staff of the machine's gym only;
+-- a tag moved to another machine of the gym is cleared from the old one first. Tag ids are
+-- unique across gyms, so a tag already on another gym's machine is refused rather than taken.
+create or replace function public.assign_machine_nfc_tag(
+  p_gym_id text,
+  p_machine_id text,
+  p_nfc_tag_id text
+) returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (
+    select 1 from public.gym_staff where gym_id = p_gym_id and user_id = auth.uid()
+  ) then
+    raise exception 'Only staff of this gym can provision its tags';
+  end if;
+
+  if exists (
+    select 1 from public.machines where nfc_tag_id = p_nfc_tag_id and gym_id <> p_gym_id
+  ) then
+    raise exception 'This tag is already assigned to a machine in another gym';
+  end if;
+
+  update public.machines
+  set nfc_tag_id = null, updated_at = now()
+  where gym_id = p_gym_id
+    and nfc_tag_id = p_nfc_tag_id
+    and id <> p_machine_id;
+
+  update public.machines
+  set nfc_tag_id = p_nfc_tag_id, updated_at = now()
+  where gym_id = p_gym_id and id = p_machine_id;
+
+  if not found then
+    raise exception 'Unknown machine %', p_machine_id;
+  end if;
+end;
+$$;
+
+revoke all on function public.assign_machine_nfc_tag(text, text, text) from public;
+grant execute on function public.assign_machine_nfc_tag(text, text, text) to authenticated;
@@ -0,0 +1,96 @@
+-- Sensor status: the latest battery level and firmware each machine's sensor reported, refreshed
+-- by the app whenever a member connects. Lets staff find sensors that are about to run flat.
+create table if not exists public.sensor_status (
+  gym_id text not null,
+  machine_id text not null,
+  device_id text not null,
+  device_name text,
+  battery_percent smallint check (battery_percent between 0 and 100),
+  firmware_revision text,
+  hardware_revision text,
+  model_number text,
+  manufacturer text,
+  reported_by uuid references auth.users(id) on delete set null,
+  reported_at timestamptz not null default now(),
+  primary key (gym_id, machine_id),
+  foreign key (gym_id, machine_id) references public.machines(gym_id, id) on delete cascade
+);
+
+create index if not exists idx_sensor_status_battery
+  on public.sensor_status(gym_id, battery_percent);
+
+-- RLS: staff of the gym can read; writes go through report_sensor_status
+alter table public.sensor_status enable row level security;
+
+create policy "Staff can view their gym's sensor status"
+  on public.sensor_status for select
+  to authenticated
+  using (
+    exists (
+      select 1 from public.gym_staff s
+      where s.gym_id = sensor_status.gym_id and s.user_id = auth.uid()
+    )
+  );
+
+-- Any signed-in member may report what the sensor they connected to says about itself, for a
+-- machine registered at that gym. Members refresh a machine's row at most every few minutes so
+-- one account can't keep overwriting what staff see; staff reports always go through.
+create or replace function public.report_sensor_status(
+  p_gym_id text,
+  p_machine_id text,
+  p_device_id text,
+  p_device_name text,
+  p_battery_percent smallint,
+  p_firmware_revision text,
+  p_hardware_revision text,
+  p_model_number text,
+  p_manufacturer text
+) returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Not signed in';
+  end if;
+
+  if not exists (
+    select 1 from public.machines where gym_id = p_gym_id and id = p_machine_id and active
+  ) then
+    raise exception 'Unknown machine %', p_machine_id;
+  end if;
+
+  if not exists (
+    select 1 from public.gym_staff where gym_id = p_gym_id and user_id = auth.uid()
+  ) and exists (
+    select 1 from public.sensor_status
+    where gym_id = p_gym_id and machine_id = p_machine_id
+      and reported_at > now() - interval '10 minutes'
+  ) then
+    return;
+  end if;
+
+  insert into public.sensor_status (
+    gym_id, machine_id, device_id, device_name, battery_percent, firmware_revision,
+    hardware_revision, model_number, manufacturer, reported_by, reported_at
+  )
+  values (
+    p_gym_id, p_machine_id, p_device_id, p_device_name, p_battery_percent, p_firmware_revision,
+    p_hardware_revision, p_model_number, p_manufacturer, auth.uid(), now()
+  )
+  on conflict (gym_id, machine_id) do update set
+    device_id = excluded.device_id,
+    device_name = excluded.device_name,
+    battery_percent = excluded.battery_percent,
+    firmware_revision = excluded.firmware_revision,
+    hardware_revision = excluded.hardware_revision,
+    model_number = excluded.model_number,
+    manufacturer = excluded.manufacturer,
+    reported_by = excluded.reported_by,
+    reported_at = excluded.reported_at;
+end;
+$$;
+
+revoke all on function public.report_sensor_status(text, text, text, text, smallint, text, text, text, text) from public;
+grant execute on function public.report_sensor_status(text, text, text, text, smallint, text, text, text, text) to authenticated;
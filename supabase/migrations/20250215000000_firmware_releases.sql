@@ -0,0 +1,32 @@
+-- Sensor firmware releases for over-the-air updates. Images live in the private `firmware`
+-- storage bucket; this table lists them with the hash the app checks before sending one.
+create table if not exists public.firmware_releases (
+  id uuid primary key default gen_random_uuid(),
+  version text not null unique,
+  storage_path text not null,
+  sha256 text not null check (sha256 ~ '^[0-9a-fA-F]{64}$'),
+  size_bytes integer not null check (size_bytes > 0),
+  notes text,
+  created_at timestamptz not null default now()
+);
+
+-- RLS: only gym staff can see releases; they are published from the dashboard / service role
+alter table public.firmware_releases enable row level security;
+
+create policy "Staff can view firmware releases"
+  on public.firmware_releases for select
+  to authenticated
+  using (exists (select 1 from public.gym_staff s where s.user_id = auth.uid()));
+
+-- Private bucket for the images; staff can download, nobody can upload from the app
+insert into storage.buckets (id, name, public)
+values ('firmware', 'firmware', false)
+on conflict (id) do nothing;
+
+create policy "Staff can download firmware images"
+  on storage.objects for select
+  to authenticated
+  using (
+    bucket_id = 'firmware'
+    and exists (select 1 from public.gym_staff s where s.user_id = auth.uid())
+  );
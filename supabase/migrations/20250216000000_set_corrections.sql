@@ -0,0 +1,5 @@
+-- Manual corrections: when a member fixes a set's reps or rest by hand, the set keeps what the
+-- app originally counted, e.g. {"countedReps": 11, "countedRestBeforeSec": 90, "undoneReps": 1}.
+-- Null for sets saved as counted.
+alter table public.workout_sets
+  add column if not exists correction jsonb;
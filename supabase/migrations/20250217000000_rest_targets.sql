@@ -0,0 +1,8 @@
+-- Rest targets: each plan exercise carries the rest to take between its sets (0 = no target),
+-- and every workout set records the target it was rested against, so over- and under-rest can
+-- be worked out later. Null for sets done without a target.
+alter table public.workout_plan_exercises
+  add column if not exists rest_sec integer not null default 90 check (rest_sec between 0 and 600);
+
+alter table public.workout_sets
+  add column if not exists rest_target_sec integer check (rest_target_sec >= 0);
@@ -0,0 +1,270 @@
+import { encode as btoa } from "base-64";
+
+import {
+  decodeResponse,
+  DFU_CHUNK_HEADER_LENGTH,
+  DFU_CONTROL_CHAR_UUID,
+  DFU_OPCODE,
+  DFU_STATUS,
+} from "@/utils/firmwareProtocol";
+import {
+  confirmFirmwareUpdate,
+  createFirmwareImage,
+  createFirmwareUpdate,
+  type FirmwareDevice,
+  type FirmwareImage,
+  type FirmwareUpdateEvent,
+} from "@/utils/firmwareUpdate";
+import { DEVICE_INFO_SERVICE, FIRMWARE_REVISION_CHAR } from "@/utils/sensorInfo";
+import { base64ToBytes, bytesToBase64 } from "@/utils/sensorProtocol";
+import type { SensorPeripheral } from "@/utils/sensorTransport";
+
+type Monitor = (error: { message?: string } | null, characteristic: { value: string | null } | null) => void;
+
+type FakeSensorOptions = {
+  /** Bytes of this image the sensor already holds from an interrupted transfer */
+  held?: number;
+  /** Return true to lose the chunk at this offset in transit */
+  drop?: (offset: number, attempt: number) => boolean;
+  /** What Device Information reports after the reboot */
+  firmwareRevision?: string | null;
+  confirmStatus?: number;
+};
+
+/**
+ * Fake IMU-STACK bootloader on the DFU characteristics: keeps chunks that land at its current
+ * offset, drops the rest, and answers control requests the way the firmware does.
+ */
+function createFakeSensor(image: FirmwareImage, options: FakeSensorOptions = {}) {
+  let monitor: Monitor | null = null;
+  let staged = new Uint8Array(0);
+  let stagedHash: string | null = options.held ? image.sha256Hex : null;
+  let received = options.held ?? 0;
+  const chunkOffsets: number[] = [];
+  const requests: number[] = [];
+  const attempts = new Map<number, number>();
+  if (options.held) staged = image.bytes.slice(0, options.held);
+
+  const respond = (opcode: number, status: number, offset?: number) => {
+    const bytes = new Uint8Array(offset === undefined ? 2 : 6);
+    bytes[0] = 0x80 | opcode;
+    bytes[1] = status;
+    if (offset !== undefined) new DataView(bytes.buffer).setUint32(2, offset, true);
+    const value = bytesToBase64(bytes);
+    void Promise.resolve().then(() => monitor?.(null, { value }));
+  };
+
+  const device = {
+    mtu: 23,
+    requestMTU: async () => ({ mtu: 23 }),
+    monitorCharacteristicForService: (_service: string, char: string, listener: Monitor) => {
+      if (char === DFU_CONTROL_CHAR_UUID) monitor = listener;
+      return { remove: () => {} };
+    },
+    writeCharacteristicWithResponseForService: async (_service: string, _char: string, value: string) => {
+      const bytes = base64ToBytes(value);
+      const opcode = bytes[0];
+      requests.push(opcode);
+      if (opcode === DFU_OPCODE.start) {
+        const hash = Array.from(bytes.subarray(5, 37), (b) => b.toString(16).padStart(2, "0")).join("");
+        if (hash !== stagedHash) {
+          stagedHash = hash;
+          staged = new Uint8Array(0);
+          received = 0;
+        }
+        respond(opcode, DFU_STATUS.ok, received);
+      } else if (opcode === DFU_OPCODE.status) {
+        respond(opcode, DFU_STATUS.ok, received);
+      } else if (opcode === DFU_OPCODE.apply) {
+        const complete = received === image.bytes.length && staged.every((b, i) => b === image.bytes[i]);
+        respond(opcode, complete ? DFU_STATUS.ok : DFU_STATUS.hashMismatch);
+      } else if (opcode === DFU_OPCODE.abort) {
+        stagedHash = null;
+        received = 0;
+        respond(opcode, DFU_STATUS.ok);
+      } else if (opcode === DFU_OPCODE.confirm) {
+        respond(opcode, options.confirmStatus ?? DFU_STATUS.ok);
+      }
+      return null;
+    },
+    writeCharacteristicWithoutResponseForService: async (_service: string, _char: string, value: string) => {
+      const bytes = base64ToBytes(value);
+      const offset = new DataView(bytes.buffer).getUint32(0, true);
+      const attempt = (attempts.get(offset) ?? 0) + 1;
+      attempts.set(offset, attempt);
+      chunkOffsets.push(offset);
+      if (options.drop?.(offset, attempt) || offset !== received) return null;
+      const payload = bytes.subarray(DFU_CHUNK_HEADER_LENGTH);
+      const next = new Uint8Array(received + payload.length);
+      next.set(staged);
+      next.set(payload, received);
+      staged = next;
+      received = next.length;
+      return null;
+    },
+    services: async () => (options.firmwareRevision ? [{ uuid: DEVICE_INFO_SERVICE }] : []),
+    readCharacteristicForService: async (_service: string, char: string) => {
+      if (char !== FIRMWARE_REVISION_CHAR || !options.firmwareRevision) throw new Error("Not readable");
+      return { value: btoa(options.firmwareRevision) };
+    },
+  };
+
+  return {
+    device: device as unknown as FirmwareDevice & Pick<SensorPeripheral, "services" | "readCharacteristicForService">,
+    staged: () => staged,
+    chunkOffsets,
+    requests,
+  };
+}
+
+// 23-byte MTU: 3 for the ATT header and 4 for the offset leave 16 image bytes a chunk
+const CHUNK = 16;
+
+function testImage(size: number, version: string | null = "1.4.0"): FirmwareImage {
+  return createFirmwareImage(
+    Uint8Array.from({ length: size }, (_, i) => (i * 7) & 0xff),
+    version ? `v${version}` : "test.bin",
+    version
+  );
+}
+
+async function runUpdate(image: FirmwareImage, sensor: ReturnType<typeof createFakeSensor>) {
+  const update = createFirmwareUpdate(sensor.device, image, { windowChunks: 4 });
+  const events: FirmwareUpdateEvent[] = [];
+  update.subscribe((e) => events.push(e));
+  await update.start();
+  return {
+    events,
+    phases: events.flatMap((e) => (e.type === "phase" ? [e.phase] : [])),
+    errors: events.flatMap((e) => (e.type === "error" ? [e.message] : [])),
+  };
+}
+
+describe("createFirmwareUpdate", () => {
+  it("sends the whole image and applies it", async () => {
+    const image = testImage(200);
+    const sensor = createFakeSensor(image);
+    const { phases } = await runUpdate(image, sensor);
+
+    expect(phases).toEqual(["preparing", "transferring", "applying", "rebooting"]);
+    expect(sensor.staged()).toEqual(image.bytes);
+    expect(sensor.chunkOffsets).toEqual(Array.from({ length: Math.ceil(200 / CHUNK) }, (_, i) => i * CHUNK));
+  });
+
+  it("resumes from the offset the sensor reports for the same image", async () => {
+    const image = testImage(200);
+    const sensor = createFakeSensor(image, { held: 96 });
+    const { events, phases } = await runUpdate(image, sensor);
+
+    expect(phases).toContain("rebooting");
+    expect(sensor.chunkOffsets[0]).toBe(96);
+    expect(events.find((e) => e.type === "progress")).toEqual({
+      type: "progress",
+      sentBytes: 96,
+      totalBytes: 200,
+      resumedFrom: 96,
+    });
+    expect(sensor.staged()).toEqual(image.bytes);
+  });
+
+  it("rewinds to the sensor's offset after dropped chunks", async () => {
+    const image = testImage(200);
+    const sensor = createFakeSensor(image, { drop: (offset, attempt) => offset === 32 && attempt === 1 });
+    const { phases } = await runUpdate(image, sensor);
+
+    expect(phases).toContain("rebooting");
+    // 32 and the chunk after it in the same window are sent again
+    expect(sensor.chunkOffsets.slice(0, 6)).toEqual([0, 16, 32, 48, 32, 48]);
+    expect(sensor.staged()).toEqual(image.bytes);
+  });
+
+  it("gives up when the sensor stops taking chunks", async () => {
+    const image = testImage(200);
+    const sensor = createFakeSensor(image, { drop: (offset) => offset >= 64 });
+    const { phases, errors } = await runUpdate(image, sensor);
+
+    expect(phases).toEqual(["preparing", "transferring", "failed"]);
+    expect(errors).toEqual(["The transfer stopped making progress"]);
+    expect(sensor.requests).not.toContain(DFU_OPCODE.apply);
+    // One window that got to 64, then five that got nowhere
+    expect(sensor.requests.filter((op) => op === DFU_OPCODE.status)).toHaveLength(6);
+  });
+
+  it("tells the sensor to discard the image on abort", async () => {
+    const image = testImage(200);
+    const sensor = createFakeSensor(image);
+    const update = createFirmwareUpdate(sensor.device, image, { windowChunks: 4 });
+    const phases: string[] = [];
+    let aborting: Promise<void> | null = null;
+    update.subscribe((e) => {
+      if (e.type === "phase") phases.push(e.phase);
+      if (e.type === "progress" && e.sentBytes >= 64) aborting ??= update.abort();
+    });
+    await update.start();
+    await aborting;
+
+    expect(phases).toEqual(["preparing", "transferring", "aborted"]);
+    expect(sensor.requests.at(-1)).toBe(DFU_OPCODE.abort);
+    expect(sensor.requests).not.toContain(DFU_OPCODE.apply);
+  });
+});
+
+describe("confirmFirmwareUpdate", () => {
+  it("confirms the new image once it is running", async () => {
+    const image = testImage(64);
+    const sensor = createFakeSensor(image, { firmwareRevision: "1.4.0" });
+    await expect(confirmFirmwareUpdate(sensor.device, image)).resolves.toEqual({
+      status: "confirmed",
+      runningVersion: "1.4.0",
+    });
+    expect(sensor.requests).toEqual([DFU_OPCODE.confirm]);
+  });
+
+  it("reports a rollback when the sensor came back on its old firmware", async () => {
+    const image = testImage(64);
+    const sensor = createFakeSensor(image, { firmwareRevision: "1.3.2" });
+    await expect(confirmFirmwareUpdate(sensor.device, image)).resolves.toEqual({
+      status: "rolled-back",
+      runningVersion: "1.3.2",
+    });
+    // The version already tells, so nothing is sent
+    expect(sensor.requests).toEqual([]);
+  });
+
+  it("reports a rollback when there is no trial image to confirm", async () => {
+    const image = testImage(64, null);
+    const sensor = createFakeSensor(image, { confirmStatus: DFU_STATUS.notStarted });
+    await expect(confirmFirmwareUpdate(sensor.device, image)).resolves.toEqual({
+      status: "rolled-back",
+      runningVersion: null,
+    });
+  });
+});
+
+describe("decodeResponse", () => {
+  it("decodes status and offset", () => {
+    expect(decodeResponse(bytesToBase64(Uint8Array.of(0x82, 0, 0x10, 0x27, 0, 0)))).toEqual({
+      opcode: DFU_OPCODE.status,
+      status: DFU_STATUS.ok,
+      ok: true,
+      error: null,
+      offset: 10000,
+    });
+  });
+
+  it("maps error statuses to messages", () => {
+    expect(decodeResponse(bytesToBase64(Uint8Array.of(0x83, DFU_STATUS.hashMismatch)))).toMatchObject({
+      opcode: DFU_OPCODE.apply,
+      ok: false,
+      error: "Sensor rejected the image: hash mismatch",
+      offset: null,
+    });
+    expect(decodeResponse(bytesToBase64(Uint8Array.of(0x81, 0x42)))?.error).toBe("Sensor error 66");
+  });
+
+  it("ignores values that aren't responses", () => {
+    expect(decodeResponse(bytesToBase64(Uint8Array.of(0x02, 0)))).toBeNull();
+    expect(decodeResponse(bytesToBase64(Uint8Array.of(0x82)))).toBeNull();
+    expect(decodeResponse("%%%")).toBeNull();
+  });
+});
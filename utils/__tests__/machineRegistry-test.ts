@@ -0,0 +1,72 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { getMachine, loadMachineRegistry, type Machine } from "@/utils/machineRegistry";
+import { resolveMachineUri } from "@/utils/machineScan";
+
+jest.mock("@/lib/supabase", () => ({ supabase: null }));
+
+function machine(gymId: string, id: string, sensorMac: string): Machine {
+  return {
+    id,
+    gymId,
+    displayName: id,
+    exerciseType: id.replace(/_\d+$/, ""),
+    sensorName: "IMU-STACK",
+    sensorMac,
+    nfcTagId: null,
+    active: true,
+  };
+}
+
+beforeAll(async () => {
+  await AsyncStorage.setItem(
+    "machineRegistry:v1",
+    JSON.stringify({
+      fetchedAt: Date.now(),
+      machines: [machine("north", "leg_press_1", "AA:01"), machine("south", "bench_press_1", "BB:01")],
+      gyms: [
+        { id: "north", name: "North", city: null },
+        { id: "south", name: "South", city: null },
+      ],
+      signingKeys: [],
+    })
+  );
+  await loadMachineRegistry();
+});
+
+describe("getMachine", () => {
+  it("finds a machine by id, or by exercise type, in the given gym", () => {
+    expect(getMachine("leg_press_1", "north")?.sensorMac).toBe("AA:01");
+    expect(getMachine("Leg_Press_3", "north")?.id).toBe("leg_press_1");
+  });
+
+  it("never resolves to another gym's machine", () => {
+    expect(getMachine("bench_press_1", "north")).toBeNull();
+    expect(getMachine("bench_press", "north")).toBeNull();
+  });
+
+  it("searches every gym when no gym is given", () => {
+    expect(getMachine("bench_press_1")?.gymId).toBe("south");
+  });
+});
+
+describe("resolveMachineUri", () => {
+  it("rejects a tag for a machine the active gym doesn't have", async () => {
+    await expect(resolveMachineUri("movo://machine?id=bench_press_1", "north")).resolves.toEqual({
+      status: "error",
+      message: 'Machine "bench_press_1" isn\'t registered at North',
+    });
+  });
+
+  it("rejects a tag naming a gym that doesn't have the machine", async () => {
+    await expect(resolveMachineUri("movo://machine?id=leg_press_1&gym=south", "north")).resolves.toEqual({
+      status: "error",
+      message: 'Machine "leg_press_1" isn\'t registered at South',
+    });
+  });
+
+  it("resolves the sensor of the gym's own machine", async () => {
+    const resolution = await resolveMachineUri("movo://machine?id=leg_press_1", "north");
+    expect(resolution).toMatchObject({ status: "unverified", machine: { sensor: { mac: "AA:01" } } });
+  });
+});
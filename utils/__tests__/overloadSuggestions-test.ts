@@ -0,0 +1,106 @@
+import { suggestNextSession } from "@/utils/overloadSuggestions";
+import type { RepMetrics } from "@/utils/repTelemetry";
+import { WORKOUT_VERSION, type Workout, type WorkoutSet } from "@/utils/workoutStorage";
+
+const MACHINE = "Leg Press";
+
+type SessionSpec = {
+  reps: number;
+  achieved: number[];
+  weightKg?: number;
+  restSec?: number;
+  /** Peak velocity per set, for sessions with telemetry */
+  velocity?: number[];
+};
+
+let day = 0;
+
+function session({ reps, achieved, weightKg, restSec = 90, velocity }: SessionSpec): Workout {
+  day += 1;
+  const sets: WorkoutSet[] = achieved.map((a, i) => ({
+    targetReps: reps,
+    achievedReps: a,
+    reps: [],
+    restBeforeSec: i === 0 ? 0 : restSec,
+    weightKg,
+    telemetry: velocity ? [{ rep: 1, peakVelocityMps: velocity[i] } as RepMetrics] : undefined,
+  }));
+  return {
+    version: WORKOUT_VERSION,
+    id: `w${day}`,
+    userId: "u1",
+    completedAt: new Date(Date.UTC(2025, 0, day)).toISOString(),
+    exercises: [{ machineName: MACHINE, targetSets: achieved.length, targetReps: reps, sets }],
+  };
+}
+
+/** Sessions oldest first; the last one is "last time". */
+const suggest = (...sessions: SessionSpec[]) => suggestNextSession(sessions.map(session), MACHINE);
+
+describe("suggestNextSession", () => {
+  it("has nothing to say without history on the machine", () => {
+    expect(suggestNextSession([session({ reps: 10, achieved: [10] })], "Chest Fly")).toBeNull();
+  });
+
+  it("deloads the weight after two sessions of missed targets", () => {
+    const s = suggest({ reps: 10, achieved: [7, 6, 5], weightKg: 100 }, { reps: 10, achieved: [7, 6, 6], weightKg: 100 });
+    expect(s).toMatchObject({ sets: 3, reps: 10, weightKg: 90 });
+  });
+
+  it("drops reps instead when a bodyweight exercise keeps missing", () => {
+    const s = suggest({ reps: 12, achieved: [8, 7, 6] }, { reps: 12, achieved: [8, 7, 7] });
+    expect(s).toMatchObject({ sets: 3, reps: 10, weightKg: null });
+  });
+
+  it("holds after a single miss or an almost complete session", () => {
+    expect(suggest({ reps: 10, achieved: [7, 6, 6], weightKg: 60 })).toMatchObject({ sets: 3, reps: 10, weightKg: 60 });
+    expect(suggest({ reps: 10, achieved: [10, 10, 9], weightKg: 60 })).toMatchObject({
+      sets: 3,
+      reps: 10,
+      weightKg: 60,
+    });
+  });
+
+  it("holds when bar speed fell off across the sets", () => {
+    const s = suggest({ reps: 10, achieved: [10, 10, 10], weightKg: 60, velocity: [0.6, 0.5, 0.35] });
+    expect(s).toMatchObject({ sets: 3, reps: 10, weightKg: 60 });
+    expect(s?.reasons[0]).toMatch(/bar speed fell 42%/);
+  });
+
+  it("holds when the rests were long", () => {
+    const s = suggest({ reps: 10, achieved: [10, 10, 10], weightKg: 60, restSec: 240 });
+    expect(s).toMatchObject({ sets: 3, reps: 10, weightKg: 60 });
+    expect(s?.reasons[0]).toMatch(/rests averaged 4:00/);
+  });
+
+  it("adds a rep per set below the top of the range", () => {
+    expect(suggest({ reps: 8, achieved: [8, 8, 8], weightKg: 60 })).toMatchObject({ sets: 3, reps: 9, weightKg: 60 });
+  });
+
+  it("adds load and drops reps at the top of the range", () => {
+    expect(suggest({ reps: 12, achieved: [12, 12, 12], weightKg: 60 })).toMatchObject({
+      sets: 3,
+      reps: 8,
+      weightKg: 62.5,
+    });
+  });
+
+  it("jumps two steps after a fast, easy session", () => {
+    const s = suggest({ reps: 12, achieved: [12, 12, 12], weightKg: 60, velocity: [0.6, 0.6, 0.58] });
+    expect(s).toMatchObject({ reps: 8, weightKg: 65 });
+  });
+
+  it("adds a rep per set to bodyweight work below the cap", () => {
+    expect(suggest({ reps: 10, achieved: [10, 10, 10] })).toMatchObject({ sets: 3, reps: 11, weightKg: null });
+  });
+
+  it("adds a bodyweight set at the cap without losing total reps", () => {
+    const s = suggest({ reps: 15, achieved: [15, 15, 15] });
+    expect(s).toMatchObject({ sets: 4, reps: 12, weightKg: null });
+    expect(s!.sets * s!.reps).toBeGreaterThan(3 * 15);
+  });
+
+  it("keeps adding reps once bodyweight work is at the most sets", () => {
+    expect(suggest({ reps: 15, achieved: [15, 15, 15, 15, 15] })).toMatchObject({ sets: 5, reps: 16 });
+  });
+});
@@ -0,0 +1,89 @@
+import { createRepDetector, DEFAULT_REP_DETECTOR_CONFIG, detectReps } from "@/utils/repDetector";
+import type { TimedSample } from "@/utils/repTelemetry";
+import { decodeLiveValue } from "@/utils/sensorProtocol";
+import { parseSessionRecording } from "@/utils/sessionRecorder";
+import { MACHINE_REP_DETECTION } from "@/utils/nfcSensorMap";
+
+jest.mock("@/utils/machineRegistry", () => ({ getMachine: () => null }));
+
+/**
+ * Fixtures are live streams at 25 Hz in the session recording format (sessionRecorder.ts), so
+ * they go through the wire decoder like a replayed session: one per machine profile with a known
+ * number of reps at that machine's travel and tempo, a bench press set that slows towards failure,
+ * and one of the stack left alone. A capture exported from Diagnostics can be dropped in next to them.
+ */
+const EXPECTED_REPS: Record<string, number> = {
+  squat_rack: 6,
+  leg_press: 6,
+  bench_press: 6,
+  bicep_curl: 8,
+  tricep_extension: 8,
+  leg_curl: 8,
+  leg_extension: 8,
+};
+
+function loadSamples(name: string): TimedSample[] {
+  const text = JSON.stringify(require(`./fixtures/${name}.json`));
+  const recording = parseSessionRecording(text);
+  if (!recording) throw new Error(`${name}.json is not a session recording`);
+  return recording.frames.flatMap((f) => {
+    const decoded = decodeLiveValue(f.raw);
+    return decoded.ok && decoded.frame.type === "live" ? [{ atMs: f.offsetMs, sample: decoded.frame.sample }] : [];
+  });
+}
+
+describe("repDetector", () => {
+  it("has a fixture for every machine profile", () => {
+    expect(Object.keys(EXPECTED_REPS).sort()).toEqual(Object.keys(MACHINE_REP_DETECTION).sort());
+  });
+
+  it.each(Object.keys(MACHINE_REP_DETECTION))("counts the reps in the %s recording", (machine) => {
+    const detections = detectReps(loadSamples(machine), MACHINE_REP_DETECTION[machine].detector);
+    expect(detections).toHaveLength(EXPECTED_REPS[machine]);
+    expect(detections.map((d) => d.rep)).toEqual(detections.map((_, i) => i + 1));
+  });
+
+  it("keeps counting as reps slow down near failure", () => {
+    // Bench press slowing a few percent a rep, then a pause at lockout and a grinding last rep
+    const detections = detectReps(loadSamples("bench_press_fatigue"), MACHINE_REP_DETECTION.bench_press.detector);
+    expect(detections).toHaveLength(7);
+    const peaks = detections.map((d) => d.peakVelocityMps);
+    expect(peaks[6]).toBeLessThan(peaks[0] * 0.45);
+    expect(peaks[6]).toBeLessThan(peaks[5] * DEFAULT_REP_DETECTOR_CONFIG.minPeakRatio);
+  });
+
+  it("counts nothing while the stack is left alone", () => {
+    expect(detectReps(loadSamples("resting"))).toHaveLength(0);
+  });
+
+  it("reports movement only while a rep is under way", () => {
+    const detector = createRepDetector(MACHINE_REP_DETECTION.bench_press.detector);
+    const resting = loadSamples("resting");
+    resting.forEach((s) => detector.push(s));
+    expect(detector.isMoving()).toBe(false);
+
+    detector.reset();
+    let movedAtMs: number | null = null;
+    let firstRepAtMs: number | null = null;
+    for (const s of loadSamples("bench_press")) {
+      const detection = detector.push(s);
+      if (movedAtMs === null && detector.isMoving()) movedAtMs = s.atMs;
+      if (detection && firstRepAtMs === null) firstRepAtMs = detection.atMs;
+    }
+    expect(movedAtMs).not.toBeNull();
+    expect(firstRepAtMs).not.toBeNull();
+    expect(movedAtMs!).toBeLessThan(firstRepAtMs!);
+    expect(detector.isMoving()).toBe(false);
+  });
+
+  it("starts counting again from one after a reset", () => {
+    const detector = createRepDetector();
+    const samples = loadSamples("bicep_curl");
+    samples.forEach((s) => detector.push(s));
+    expect(detector.getCount()).toBe(8);
+    detector.reset();
+    expect(detector.getCount()).toBe(0);
+    const again = samples.map((s) => detector.push(s)).filter(Boolean);
+    expect(again[0]?.rep).toBe(1);
+  });
+});
@@ -0,0 +1,133 @@
+import { encode as btoa } from "base-64";
+
+import {
+  base64ToBytes,
+  bytesToBase64,
+  crc8,
+  decodeLiveValue,
+  decodeRepsValue,
+  encodeLiveFrame,
+  encodeRepFrame,
+} from "@/utils/sensorProtocol";
+
+/** Re-encode a frame after `change` edits its bytes; `fixCrc` recomputes the checksum afterwards. */
+function edit(frame: string, change: (bytes: Uint8Array) => Uint8Array | void, fixCrc = false): string {
+  const bytes = base64ToBytes(frame);
+  const out = change(bytes) ?? bytes;
+  if (fixCrc) out[out.length - 1] = crc8(out, out.length - 1);
+  return bytesToBase64(out);
+}
+
+const sample = { ax: 0.12, ay: -0.5, az: 1.01, gx: 12.3, gy: -4.5, gz: 0 };
+
+describe("decodeRepsValue", () => {
+  it("decodes a binary rep frame", () => {
+    expect(decodeRepsValue(encodeRepFrame(7, 123456, 42))).toEqual({
+      ok: true,
+      frame: { type: "rep", version: 1, seq: 7, timestampMs: 123456, repIndex: 42 },
+    });
+  });
+
+  it("reads rep indexes above int16 as unsigned", () => {
+    const result = decodeRepsValue(encodeRepFrame(0, 0, 65000));
+    expect(result.ok && result.frame.repIndex).toBe(65000);
+  });
+
+  it("decodes a legacy REPS text frame", () => {
+    expect(decodeRepsValue(btoa("REPS:12"))).toEqual({
+      ok: true,
+      frame: { type: "rep", version: 0, seq: null, timestampMs: null, repIndex: 12 },
+    });
+  });
+
+  it("rejects a frame with a bad checksum", () => {
+    const frame = edit(encodeRepFrame(1, 100, 3), (b) => {
+      b[b.length - 1] ^= 0xff;
+    });
+    expect(decodeRepsValue(frame)).toEqual({ ok: false, reason: "Checksum mismatch" });
+  });
+
+  it("rejects a corrupted payload", () => {
+    const frame = edit(encodeRepFrame(1, 100, 3), (b) => {
+      b[9] ^= 0x01;
+    });
+    expect(decodeRepsValue(frame).ok).toBe(false);
+  });
+
+  it("rejects an unknown protocol version", () => {
+    const frame = edit(
+      encodeRepFrame(1, 100, 3),
+      (b) => {
+        b[1] = 2;
+      },
+      true
+    );
+    expect(decodeRepsValue(frame)).toEqual({ ok: false, reason: "Unsupported version 2" });
+  });
+
+  it("rejects a rep frame with the wrong payload length", () => {
+    const frame = edit(encodeRepFrame(1, 100, 3), (b) => Uint8Array.from([...b.slice(0, -1), 0, 0]), true);
+    expect(decodeRepsValue(frame)).toEqual({ ok: false, reason: "Bad rep payload length" });
+  });
+
+  it("rejects a frame cut short in transit", () => {
+    const frame = edit(encodeRepFrame(1, 100, 3), (b) => b.slice(0, 6));
+    expect(decodeRepsValue(frame)).toEqual({ ok: false, reason: "Frame too short" });
+  });
+
+  it("rejects truncated base64", () => {
+    const frame = encodeRepFrame(1, 100, 3);
+    expect(decodeRepsValue(frame.slice(0, frame.length - 3))).toEqual({ ok: false, reason: "Invalid base64" });
+  });
+
+  it("doesn't take other legacy status text for a rep count", () => {
+    expect(decodeRepsValue(btoa("BATT 87")).ok).toBe(false);
+    expect(decodeRepsValue(btoa("12")).ok).toBe(false);
+  });
+
+  it("rejects a live frame on the reps characteristic", () => {
+    expect(decodeRepsValue(encodeLiveFrame(1, 100, sample)).ok).toBe(false);
+  });
+});
+
+describe("decodeLiveValue", () => {
+  it("decodes a binary live frame", () => {
+    const result = decodeLiveValue(encodeLiveFrame(3, 2000, sample));
+    expect(result).toEqual({ ok: true, frame: { type: "live", version: 1, seq: 3, timestampMs: 2000, sample } });
+  });
+
+  it("decodes a legacy comma separated frame", () => {
+    const result = decodeLiveValue(btoa("0.1,0.2,0.98,1.5,-2,0"));
+    expect(result).toEqual({
+      ok: true,
+      frame: {
+        type: "live",
+        version: 0,
+        seq: null,
+        timestampMs: null,
+        sample: { ax: 0.1, ay: 0.2, az: 0.98, gx: 1.5, gy: -2, gz: 0 },
+      },
+    });
+  });
+
+  it("rejects a live frame with the wrong payload length", () => {
+    const frame = edit(encodeLiveFrame(1, 100, sample), (b) => Uint8Array.from([...b.slice(0, -3), 0]), true);
+    expect(decodeLiveValue(frame)).toEqual({ ok: false, reason: "Bad live payload length" });
+  });
+
+  it("rejects a bad checksum", () => {
+    const frame = edit(encodeLiveFrame(1, 100, sample), (b) => {
+      b[12] ^= 0x10;
+    });
+    expect(decodeLiveValue(frame)).toEqual({ ok: false, reason: "Checksum mismatch" });
+  });
+
+  it("rejects legacy text that isn't six numbers", () => {
+    expect(decodeLiveValue(btoa("BATT 87")).ok).toBe(false);
+    expect(decodeLiveValue(btoa("0.1,0.2,x,1,2,3")).ok).toBe(false);
+  });
+
+  it("rejects a rep frame on the live characteristic", () => {
+    expect(decodeLiveValue(encodeRepFrame(1, 100, 3)).ok).toBe(false);
+  });
+});
@@ -0,0 +1,108 @@
+import { encodeRepFrame } from "@/utils/sensorProtocol";
+import {
+  CHAR_UUID,
+  createSensorSession,
+  SERVICE_UUID,
+  type SensorDevice,
+  type SensorSessionEvent,
+  type SensorSessionOptions,
+} from "@/utils/sensorSession";
+
+type Monitor = (error: Error | null, characteristic: { value: string | null } | null) => void;
+
+/** Fake peripheral with the reps characteristic only; the test decides what the initial read returns. */
+function createFakeDevice(initialRepIndex: number | null) {
+  let seq = 0;
+  let notify: Monitor | null = null;
+  let resolveRead: ((value: { value: string | null }) => void) | null = null;
+  let readCount = 0;
+
+  const frame = (repIndex: number) => encodeRepFrame(seq++, seq * 100, repIndex);
+
+  const device = {
+    services: async () => [{ uuid: SERVICE_UUID, characteristics: async () => [{ uuid: CHAR_UUID }] }],
+    monitorCharacteristicForService: (_service: string, _char: string, listener: Monitor) => {
+      notify = listener;
+      return { remove: () => {} };
+    },
+    readCharacteristicForService: () => {
+      readCount += 1;
+      // Only the first (initial) read is held back; polls never fire in these tests
+      if (readCount > 1) return Promise.resolve({ value: null });
+      return new Promise<{ value: string | null }>((resolve) => {
+        resolveRead = resolve;
+      });
+    },
+    cancelConnection: async () => {},
+  } as unknown as SensorDevice;
+
+  return {
+    device,
+    notify: (repIndex: number) => notify?.(null, { value: frame(repIndex) }),
+    finishInitialRead: () => resolveRead?.({ value: initialRepIndex === null ? null : frame(initialRepIndex) }),
+  };
+}
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+async function startSession(initialRepIndex: number | null, options: SensorSessionOptions = {}) {
+  const fake = createFakeDevice(initialRepIndex);
+  const session = createSensorSession(fake.device, { pollIntervalMs: 60_000, ...options });
+  const reps: number[] = [];
+  session.subscribe((event: SensorSessionEvent) => {
+    if (event.type === "rep") reps.push(event.delta);
+  });
+  const started = session.start();
+  await flush();
+  return { ...fake, session, reps, started };
+}
+
+describe("createSensorSession", () => {
+  it("takes the initial read as the baseline", async () => {
+    const s = await startSession(1200);
+    s.finishInitialRead();
+    await s.started;
+    s.notify(1201);
+    s.notify(1203);
+    expect(s.reps).toEqual([1, 2]);
+    expect(s.session.getSensorReps()).toBe(1203);
+    s.session.stop();
+  });
+
+  it("uses a notify that arrives before the initial read as the baseline", async () => {
+    const s = await startSession(1200);
+    s.notify(1200);
+    s.finishInitialRead();
+    await s.started;
+    s.notify(1201);
+    expect(s.reps).toEqual([1]);
+    s.session.stop();
+  });
+
+  it("counts from zero when the sensor restarts its count", async () => {
+    const s = await startSession(40);
+    s.finishInitialRead();
+    await s.started;
+    s.notify(2);
+    expect(s.reps).toEqual([2]);
+    s.session.stop();
+  });
+
+  it("carries the count across the uint16 wrap", async () => {
+    const s = await startSession(65534);
+    s.finishInitialRead();
+    await s.started;
+    s.notify(1);
+    expect(s.reps).toEqual([3]);
+    s.session.stop();
+  });
+
+  it("emits reps counted while disconnected when resuming", async () => {
+    const s = await startSession(15, { resumeFromSensorReps: 12 });
+    s.finishInitialRead();
+    await s.started;
+    s.notify(16);
+    expect(s.reps).toEqual([3, 1]);
+    s.session.stop();
+  });
+});
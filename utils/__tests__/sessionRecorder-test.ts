@@ -0,0 +1,182 @@
+import { encodeRepFrame } from "@/utils/sensorProtocol";
+import { createSensorSession, SERVICE_UUID, type SensorSessionEvent } from "@/utils/sensorSession";
+import {
+  getSessionRecording,
+  parseSessionRecording,
+  recordingToScenario,
+  recordSessionFrame,
+  startSessionRecording,
+  type RecordedFrame,
+  type SessionRecording,
+} from "@/utils/sessionRecorder";
+import { createSimulatedTransport, type SimulatedScenario } from "@/utils/simulatedSensor";
+import type { SensorPeripheral, SensorTransport } from "@/utils/sensorTransport";
+
+/** Scan until the simulated sensor advertises, then connect to it. */
+async function connect(transport: SensorTransport): Promise<SensorPeripheral> {
+  let found: SensorPeripheral | null = null;
+  await transport.startDeviceScan([SERVICE_UUID], null, (_error, device) => {
+    found ??= device;
+  });
+  for (let waited = 0; !found && waited < 15_000; waited += 500) await jest.advanceTimersByTimeAsync(500);
+  await transport.stopDeviceScan();
+  if (!found) throw new Error("Simulated sensor not found");
+  const connecting = (found as SensorPeripheral).connect();
+  await jest.advanceTimersByTimeAsync(300);
+  return connecting;
+}
+
+/**
+ * Run sessions on a scenario for `durationMs`, reconnecting whenever the sensor drops like the
+ * session screen does, and return the rep deltas in order.
+ */
+async function runScenario(
+  scenario: SimulatedScenario,
+  durationMs: number,
+  onEvent?: (event: SensorSessionEvent) => void
+): Promise<number[]> {
+  const transport = createSimulatedTransport(scenario);
+  const deltas: number[] = [];
+  let resumeFrom: number | null = null;
+  let elapsed = 0;
+  while (elapsed < durationMs) {
+    const session = createSensorSession(await connect(transport), { resumeFromSensorReps: resumeFrom });
+    let dropped = false;
+    session.subscribe((e) => {
+      onEvent?.(e);
+      if (e.type === "rep") deltas.push(e.delta);
+      if (e.type === "error") dropped = true;
+    });
+    void session.start();
+    for (; !dropped && elapsed < durationMs; elapsed += 100) await jest.advanceTimersByTimeAsync(100);
+    resumeFrom = session.getSensorReps();
+    session.stop();
+  }
+  await transport.destroy();
+  return deltas;
+}
+
+function recording(frames: RecordedFrame[], disconnects: number[] = []): SessionRecording {
+  return {
+    format: "movu-sensor-session",
+    version: 1,
+    recordedAt: "2026-03-02T18:00:00.000Z",
+    machine: "leg_press_1",
+    sensor: { id: null, name: "IMU-STACK", firmwareRevision: "1.4.0" },
+    disconnects,
+    frames,
+    truncated: false,
+  };
+}
+
+const repsFrame = (offsetMs: number, source: RecordedFrame["source"], repIndex: number): RecordedFrame => ({
+  offsetMs,
+  characteristic: "reps",
+  source,
+  raw: encodeRepFrame(repIndex, offsetMs, repIndex),
+});
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe("session recording replay", () => {
+  it("replays a recorded session with the same rep deltas", async () => {
+    const source: SimulatedScenario = {
+      id: "source",
+      label: "Source",
+      description: "Reps either side of a dropped connection",
+      steps: [
+        { type: "rest", durationMs: 500 },
+        { type: "reps", count: 3, periodMs: 600 },
+        { type: "malformed", count: 2, characteristic: "reps" },
+        { type: "disconnect", downMs: 1500 },
+        { type: "reps", count: 2, periodMs: 600 },
+        { type: "rest", durationMs: 1000 },
+      ],
+    };
+    let droppedAt = 0;
+    startSessionRecording("leg_press_1");
+    const startedAt = Date.now();
+    const recorded = await runScenario(source, 10_000, (e) => {
+      recordSessionFrame(e);
+      if (e.type === "error") droppedAt = e.atMs;
+    });
+
+    const file = JSON.stringify(getSessionRecording());
+    const parsed = parseSessionRecording(file)!;
+    expect(parsed.disconnects).toEqual([droppedAt - startedAt]);
+
+    const scenario = recordingToScenario(parsed);
+    expect(scenario.steps.map((s) => s.type)).toEqual(["replay", "disconnect", "replay"]);
+    expect(recorded).toEqual([1, 1, 1, 1, 1]);
+    expect(await runScenario(scenario, 10_000)).toEqual(recorded);
+  });
+
+  it("counts a rep only a poll saw once, where the recording saw it", async () => {
+    // The notify for rep 13 was lost; the session picked it up by polling
+    const scenario = recordingToScenario(
+      recording([
+        repsFrame(0, "initial", 10),
+        repsFrame(100, "notify", 11),
+        repsFrame(200, "notify", 12),
+        repsFrame(300, "poll", 13),
+        repsFrame(400, "notify", 14),
+        repsFrame(1000, "poll", 14),
+      ])
+    );
+    const events: SensorSessionEvent[] = [];
+    const deltas = await runScenario(scenario, 3000, (e) => events.push(e));
+
+    expect(deltas).toEqual([1, 1, 1, 1]);
+    expect(events.some((e) => e.type === "rejected")).toBe(false);
+  });
+});
+
+describe("parseSessionRecording", () => {
+  it("reads back an exported recording, in order", () => {
+    const rec = recording([repsFrame(200, "notify", 2), repsFrame(0, "initial", 1)], [900, 300]);
+    const parsed = parseSessionRecording(JSON.stringify(rec));
+    expect(parsed?.frames.map((f) => f.offsetMs)).toEqual([0, 200]);
+    expect(parsed?.disconnects).toEqual([300, 900]);
+    expect(parsed?.sensor).toEqual(rec.sensor);
+  });
+
+  it("refuses files it can't replay", () => {
+    const rec = recording([repsFrame(0, "initial", 1)]);
+    expect(parseSessionRecording("not json")).toBeNull();
+    expect(parseSessionRecording(JSON.stringify({ ...rec, format: "other" }))).toBeNull();
+    expect(parseSessionRecording(JSON.stringify({ ...rec, version: 2 }))).toBeNull();
+    const withFrame = (change: object) => JSON.stringify({ ...rec, frames: [{ ...rec.frames[0], ...change }] });
+    expect(parseSessionRecording(withFrame({ source: "guess" }))).toBeNull();
+    expect(parseSessionRecording(withFrame({ offsetMs: -1 }))).toBeNull();
+  });
+});
+
+describe("recordingToScenario", () => {
+  it("drops the connection where the recording did", () => {
+    const scenario = recordingToScenario(
+      recording(
+        [
+          repsFrame(0, "initial", 1),
+          repsFrame(500, "notify", 2),
+          repsFrame(4000, "initial", 2),
+          repsFrame(60_000, "notify", 3),
+        ],
+        [1000, 30_000]
+      )
+    );
+    expect(scenario.steps).toEqual([
+      { type: "replay", frames: [repsFrame(0, "initial", 1), repsFrame(500, "notify", 2)] },
+      { type: "disconnect", downMs: 3000 },
+      { type: "replay", frames: [{ ...repsFrame(4000, "initial", 2), offsetMs: 0 }] },
+      // The sensor comes back sooner than it did in the session
+      { type: "disconnect", downMs: 10_000 },
+      { type: "replay", frames: [{ ...repsFrame(60_000, "notify", 3), offsetMs: 0 }] },
+    ]);
+  });
+});
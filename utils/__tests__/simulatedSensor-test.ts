@@ -0,0 +1,82 @@
+import { createSensorSession, SERVICE_UUID, type SensorSessionEvent } from "@/utils/sensorSession";
+import { createSimulatedTransport, type SimulatedScenario } from "@/utils/simulatedSensor";
+import type { SensorPeripheral, SensorTransport } from "@/utils/sensorTransport";
+
+const scenario: SimulatedScenario = {
+  id: "ci",
+  label: "CI",
+  description: "Reps around malformed frames and a dropped connection",
+  steps: [
+    { type: "rest", durationMs: 1000 },
+    { type: "reps", count: 3, periodMs: 600 },
+    { type: "malformed", count: 4 },
+    { type: "malformed", count: 2, characteristic: "reps" },
+    { type: "reps", count: 2, periodMs: 600 },
+    { type: "disconnect", downMs: 2000 },
+    { type: "reps", count: 4, periodMs: 600 },
+  ],
+};
+
+/** Scan for the simulated sensor and connect, the way the connecting screen does. */
+async function connect(transport: SensorTransport): Promise<SensorPeripheral> {
+  let found: SensorPeripheral | null = null;
+  await transport.startDeviceScan([SERVICE_UUID], null, (_error, device) => {
+    found = device;
+  });
+  await jest.advanceTimersByTimeAsync(500);
+  await transport.stopDeviceScan();
+  if (!found) throw new Error("Simulated sensor not found");
+  const connecting = (found as SensorPeripheral).connect();
+  await jest.advanceTimersByTimeAsync(300);
+  return connecting;
+}
+
+function startSession(device: SensorPeripheral, resumeFromSensorReps: number | null) {
+  const events: SensorSessionEvent[] = [];
+  const session = createSensorSession(device, { resumeFromSensorReps });
+  session.subscribe((e) => events.push(e));
+  void session.start();
+  return { session, events };
+}
+
+const repsOf = (events: SensorSessionEvent[]) =>
+  events.reduce((sum, e) => sum + (e.type === "rep" ? e.delta : 0), 0);
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe("createSimulatedTransport", () => {
+  it("counts every scripted rep through malformed frames and a reconnect", async () => {
+    const transport = createSimulatedTransport(scenario);
+
+    const first = startSession(await connect(transport), null);
+    await jest.advanceTimersByTimeAsync(10_000);
+
+    // The session ends on the dropped connection with the reps before it counted
+    expect(repsOf(first.events)).toBe(5);
+    expect(first.events.flatMap((e) => (e.type === "rejected" ? [e.characteristic] : []))).toEqual([
+      "live",
+      "live",
+      "live",
+      "live",
+      "reps",
+      "reps",
+    ]);
+    expect(first.events.at(-1)).toMatchObject({ type: "error", fatal: true });
+
+    // Back up again, the sensor picks up the script where it left off
+    const second = startSession(await connect(transport), first.session.getSensorReps());
+    await jest.advanceTimersByTimeAsync(10_000);
+
+    expect(repsOf(second.events)).toBe(4);
+    expect(second.session.getSensorReps()).toBe(9);
+
+    second.session.stop();
+    await transport.destroy();
+  });
+});
@@ -0,0 +1,132 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { ed25519 } from "@noble/curves/ed25519";
+import { encode as btoa } from "base-64";
+
+import { loadMachineRegistry } from "@/utils/machineRegistry";
+import type { MachineTag } from "@/utils/nfcSensorMap";
+import { findSigningKeyId, signMachineTag, verifyMachineTag } from "@/utils/tagSignature";
+
+jest.mock("@/lib/supabase", () => ({ supabase: null }));
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+/** Deterministic seeds so the tests don't depend on a random source. */
+function keyPair(fill: number) {
+  const seed = new Uint8Array(32).fill(fill);
+  return { privateKey: toBase64Url(seed), publicKey: toBase64Url(ed25519.getPublicKey(seed)) };
+}
+
+const north = keyPair(1);
+const northOld = keyPair(2);
+const south = keyPair(3);
+
+function tag(machineId: string, gymId: string | null, keyId: string | null, signature: string | null): MachineTag {
+  return { machineId, gymId, keyId, signature };
+}
+
+beforeAll(async () => {
+  await AsyncStorage.setItem(
+    "machineRegistry:v1",
+    JSON.stringify({
+      fetchedAt: Date.now(),
+      // The cache is only taken with machines in it
+      machines: [
+        {
+          id: "leg_press_1",
+          gymId: "north",
+          displayName: "Leg Press",
+          exerciseType: "leg_press",
+          sensorName: "IMU-STACK",
+          sensorMac: null,
+          nfcTagId: null,
+          active: true,
+        },
+      ],
+      signingKeys: [
+        { gymId: "north", keyId: "n2", publicKey: north.publicKey, revoked: false },
+        { gymId: "north", keyId: "n1", publicKey: northOld.publicKey, revoked: true },
+        { gymId: "south", keyId: "s1", publicKey: south.publicKey, revoked: false },
+      ],
+    })
+  );
+  await loadMachineRegistry();
+});
+
+describe("verifyMachineTag", () => {
+  const signature = signMachineTag("leg_press_1", "north", north.privateKey)!;
+
+  it("verifies a tag signed with the gym's key", () => {
+    expect(verifyMachineTag(tag("leg_press_1", "north", "n2", signature))).toEqual({
+      status: "verified",
+      keyId: "n2",
+    });
+    // Older tags don't say which key signed them
+    expect(verifyMachineTag(tag("leg_press_1", "north", null, signature))).toEqual({
+      status: "verified",
+      keyId: "n2",
+    });
+  });
+
+  it("rejects a tag whose machine id was changed", () => {
+    expect(verifyMachineTag(tag("bench_press_1", "north", "n2", signature))).toEqual({
+      status: "invalid",
+      reason: "Signature does not match",
+    });
+  });
+
+  it("rejects a signature moved to another gym's tag", () => {
+    expect(verifyMachineTag(tag("leg_press_1", "south", "s1", signature)).status).toBe("invalid");
+  });
+
+  it("rejects a tag signed with another gym's key", () => {
+    const forged = signMachineTag("leg_press_1", "north", south.privateKey)!;
+    expect(verifyMachineTag(tag("leg_press_1", "north", null, forged)).status).toBe("invalid");
+    expect(verifyMachineTag(tag("leg_press_1", "north", "n2", forged)).status).toBe("invalid");
+  });
+
+  it("rejects a tag signed with a revoked key", () => {
+    const old = signMachineTag("leg_press_1", "north", northOld.privateKey)!;
+    expect(verifyMachineTag(tag("leg_press_1", "north", "n1", old))).toEqual({
+      status: "invalid",
+      reason: "Signed with a revoked key",
+    });
+  });
+
+  it("can't check a key id the gym hasn't published (yet)", () => {
+    expect(verifyMachineTag(tag("leg_press_1", "north", "n3", signature))).toEqual({ status: "unknown-key" });
+    expect(verifyMachineTag(tag("leg_press_1", "east", null, signature))).toEqual({ status: "unknown-key" });
+  });
+
+  it("tells unsigned tags from broken ones", () => {
+    expect(verifyMachineTag(tag("leg_press_1", "north", null, null))).toEqual({ status: "unsigned" });
+    expect(verifyMachineTag(tag("leg_press_1", null, null, signature)).status).toBe("invalid");
+    expect(verifyMachineTag(tag("leg_press_1", "north", "n2", "not-a-signature")).status).toBe("invalid");
+  });
+});
+
+describe("signMachineTag", () => {
+  it("signs tags that verify against the matching published key", () => {
+    const signature = signMachineTag("row_machine_2", "south", south.privateKey);
+    expect(signature).toMatch(/^[A-Za-z0-9_-]{86}$/);
+    expect(verifyMachineTag(tag("row_machine_2", "south", "s1", signature))).toEqual({
+      status: "verified",
+      keyId: "s1",
+    });
+  });
+
+  it("refuses a malformed private key", () => {
+    expect(signMachineTag("row_machine_2", "south", "short")).toBeNull();
+  });
+});
+
+describe("findSigningKeyId", () => {
+  it("finds the published key id for a private key, ignoring revoked keys", () => {
+    expect(findSigningKeyId("north", north.privateKey)).toBe("n2");
+    expect(findSigningKeyId("north", northOld.privateKey)).toBeNull();
+    expect(findSigningKeyId("north", south.privateKey)).toBeNull();
+  });
+});
@@ -0,0 +1,111 @@
+import { enqueueWorkoutUpload, flushWorkoutQueue, getPendingUploadCount } from "@/utils/workoutSync";
+import { saveWorkout, upsertWorkouts } from "@/utils/workoutStorage";
+
+const mockFiles = new Map<string, string>();
+
+jest.mock("expo-file-system", () => ({
+  documentDirectory: "file:///docs/",
+  cacheDirectory: null,
+  getInfoAsync: async (path: string) => ({ exists: mockFiles.has(path) || path.endsWith("/") }),
+  makeDirectoryAsync: async () => {},
+  readAsStringAsync: async (path: string) => mockFiles.get(path) ?? "",
+  writeAsStringAsync: async (path: string, content: string) => {
+    mockFiles.set(path, content);
+  },
+}));
+
+/** Client ids in upload order; `hold` keeps the next workout upload waiting until `release` is called. */
+const mockServer = {
+  uploads: [] as string[],
+  held: null as Promise<void> | null,
+};
+
+let release = () => {};
+function hold() {
+  mockServer.held = new Promise((resolve) => {
+    release = () => {
+      mockServer.held = null;
+      resolve();
+    };
+  });
+}
+
+jest.mock("@/lib/supabase", () => ({
+  supabase: {
+    from: (table: string) => ({
+      upsert: (row: { client_id: string }) =>
+        table === "workouts"
+          ? {
+              select: () => ({
+                single: async () => {
+                  mockServer.uploads.push(row.client_id);
+                  await mockServer.held;
+                  return { data: { id: row.client_id }, error: null };
+                },
+              }),
+            }
+          : Promise.resolve({ error: null }),
+      delete: () => ({ eq: () => ({ or: async () => ({ error: null }) }) }),
+    }),
+  },
+}));
+
+const AsyncStorage = jest.requireMock("@react-native-async-storage/async-storage").default;
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+beforeEach(async () => {
+  mockFiles.clear();
+  mockServer.uploads = [];
+  mockServer.held = null;
+  await AsyncStorage.clear();
+});
+
+describe("flushWorkoutQueue", () => {
+  it("keeps a workout queued while an earlier one was uploading", async () => {
+    const first = await saveWorkout({ exercises: [] }, "u1");
+    await enqueueWorkoutUpload(first.id);
+
+    hold();
+    const flushing = flushWorkoutQueue("u1");
+    await flush();
+    const second = await saveWorkout({ exercises: [] }, "u1");
+    await enqueueWorkoutUpload(second.id);
+    release();
+
+    expect(await flushing).toEqual({ uploaded: 1, remaining: 1 });
+    expect(await getPendingUploadCount()).toBe(1);
+  });
+
+  it("keeps a workout edited while its previous copy was uploading", async () => {
+    const workout = await saveWorkout({ exercises: [] }, "u1");
+    await enqueueWorkoutUpload(workout.id);
+
+    hold();
+    const flushing = flushWorkoutQueue("u1");
+    await flush();
+    await upsertWorkouts([{ ...workout, duration: 90, updatedAt: new Date(Date.now() + 1000).toISOString() }]);
+    await enqueueWorkoutUpload(workout.id);
+    release();
+    await flushing;
+
+    expect(await getPendingUploadCount()).toBe(1);
+  });
+
+  it("runs a flush requested mid-flush after the current one", async () => {
+    const first = await saveWorkout({ exercises: [] }, "u1");
+    await enqueueWorkoutUpload(first.id);
+
+    hold();
+    const flushing = flushWorkoutQueue("u1");
+    await flush();
+    const second = await saveWorkout({ exercises: [] }, "u1");
+    await enqueueWorkoutUpload(second.id);
+    const again = flushWorkoutQueue("u1");
+    release();
+
+    await flushing;
+    expect(await again).toEqual({ uploaded: 1, remaining: 0 });
+    expect(mockServer.uploads).toEqual([first.id, second.id]);
+  });
+});
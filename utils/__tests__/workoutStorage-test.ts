@@ -0,0 +1,104 @@
+import { getWorkouts, migrateWorkout, saveWorkout, WORKOUT_VERSION } from "@/utils/workoutStorage";
+
+const mockFiles = new Map<string, string>();
+
+jest.mock("expo-file-system", () => ({
+  documentDirectory: "file:///docs/",
+  cacheDirectory: null,
+  getInfoAsync: async (path: string) => ({ exists: mockFiles.has(path) || path.endsWith("/") }),
+  makeDirectoryAsync: async () => {},
+  readAsStringAsync: async (path: string) => mockFiles.get(path) ?? "",
+  writeAsStringAsync: async (path: string, content: string) => {
+    mockFiles.set(path, content);
+  },
+}));
+
+const FILE = "file:///docs/movu/workouts.json";
+
+const v1 = {
+  id: "w1",
+  userId: "u1",
+  machineName: "Leg Press",
+  sets: 3,
+  reps: 10,
+  completedAt: "2025-01-10T10:00:00.000Z",
+  setRepsCompleted: [10, 9],
+  setRestTimes: [60, 75],
+  duration: 300,
+};
+
+const v2 = {
+  version: 2,
+  id: "w2",
+  userId: "u1",
+  machineName: "Bench Press",
+  targetSets: 1,
+  targetReps: 8,
+  completedAt: "2025-01-11T10:00:00.000Z",
+  sets: [{ targetReps: 8, achievedReps: 8, reps: [], restBeforeSec: 0 }],
+};
+
+describe("migrateWorkout", () => {
+  it("upgrades a v1 record through v2 to the current version", () => {
+    const w = migrateWorkout(v1);
+    expect(w).toMatchObject({
+      version: WORKOUT_VERSION,
+      id: "w1",
+      userId: "u1",
+      duration: 300,
+      exercises: [{ machineName: "Leg Press", targetSets: 3, targetReps: 10 }],
+    });
+    expect(w!.exercises[0].sets.map((s) => [s.achievedReps, s.restBeforeSec])).toEqual([
+      [10, 0],
+      [9, 60],
+      // v1 only saved finished sessions, so a missing count means the target was hit
+      [10, 75],
+    ]);
+  });
+
+  it("upgrades a v2 record into a single-exercise workout", () => {
+    const w = migrateWorkout(v2);
+    expect(w?.version).toBe(WORKOUT_VERSION);
+    expect(w?.exercises).toEqual([
+      { machineName: "Bench Press", targetSets: 1, targetReps: 8, sets: v2.sets },
+    ]);
+  });
+
+  it("returns a current record unchanged", () => {
+    const current = migrateWorkout(v2)!;
+    expect(migrateWorkout(current)).toBe(current);
+  });
+
+  it("can't read versions newer than its own or malformed records", () => {
+    expect(migrateWorkout({ ...migrateWorkout(v2)!, version: WORKOUT_VERSION + 1 })).toBeNull();
+    expect(migrateWorkout({ version: WORKOUT_VERSION, id: "x", exercises: [{ sets: null }] })).toBeNull();
+    expect(migrateWorkout(null)).toBeNull();
+  });
+});
+
+describe("workout file", () => {
+  beforeEach(() => mockFiles.clear());
+
+  it("upgrades old records on read without dropping ones it can't read", async () => {
+    const future = { version: WORKOUT_VERSION + 1, id: "w9", userId: "u1", somethingNew: true };
+    mockFiles.set(FILE, JSON.stringify([v1, future, v2]));
+
+    const workouts = await getWorkouts("u1");
+    expect(workouts.map((w) => w.id)).toEqual(["w2", "w1"]);
+
+    const written = JSON.parse(mockFiles.get(FILE)!);
+    expect(written).toContainEqual(future);
+    expect(written.filter((r: { version?: number }) => r.version === WORKOUT_VERSION)).toHaveLength(2);
+  });
+
+  it("keeps unreadable records when saving a new workout", async () => {
+    const damaged = { version: WORKOUT_VERSION, id: "bad", userId: "u1", exercises: "oops" };
+    mockFiles.set(FILE, JSON.stringify([damaged]));
+
+    await saveWorkout({ exercises: [] }, "u1");
+
+    const written = JSON.parse(mockFiles.get(FILE)!);
+    expect(written).toHaveLength(2);
+    expect(written).toContainEqual(damaged);
+  });
+});
@@ -0,0 +1,60 @@
+import { mergeWorkoutHistories } from "@/utils/workoutSync";
+import { WORKOUT_VERSION, type Workout } from "@/utils/workoutStorage";
+
+jest.mock("@/lib/supabase", () => ({ supabase: null }));
+
+const local: Workout = {
+  version: WORKOUT_VERSION,
+  id: "w1",
+  userId: "u1",
+  completedAt: "2025-02-01T10:00:00.000Z",
+  updatedAt: "2025-02-01T10:05:00.000Z",
+  exercises: [
+    {
+      machineName: "Leg Press",
+      targetSets: 1,
+      targetReps: 10,
+      sets: [{ targetReps: 10, achievedReps: 10, reps: [], restBeforeSec: 0 }],
+    },
+  ],
+};
+
+// What fromRemoteRow builds for the same record: other key order, explicit undefineds, server timestamps
+const remote: Workout = {
+  version: WORKOUT_VERSION,
+  id: "w1",
+  userId: "u1",
+  completedAt: "2025-02-01T10:00:00+00:00",
+  updatedAt: "2025-02-01T10:05:00+00:00",
+  duration: undefined,
+  fromPlan: undefined,
+  gymId: undefined,
+  exercises: [
+    {
+      machineName: "Leg Press",
+      planExerciseId: undefined,
+      targetSets: 1,
+      targetReps: 10,
+      sets: [{ achievedReps: 10, targetReps: 10, reps: [], restBeforeSec: 0, weightKg: undefined }],
+    },
+  ],
+};
+
+describe("mergeWorkoutHistories", () => {
+  it("leaves a synced workout alone", () => {
+    const { fromRemote, toUpload } = mergeWorkoutHistories([local], [remote]);
+    expect(fromRemote).toEqual([]);
+    expect(toUpload).toEqual([]);
+  });
+
+  it("takes a newer server copy", () => {
+    const edited = { ...remote, updatedAt: "2025-02-02T09:00:00+00:00" };
+    expect(mergeWorkoutHistories([local], [edited]).fromRemote).toEqual([edited]);
+  });
+
+  it("queues a newer local copy and workouts the server hasn't seen", () => {
+    const newer = { ...local, updatedAt: "2025-02-03T09:00:00.000Z" };
+    const unsynced = { ...local, id: "w2" };
+    expect(mergeWorkoutHistories([newer, unsynced], [remote]).toUpload).toEqual(["w1", "w2"]);
+  });
+});
@@ -0,0 +1,118 @@
+import { base64ToBytes, bytesToBase64 } from "@/utils/sensorProtocol";
+
+/**
+ * IMU-STACK firmware update (DFU) protocol, on two characteristics of the UART service.
+ *
+ * Control point (6E400005, write with response + notify). Requests, little-endian:
+ *   0x01 START   uint32 image size, 32 bytes SHA-256 of the image
+ *   0x02 STATUS  (no payload)
+ *   0x03 APPLY   (no payload): check the staged image and reboot into it on trial
+ *   0x04 ABORT   (no payload): discard the staged image
+ *   0x05 CONFIRM (no payload): keep the running trial image
+ * Every request is answered by a notification:
+ *   0      0x80 | request opcode
+ *   1      status  0x00 ok, 0x01 busy, 0x02 bad size, 0x03 hash mismatch,
+ *                  0x04 not started, 0x05 flash error, 0x06 unsupported
+ *   2..5   uint32 bytes of the image the sensor holds (START and STATUS only)
+ *
+ * START with the hash of an image the sensor has partly received answers with how far it got,
+ * which is where the transfer resumes; any other hash starts over at 0.
+ *
+ * Data (6E400006, write without response):
+ *   0..3   uint32 offset of the chunk in the image
+ *   4..n   image bytes
+ * Chunks that don't start at the sensor's current offset are dropped; the app finds out on the
+ * next STATUS and rewinds.
+ *
+ * After APPLY the sensor reboots into the new image on trial. It must be CONFIRMed after the
+ * next connection, otherwise the bootloader rolls back to the previous image on the next reboot.
+ * CONFIRM answers "not started" when there is no trial image, i.e. the new image failed to boot
+ * and the bootloader already rolled back.
+ */
+
+export const DFU_CONTROL_CHAR_UUID = "6E400005-B5A3-F393-E0A9-E50E24DCCA9E";
+export const DFU_DATA_CHAR_UUID = "6E400006-B5A3-F393-E0A9-E50E24DCCA9E";
+
+export const DFU_OPCODE = {
+  start: 0x01,
+  status: 0x02,
+  apply: 0x03,
+  abort: 0x04,
+  confirm: 0x05,
+} as const;
+
+export type DfuOpcode = (typeof DFU_OPCODE)[keyof typeof DFU_OPCODE];
+
+const RESPONSE_FLAG = 0x80;
+export const DFU_CHUNK_HEADER_LENGTH = 4;
+
+export const DFU_STATUS = {
+  ok: 0x00,
+  busy: 0x01,
+  badSize: 0x02,
+  hashMismatch: 0x03,
+  notStarted: 0x04,
+  flashError: 0x05,
+  unsupported: 0x06,
+} as const;
+
+const STATUS_MESSAGES: Record<number, string> = {
+  [DFU_STATUS.busy]: "Sensor is busy",
+  [DFU_STATUS.badSize]: "Image is too large for the sensor",
+  [DFU_STATUS.hashMismatch]: "Sensor rejected the image: hash mismatch",
+  [DFU_STATUS.notStarted]: "Sensor has no update in progress",
+  [DFU_STATUS.flashError]: "Sensor failed to write its flash",
+  [DFU_STATUS.unsupported]: "Sensor firmware doesn't support this command",
+};
+
+export type DfuResponse = {
+  opcode: DfuOpcode;
+  /** One of DFU_STATUS */
+  status: number;
+  ok: boolean;
+  /** Null when ok */
+  error: string | null;
+  /** Image bytes the sensor holds; null for responses without it */
+  offset: number | null;
+};
+
+export function encodeStart(size: number, sha256: Uint8Array): string {
+  const bytes = new Uint8Array(1 + 4 + 32);
+  bytes[0] = DFU_OPCODE.start;
+  new DataView(bytes.buffer).setUint32(1, size, true);
+  bytes.set(sha256.subarray(0, 32), 5);
+  return bytesToBase64(bytes);
+}
+
+export function encodeCommand(opcode: DfuOpcode): string {
+  return bytesToBase64(Uint8Array.of(opcode));
+}
+
+export function encodeChunk(image: Uint8Array, offset: number, length: number): string {
+  const payload = image.subarray(offset, offset + length);
+  const bytes = new Uint8Array(DFU_CHUNK_HEADER_LENGTH + payload.length);
+  new DataView(bytes.buffer).setUint32(0, offset, true);
+  bytes.set(payload, DFU_CHUNK_HEADER_LENGTH);
+  return bytesToBase64(bytes);
+}
+
+/** Decode a control point notification (base64 value as delivered by ble-plx); null if malformed. */
+export function decodeResponse(value: string): DfuResponse | null {
+  let bytes: Uint8Array;
+  try {
+    bytes = base64ToBytes(value);
+  } catch {
+    return null;
+  }
+  if (bytes.length < 2 || (bytes[0] & RESPONSE_FLAG) === 0) return null;
+  const opcode = (bytes[0] & ~RESPONSE_FLAG) as DfuOpcode;
+  const status = bytes[1];
+  const offset = bytes.length >= 6 ? new DataView(bytes.buffer, bytes.byteOffset).getUint32(2, true) : null;
+  return {
+    opcode,
+    status,
+    ok: status === DFU_STATUS.ok,
+    error: status === DFU_STATUS.ok ? null : STATUS_MESSAGES[status] ?? `Sensor error ${status}`,
+    offset,
+  };
+}
@@ -0,0 +1,112 @@
+import { File } from "expo-file-system";
+
+import { supabase } from "@/lib/supabase";
+import { createFirmwareImage, type FirmwareImage } from "@/utils/firmwareUpdate";
+
+/**
+ * Sensor firmware images: published releases (the `firmware_releases` table, images in the
+ * `firmware` storage bucket) or a file picked on the device. Both are hash-checked before use.
+ * Only staff can read either, so for everyone else the release list is simply empty.
+ */
+
+const BUCKET = "firmware";
+// Long enough to download a few hundred KB on gym Wi-Fi
+const SIGNED_URL_TTL_SEC = 300;
+
+export type FirmwareRelease = {
+  id: string;
+  version: string;
+  storagePath: string;
+  /** Hex SHA-256 of the image */
+  sha256: string;
+  sizeBytes: number;
+  notes: string | null;
+  createdAt: string;
+};
+
+type RemoteFirmwareRelease = {
+  id: string;
+  version: string;
+  storage_path: string;
+  sha256: string;
+  size_bytes: number;
+  notes: string | null;
+  created_at: string;
+};
+
+export type FirmwareLoadResult = { ok: true; image: FirmwareImage } | { ok: false; reason: string };
+
+/** Newest first; empty when signed out, offline or not staff. */
+export async function listFirmwareReleases(): Promise<FirmwareRelease[]> {
+  try {
+    if (!supabase) return [];
+    const { data, error } = await supabase
+      .from("firmware_releases")
+      .select("id, version, storage_path, sha256, size_bytes, notes, created_at")
+      .order("created_at", { ascending: false });
+    if (error || !data) return [];
+    return (data as RemoteFirmwareRelease[]).map((r) => ({
+      id: r.id,
+      version: r.version,
+      storagePath: r.storage_path,
+      sha256: r.sha256.toLowerCase(),
+      sizeBytes: r.size_bytes,
+      notes: r.notes,
+      createdAt: r.created_at,
+    }));
+  } catch {
+    return [];
+  }
+}
+
+function checkHash(image: FirmwareImage, expectedSha256: string): FirmwareLoadResult {
+  const expected = expectedSha256.trim().toLowerCase();
+  if (image.sha256Hex !== expected) {
+    return { ok: false, reason: `Hash mismatch: expected ${expected.slice(0, 12)}…, got ${image.sha256Hex.slice(0, 12)}…` };
+  }
+  return { ok: true, image };
+}
+
+export async function downloadFirmwareRelease(release: FirmwareRelease): Promise<FirmwareLoadResult> {
+  try {
+    if (!supabase) return { ok: false, reason: "Supabase is not configured" };
+    const { data, error } = await supabase.storage
+      .from(BUCKET)
+      .createSignedUrl(release.storagePath, SIGNED_URL_TTL_SEC);
+    if (error || !data?.signedUrl) return { ok: false, reason: error?.message ?? "Could not get the image" };
+    const response = await fetch(data.signedUrl);
+    if (!response.ok) return { ok: false, reason: `Download failed (${response.status})` };
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    if (bytes.length !== release.sizeBytes) {
+      return { ok: false, reason: `Download incomplete: ${bytes.length} of ${release.sizeBytes} bytes` };
+    }
+    return checkHash(createFirmwareImage(bytes, `v${release.version}`, release.version), release.sha256);
+  } catch (e: any) {
+    return { ok: false, reason: e?.message ?? "Download failed" };
+  }
+}
+
+/**
+ * Load an image picked from the device. It must match `expectedSha256` (hex) when given, or else
+ * a published release; an image that can't be verified either way is refused.
+ */
+export async function loadLocalFirmware(
+  uri: string,
+  name: string,
+  expectedSha256: string | null,
+  releases: FirmwareRelease[]
+): Promise<FirmwareLoadResult> {
+  try {
+    const bytes = await new File(uri).bytes();
+    if (bytes.length === 0) return { ok: false, reason: "The file is empty" };
+    const picked = createFirmwareImage(bytes, name, null);
+    // A copy of a release keeps its version, so confirming the update can tell a rollback
+    const release = releases.find((r) => r.sha256 === picked.sha256Hex);
+    const image = release ? { ...picked, version: release.version } : picked;
+    if (expectedSha256?.trim()) return checkHash(image, expectedSha256);
+    if (release) return { ok: true, image };
+    return { ok: false, reason: "Unverified image: enter its SHA-256 or publish it as a release first" };
+  } catch (e: any) {
+    return { ok: false, reason: e?.message ?? "Could not read the file" };
+  }
+}
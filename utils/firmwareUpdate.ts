@@ -0,0 +1,300 @@
+import { Platform } from "react-native";
+import { sha256 } from "@noble/hashes/sha2";
+import { bytesToHex } from "@noble/hashes/utils";
+
+import {
+  decodeResponse,
+  DFU_CHUNK_HEADER_LENGTH,
+  DFU_CONTROL_CHAR_UUID,
+  DFU_DATA_CHAR_UUID,
+  DFU_OPCODE,
+  DFU_STATUS,
+  encodeChunk,
+  encodeCommand,
+  encodeStart,
+  type DfuOpcode,
+  type DfuResponse,
+} from "@/utils/firmwareProtocol";
+import { readSensorInfo } from "@/utils/sensorInfo";
+import { SERVICE_UUID } from "@/utils/sensorSession";
+import type { SensorPeripheral } from "@/utils/sensorTransport";
+
+/**
+ * Headless firmware update engine for one connected IMU-STACK sensor (protocol in
+ * firmwareProtocol.ts). Sends the image in windows of chunks, asks the sensor how far it got
+ * after each window and rewinds to that point, so dropped packets and a transfer interrupted by
+ * a lost connection both pick up where the sensor left off.
+ */
+
+// Chunks sent between two STATUS checks
+const DEFAULT_WINDOW = 16;
+const RESPONSE_TIMEOUT_MS = 5000;
+// APPLY hashes the whole image on the sensor before answering
+const APPLY_TIMEOUT_MS = 30000;
+// STATUS checks in a row without progress before giving up
+const MAX_STALLS = 5;
+const REQUESTED_MTU = 247;
+const MIN_MTU = 23;
+
+export type FirmwareImage = {
+  bytes: Uint8Array;
+  sha256: Uint8Array;
+  sha256Hex: string;
+  /** Firmware revision the image reports once running; null for local files of unknown version */
+  version: string | null;
+  /** Release version or file name, for display */
+  label: string;
+};
+
+export function createFirmwareImage(bytes: Uint8Array, label: string, version: string | null): FirmwareImage {
+  const hash = sha256(bytes);
+  return { bytes, sha256: hash, sha256Hex: bytesToHex(hash), version, label };
+}
+
+export type FirmwareUpdatePhase = "idle" | "preparing" | "transferring" | "applying" | "rebooting" | "failed" | "aborted";
+
+export type FirmwareUpdateEvent =
+  | { type: "phase"; phase: FirmwareUpdatePhase }
+  | { type: "progress"; sentBytes: number; totalBytes: number; resumedFrom: number }
+  | { type: "error"; message: string };
+
+export type FirmwareUpdateListener = (event: FirmwareUpdateEvent) => void;
+
+/** The subset of a sensor peripheral the engine uses. */
+export type FirmwareDevice = Pick<
+  SensorPeripheral,
+  | "mtu"
+  | "requestMTU"
+  | "monitorCharacteristicForService"
+  | "writeCharacteristicWithResponseForService"
+  | "writeCharacteristicWithoutResponseForService"
+>;
+
+export type FirmwareUpdateOptions = {
+  windowChunks?: number;
+};
+
+export type FirmwareUpdate = {
+  /** Transfer and apply the image; resolves once the sensor has accepted it and is rebooting. */
+  start: () => Promise<void>;
+  /** Stop sending and tell the sensor to discard what it received. */
+  abort: () => Promise<void>;
+  subscribe: (listener: FirmwareUpdateListener) => () => void;
+};
+
+type Pending = {
+  opcode: DfuOpcode;
+  resolve: (response: DfuResponse) => void;
+  reject: (e: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+};
+
+function errorMessage(e: unknown, fallback: string): string {
+  const message = (e as { message?: unknown } | null)?.message;
+  return typeof message === "string" && message ? message : fallback;
+}
+
+/** Request/response over the control point; one request at a time. */
+function createControlChannel(device: FirmwareDevice) {
+  let pending: Pending | null = null;
+  const subscription = device.monitorCharacteristicForService(
+    SERVICE_UUID,
+    DFU_CONTROL_CHAR_UUID,
+    (err, characteristic) => {
+      if (!pending) return;
+      if (err) {
+        const p = pending;
+        pending = null;
+        clearTimeout(p.timer);
+        p.reject(new Error(err.message ?? "Lost the sensor"));
+        return;
+      }
+      const response = characteristic?.value ? decodeResponse(characteristic.value) : null;
+      if (!response || response.opcode !== pending.opcode) return;
+      const p = pending;
+      pending = null;
+      clearTimeout(p.timer);
+      p.resolve(response);
+    }
+  );
+
+  const request = (opcode: DfuOpcode, value: string, timeoutMs = RESPONSE_TIMEOUT_MS) =>
+    new Promise<DfuResponse>((resolve, reject) => {
+      if (pending) {
+        reject(new Error("Another request is in progress"));
+        return;
+      }
+      const timer = setTimeout(() => {
+        pending = null;
+        reject(new Error("The sensor didn't answer"));
+      }, timeoutMs);
+      pending = { opcode, resolve, reject, timer };
+      device.writeCharacteristicWithResponseForService(SERVICE_UUID, DFU_CONTROL_CHAR_UUID, value).catch((e) => {
+        if (pending?.timer !== timer) return;
+        pending = null;
+        clearTimeout(timer);
+        reject(new Error(errorMessage(e, "Write failed")));
+      });
+    });
+
+  const close = () => {
+    if (pending) {
+      clearTimeout(pending.timer);
+      pending.reject(new Error("Cancelled"));
+      pending = null;
+    }
+    try {
+      subscription.remove();
+    } catch {}
+  };
+
+  return { request, close };
+}
+
+export function createFirmwareUpdate(
+  device: FirmwareDevice,
+  image: FirmwareImage,
+  options: FirmwareUpdateOptions = {}
+): FirmwareUpdate {
+  const windowChunks = options.windowChunks ?? DEFAULT_WINDOW;
+  const listeners = new Set<FirmwareUpdateListener>();
+  const total = image.bytes.length;
+  let running = false;
+  let aborted = false;
+
+  const emit = (event: FirmwareUpdateEvent) => {
+    listeners.forEach((l) => {
+      try {
+        l(event);
+      } catch {
+        // a listener failing must not break the transfer
+      }
+    });
+  };
+
+  const expectOk = (response: DfuResponse) => {
+    if (!response.ok) throw new Error(response.error ?? "Sensor refused the request");
+    return response;
+  };
+
+  const start = async () => {
+    if (running) return;
+    running = true;
+    aborted = false;
+    emit({ type: "phase", phase: "preparing" });
+    let control: ReturnType<typeof createControlChannel> | null = null;
+    try {
+      let mtu = device.mtu || MIN_MTU;
+      // iOS negotiates the MTU itself; Android starts at the 23-byte minimum unless asked
+      if (Platform.OS === "android") {
+        try {
+          mtu = (await device.requestMTU(REQUESTED_MTU)).mtu || mtu;
+        } catch {
+          // keep the current MTU
+        }
+      }
+      // ATT header takes 3 bytes of the MTU
+      const chunkSize = Math.max(1, mtu - 3 - DFU_CHUNK_HEADER_LENGTH);
+
+      control = createControlChannel(device);
+      const started = expectOk(await control.request(DFU_OPCODE.start, encodeStart(total, image.sha256)));
+      const resumedFrom = Math.min(started.offset ?? 0, total);
+      let offset = resumedFrom;
+      emit({ type: "phase", phase: "transferring" });
+      emit({ type: "progress", sentBytes: offset, totalBytes: total, resumedFrom });
+
+      let stalls = 0;
+      while (offset < total) {
+        if (aborted) return;
+        let sent = offset;
+        for (let i = 0; i < windowChunks && sent < total; i++) {
+          const length = Math.min(chunkSize, total - sent);
+          await device.writeCharacteristicWithoutResponseForService(
+            SERVICE_UUID,
+            DFU_DATA_CHAR_UUID,
+            encodeChunk(image.bytes, sent, length)
+          );
+          sent += length;
+        }
+        if (aborted) return;
+        // The sensor's count is the truth: anything past it was dropped and is sent again
+        const status = expectOk(await control.request(DFU_OPCODE.status, encodeCommand(DFU_OPCODE.status)));
+        const reached = Math.min(status.offset ?? sent, total);
+        stalls = reached > offset ? 0 : stalls + 1;
+        if (stalls >= MAX_STALLS) throw new Error("The transfer stopped making progress");
+        offset = reached;
+        emit({ type: "progress", sentBytes: offset, totalBytes: total, resumedFrom });
+      }
+
+      emit({ type: "phase", phase: "applying" });
+      expectOk(await control.request(DFU_OPCODE.apply, encodeCommand(DFU_OPCODE.apply), APPLY_TIMEOUT_MS));
+      emit({ type: "phase", phase: "rebooting" });
+    } catch (e) {
+      if (aborted) return;
+      emit({ type: "error", message: errorMessage(e, "Update failed") });
+      emit({ type: "phase", phase: "failed" });
+    } finally {
+      control?.close();
+      running = false;
+    }
+  };
+
+  const abort = async () => {
+    aborted = true;
+    emit({ type: "phase", phase: "aborted" });
+    // Wait for the transfer loop to let go of the control point
+    while (running) await new Promise((r) => setTimeout(r, 50));
+    const control = createControlChannel(device);
+    try {
+      await control.request(DFU_OPCODE.abort, encodeCommand(DFU_OPCODE.abort));
+    } catch {
+      // the sensor drops an unfinished image on its own after a reboot
+    } finally {
+      control.close();
+    }
+  };
+
+  return {
+    start,
+    abort,
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+export type FirmwareConfirmResult =
+  | { status: "confirmed"; runningVersion: string | null }
+  | { status: "rolled-back"; runningVersion: string | null }
+  | { status: "error"; message: string };
+
+/**
+ * After the reboot: check that the sensor is running the new image and make it permanent.
+ * Without this the bootloader restores the previous image on the next reboot.
+ */
+export async function confirmFirmwareUpdate(
+  device: FirmwareDevice & Pick<SensorPeripheral, "services" | "readCharacteristicForService">,
+  image: FirmwareImage
+): Promise<FirmwareConfirmResult> {
+  const { firmwareRevision } = await readSensorInfo(device);
+  if (image.version && firmwareRevision && firmwareRevision !== image.version) {
+    return { status: "rolled-back", runningVersion: firmwareRevision };
+  }
+  const control = createControlChannel(device);
+  try {
+    const response = await control.request(DFU_OPCODE.confirm, encodeCommand(DFU_OPCODE.confirm));
+    if (response.ok) return { status: "confirmed", runningVersion: firmwareRevision };
+    // No trial image to confirm: it didn't boot and the bootloader went back to the old one
+    if (response.status === DFU_STATUS.notStarted) {
+      return { status: "rolled-back", runningVersion: firmwareRevision };
+    }
+    return { status: "error", message: response.error ?? "Sensor refused to confirm" };
+  } catch (e) {
+    return { status: "error", message: errorMessage(e, "Could not confirm the update") };
+  } finally {
+    control.close();
+  }
+}
@@ -0,0 +1,70 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { supabase } from "@/lib/supabase";
+
+/**
+ * The member's home gym (saved to their profile) and the gym they are training at right now
+ * (device-local; follows the last scanned tag that named a gym).
+ */
+
+const KEY = "gymPreference:v1";
+
+export type GymPreference = {
+  homeGymId: string | null;
+  currentGymId: string | null;
+};
+
+const EMPTY: GymPreference = { homeGymId: null, currentGymId: null };
+
+export async function getGymPreference(): Promise<GymPreference> {
+  try {
+    const stored = await AsyncStorage.getItem(KEY);
+    const parsed = stored ? (JSON.parse(stored) as Partial<GymPreference>) : null;
+    return {
+      homeGymId: typeof parsed?.homeGymId === "string" ? parsed.homeGymId : null,
+      currentGymId: typeof parsed?.currentGymId === "string" ? parsed.currentGymId : null,
+    };
+  } catch {
+    return EMPTY;
+  }
+}
+
+export async function setGymPreference(pref: GymPreference): Promise<void> {
+  try {
+    await AsyncStorage.setItem(KEY, JSON.stringify(pref));
+  } catch {
+    // ignore
+  }
+}
+
+/** Best effort: keep profiles.home_gym_id in step so the home gym follows the member across devices. */
+export async function saveHomeGymToProfile(homeGymId: string | null): Promise<void> {
+  try {
+    if (!supabase) return;
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user?.id) return;
+    await supabase
+      .from("profiles")
+      .update({ home_gym_id: homeGymId, updated_at: new Date().toISOString() })
+      .eq("id", user.id);
+  } catch {
+    // ignore
+  }
+}
+
+/** Home gym from the member's profile, or null when signed out or not set. */
+export async function fetchHomeGymFromProfile(): Promise<string | null> {
+  try {
+    if (!supabase) return null;
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user?.id) return null;
+    const { data } = await supabase.from("profiles").select("home_gym_id").eq("id", user.id).maybeSingle();
+    return data?.home_gym_id ?? null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,66 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { buildMachineUri, parseMachineUri, type MachineTag } from "@/utils/nfcSensorMap";
+
+/**
+ * Machine links opened from outside the app (a tag read by the OS, a QR code scanned with the
+ * system camera, a shared movuapp:// link). They land on the /machine route; when the member
+ * hasn't finished onboarding yet the link is parked here and picked up again once they have.
+ */
+
+const PENDING_KEY = "pendingMachineLink:v1";
+// A link parked for longer than this is from a visit that is over; don't connect out of the blue
+const PENDING_TTL_MS = 30 * 60 * 1000;
+
+type PendingLink = { tag: MachineTag; savedAt: number };
+
+let pending: PendingLink | null = null;
+
+/** In-app path for an incoming system URL, or null when it isn't a machine link. */
+export function machineRouteForUrl(url: string): string | null {
+  if (!/^(movo|movuapp):\/\/machine\b/i.test(url.trim())) return null;
+  const tag = parseMachineUri(url);
+  return tag ? machineRoutePath(tag) : null;
+}
+
+/** /machine?id=...: the route that handles machine links. */
+export function machineRoutePath(tag: MachineTag): string {
+  return buildMachineUri(tag).replace(/^movo:\/\/machine/, "/machine");
+}
+
+/** Search params for router.push/replace to /machine. */
+export function machineRouteParams(tag: MachineTag): Record<string, string> {
+  const params: Record<string, string> = { id: tag.machineId };
+  if (tag.gymId) params.gym = tag.gymId;
+  if (tag.signature) {
+    if (tag.keyId) params.kid = tag.keyId;
+    params.sig = tag.signature;
+  }
+  return params;
+}
+
+export async function savePendingMachineLink(tag: MachineTag): Promise<void> {
+  pending = { tag, savedAt: Date.now() };
+  try {
+    await AsyncStorage.setItem(PENDING_KEY, JSON.stringify(pending));
+  } catch {
+    // ignore
+  }
+}
+
+/** Return and clear the parked link, if there is a fresh one. */
+export async function takePendingMachineLink(): Promise<MachineTag | null> {
+  let link = pending;
+  pending = null;
+  try {
+    if (!link) {
+      const stored = await AsyncStorage.getItem(PENDING_KEY);
+      link = stored ? (JSON.parse(stored) as PendingLink) : null;
+    }
+    await AsyncStorage.removeItem(PENDING_KEY);
+  } catch {
+    // ignore
+  }
+  if (!link?.tag?.machineId || Date.now() - link.savedAt > PENDING_TTL_MS) return null;
+  return link.tag;
+}
@@ -0,0 +1,256 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { supabase } from "@/lib/supabase";
+
+/**
+ * Client side of the Supabase `machines`, `gyms` and `gym_signing_keys` tables. Lookups are synchronous against an
+ * in-memory copy so NFC handling never waits on the network: the copy starts from a built-in
+ * list, is replaced by the AsyncStorage cache on load, and by the server whenever a refresh
+ * succeeds.
+ */
+
+const CACHE_KEY = "machineRegistry:v1";
+// Refresh in the background when the cached copy is older than this
+const STALE_AFTER_MS = 60 * 60 * 1000;
+
+export type Machine = {
+  id: string;
+  gymId: string;
+  displayName: string;
+  /** Machine kind shared by every copy of it, e.g. "leg_press" for leg_press_1 and leg_press_2 */
+  exerciseType: string;
+  sensorName: string | null;
+  sensorMac: string | null;
+  nfcTagId: string | null;
+  active: boolean;
+};
+
+type RemoteMachine = {
+  id: string;
+  gym_id: string;
+  display_name: string;
+  exercise_type: string;
+  sensor_name: string | null;
+  sensor_mac: string | null;
+  nfc_tag_id: string | null;
+  active: boolean;
+};
+
+export type Gym = {
+  id: string;
+  name: string;
+  city: string | null;
+};
+
+/** Public half of a gym's tag signing key (see tagSignature.ts). */
+export type GymSigningKey = {
+  gymId: string;
+  keyId: string;
+  /** Raw 32-byte Ed25519 public key, base64url */
+  publicKey: string;
+  revoked: boolean;
+};
+
+type RemoteSigningKey = {
+  gym_id: string;
+  key_id: string;
+  public_key: string;
+  revoked: boolean;
+};
+
+type RegistryCache = {
+  fetchedAt: number;
+  machines: Machine[];
+  gyms?: Gym[];
+  signingKeys?: GymSigningKey[];
+};
+
+const MACHINE_COLUMNS = "id, gym_id, display_name, exercise_type, sensor_name, sensor_mac, nfc_tag_id, active";
+
+const BUILTIN_GYMS: Gym[] = [{ id: "main", name: "Main Gym", city: null }];
+
+/** Used until the first cache load or fetch; mirrors the seed rows in the machines migration. */
+const BUILTIN_MACHINES: Machine[] = [
+  ["bench_press", "Bench Press"],
+  ["squat_rack", "Squat Rack"],
+  ["leg_press", "Leg Press"],
+  ["cable_machine", "Cable Machine"],
+  ["lat_pulldown", "Lat Pulldown"],
+  ["shoulder_press", "Shoulder Press"],
+  ["leg_curl", "Leg Curl"],
+  ["leg_extension", "Leg Extension"],
+  ["chest_fly", "Chest Fly"],
+  ["row_machine", "Row Machine"],
+  ["bicep_curl", "Bicep Curl"],
+  ["tricep_extension", "Tricep Extension"],
+].map(([type, displayName]) => ({
+  id: `${type}_1`,
+  gymId: "main",
+  displayName,
+  exerciseType: type,
+  sensorName: "IMU-STACK",
+  sensorMac: null,
+  nfcTagId: null,
+  active: true,
+}));
+
+let machines: Machine[] = BUILTIN_MACHINES;
+let gyms: Gym[] = BUILTIN_GYMS;
+let signingKeys: GymSigningKey[] = [];
+let fetchedAt = 0;
+let loadPromise: Promise<void> | null = null;
+let refreshInFlight: Promise<boolean> | null = null;
+
+function fromRemote(row: RemoteMachine): Machine {
+  return {
+    id: row.id.toLowerCase(),
+    gymId: row.gym_id,
+    displayName: row.display_name,
+    exerciseType: row.exercise_type,
+    sensorName: row.sensor_name,
+    sensorMac: row.sensor_mac,
+    nfcTagId: row.nfc_tag_id,
+    active: row.active,
+  };
+}
+
+async function readCache(): Promise<RegistryCache | null> {
+  try {
+    const stored = await AsyncStorage.getItem(CACHE_KEY);
+    const parsed = stored ? (JSON.parse(stored) as RegistryCache) : null;
+    return parsed && Array.isArray(parsed.machines) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+async function writeCache(cache: RegistryCache): Promise<void> {
+  try {
+    await AsyncStorage.setItem(CACHE_KEY, JSON.stringify(cache));
+  } catch {
+    // ignore
+  }
+}
+
+/** Load the cached registry into memory (once). */
+export function loadMachineRegistry(): Promise<void> {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      const cache = await readCache();
+      // A refresh may have finished first; never replace newer data with the cache
+      if (cache && cache.fetchedAt > fetchedAt && cache.machines.length > 0) {
+        machines = cache.machines;
+        gyms = cache.gyms?.length ? cache.gyms : gyms;
+        signingKeys = cache.signingKeys ?? signingKeys;
+        fetchedAt = cache.fetchedAt;
+      }
+    })();
+  }
+  return loadPromise;
+}
+
+/** Fetch the registry from Supabase and cache it. Returns false when offline or not configured. */
+export function refreshMachineRegistry(): Promise<boolean> {
+  if (refreshInFlight) return refreshInFlight;
+  refreshInFlight = (async () => {
+    try {
+      if (!supabase) return false;
+      const [machineResult, gymResult, keyResult] = await Promise.all([
+        supabase.from("machines").select(MACHINE_COLUMNS),
+        supabase.from("gyms").select("id, name, city").eq("active", true).order("name"),
+        supabase.from("gym_signing_keys").select("gym_id, key_id, public_key, revoked"),
+      ]);
+      if (machineResult.error || !machineResult.data) return false;
+      const fetched = (machineResult.data as RemoteMachine[]).map(fromRemote);
+      // An empty table is more likely a misconfigured project than a gym with no machines
+      if (fetched.length === 0) return false;
+      machines = fetched;
+      if (!gymResult.error && gymResult.data && gymResult.data.length > 0) gyms = gymResult.data as Gym[];
+      if (!keyResult.error && keyResult.data) {
+        signingKeys = (keyResult.data as RemoteSigningKey[]).map((k) => ({
+          gymId: k.gym_id,
+          keyId: k.key_id,
+          publicKey: k.public_key,
+          revoked: k.revoked,
+        }));
+      }
+      fetchedAt = Date.now();
+      await writeCache({ fetchedAt, machines, gyms, signingKeys });
+      return true;
+    } catch {
+      return false;
+    } finally {
+      refreshInFlight = null;
+    }
+  })();
+  return refreshInFlight;
+}
+
+/** Load the cache, then refresh in the background if it is missing or stale. */
+export async function ensureMachineRegistry(): Promise<void> {
+  await loadMachineRegistry();
+  if (Date.now() - fetchedAt > STALE_AFTER_MS) void refreshMachineRegistry();
+}
+
+/** Active machines, optionally limited to one gym. */
+export function listMachines(gymId?: string): Machine[] {
+  return machines.filter((m) => m.active && (!gymId || m.gymId === gymId));
+}
+
+export function listGyms(): Gym[] {
+  return gyms;
+}
+
+export function getGym(gymId: string): Gym | null {
+  return gyms.find((g) => g.id === gymId) ?? null;
+}
+
+/**
+ * Record which physical tag (its hardware id) sits on a machine. Goes through the
+ * assign_machine_nfc_tag function, which only gym staff may call. Returns an error message or null.
+ */
+export async function assignMachineNfcTag(gymId: string, machineId: string, nfcTagId: string): Promise<string | null> {
+  try {
+    if (!supabase) return "Supabase is not configured";
+    const { error } = await supabase.rpc("assign_machine_nfc_tag", {
+      p_gym_id: gymId,
+      p_machine_id: machineId,
+      p_nfc_tag_id: nfcTagId,
+    });
+    if (error) return error.message;
+    machines = machines.map((m) =>
+      m.gymId === gymId && m.id === machineId
+        ? { ...m, nfcTagId }
+        : m.gymId === gymId && m.nfcTagId === nfcTagId
+          ? { ...m, nfcTagId: null }
+          : m
+    );
+    await writeCache({ fetchedAt, machines, gyms, signingKeys });
+    return null;
+  } catch (e: any) {
+    return e?.message ?? "Could not save the tag";
+  }
+}
+
+/** Published tag signing keys for a gym, revoked ones included so old tags can be flagged. */
+export function listGymSigningKeys(gymId: string): GymSigningKey[] {
+  return signingKeys.filter((k) => k.gymId === gymId);
+}
+
+function findInGym(candidates: Machine[], id: string): Machine | null {
+  const exact = candidates.find((m) => m.id === id);
+  if (exact) return exact;
+  const base = id.replace(/_?\d+$/, "");
+  return candidates.find((m) => m.id === base || m.exerciseType === base) ?? null;
+}
+
+/**
+ * Resolve a machine id from a tag. Ids are only unique per gym, so with a `gymId` only that gym
+ * is searched: a machine of another gym must never stand in for one that isn't registered here.
+ * Without a gym any gym is searched. Exact ids win; otherwise "bench_press" or "bench_press_3"
+ * fall back to the first machine of that exercise type.
+ */
+export function getMachine(machineId: string, gymId?: string | null): Machine | null {
+  const id = machineId.toLowerCase().trim();
+  return findInGym(listMachines(gymId ?? undefined), id);
+}
@@ -0,0 +1,80 @@
+import { getMachineDisplayName, getSensorForMachineId, parseMachineUri, type SensorIdentifier } from "@/utils/nfcSensorMap";
+import { getGym, getMachine, loadMachineRegistry, refreshMachineRegistry } from "@/utils/machineRegistry";
+import { verifyMachineTag } from "@/utils/tagSignature";
+
+/**
+ * Turns a scanned movo://machine URI into a machine to connect to. Shared by the NFC and QR
+ * screens so both read tags the same way: parse, check the signature, resolve the sensor.
+ */
+
+export type ScannedMachine = {
+  displayName: string;
+  machineId: string;
+  /** Gym named by the tag, switched to once the member connects */
+  tagGymId: string | null;
+  sensor: SensorIdentifier;
+};
+
+export type ScanResolution =
+  | { status: "verified"; machine: ScannedMachine }
+  /** Resolved, but the signature is missing or cannot be checked; ask before connecting */
+  | { status: "unverified"; machine: ScannedMachine; message: string }
+  | { status: "error"; message: string };
+
+/** `fallbackGymId` resolves tags that don't name a gym (normally the member's active gym). */
+export async function resolveMachineUri(uri: string, fallbackGymId: string | null): Promise<ScanResolution> {
+  const machineTag = parseMachineUri(uri);
+  if (!machineTag) return { status: "error", message: `Unknown tag format: ${uri}` };
+
+  const { machineId } = machineTag;
+  // Tags that name their gym win; older tags resolve against the gym the member is at
+  const gymId = machineTag.gymId ?? fallbackGymId;
+
+  await loadMachineRegistry();
+  let verification = verifyMachineTag(machineTag);
+  // A tag for a machine or key added since the cache was written: try the server once
+  if (!getSensorForMachineId(machineId, gymId) || verification.status === "unknown-key") {
+    await refreshMachineRegistry();
+    verification = verifyMachineTag(machineTag);
+  }
+
+  // A bad signature means the tag was edited or forged; never offer to connect
+  if (verification.status === "invalid") {
+    return {
+      status: "error",
+      message: `This tag failed verification (${verification.reason}). Please tell the gym staff.`,
+    };
+  }
+
+  if (!getMachine(machineId, gymId)) {
+    const gymName = gymId ? getGym(gymId)?.name : null;
+    return { status: "error", message: `Machine "${machineId}" isn't registered at ${gymName ?? "this gym"}` };
+  }
+
+  const sensor = getSensorForMachineId(machineId, gymId);
+  const displayName = getMachineDisplayName(machineId, gymId) ?? machineId;
+  if (!sensor || (!sensor.name && !sensor.mac)) {
+    return { status: "error", message: `Machine "${machineId}" has no sensor mapped` };
+  }
+
+  const machine: ScannedMachine = { displayName, machineId, tagGymId: machineTag.gymId, sensor };
+  if (verification.status === "verified") return { status: "verified", machine };
+  return {
+    status: "unverified",
+    machine,
+    message:
+      verification.status === "unsigned"
+        ? `This tag isn't signed by the gym. Only connect if it's on the ${displayName} in front of you.`
+        : `This tag's signature can't be checked right now. Only connect if it's on the ${displayName} in front of you.`,
+  };
+}
+
+/** Params for /workout/connecting. */
+export function connectingParams(machine: ScannedMachine) {
+  return {
+    machine: machine.displayName,
+    machineId: machine.machineId,
+    sensorName: machine.sensor.name ?? "",
+    sensorMac: machine.sensor.mac ?? "",
+  };
+}
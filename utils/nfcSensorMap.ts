@@ -1,91 +1,115 @@
 /**
  * Maps NFC machine IDs (from movo://machine?id=xxx) to Bluetooth sensor identifiers.
  * Use this for tap-to-connect: when user scans an NFC tag, we look up which BLE device to connect to.
+ * The mapping itself lives in the Supabase machine registry (see machineRegistry.ts).
  *
  * Match by:
  * - name: BLE device name (e.g. "IMU-STACK", "Movu-Bench-1")
  * - mac: Device MAC address (Android) or UUID (iOS) - use when multiple sensors share a name
  */
 
+import { getMachine } from "@/utils/machineRegistry";
+import type { RepDetectorConfig } from "@/utils/repDetector";
+
 export type SensorIdentifier = {
   name?: string;
   mac?: string;
 };
 
-/** Extract raw machine id from movo://machine?id=xxx URI */
-export function extractMachineIdFromUri(uri: string): string | null {
+export type MachineTag = {
+  machineId: string;
+  /** Gym named by the tag (movo://machine?id=xxx&gym=yyy); null for tags that predate gyms */
+  gymId: string | null;
+  /** Signing key id (kid=), when the tag says which of the gym's keys signed it */
+  keyId: string | null;
+  /** base64url Ed25519 signature (sig=); null for unsigned tags. See tagSignature.ts */
+  signature: string | null;
+};
+
+/**
+ * Parse movo://machine?id=xxx[&gym=yyy][&kid=zzz&sig=...]. The app's own scheme
+ * (movuapp://machine?...) is accepted too, for links opened from outside a tag.
+ */
+export function parseMachineUri(uri: string): MachineTag | null {
   try {
     if (!uri || typeof uri !== "string") return null;
-    const match = uri.match(/movo:\/\/[^?\s]+(\?[^#\s]*)?/i);
+    const match = uri.match(/(?:movo|movuapp):\/\/[^?\s]+(\?[^#\s]*)?/i);
     const toParse = match ? match[0] : uri.trim();
-    if (!toParse.toLowerCase().startsWith("movo://")) return null;
-    const url = new URL(toParse.replace(/^movo:\/\//i, "https://x/"));
-    const id = url.searchParams.get("id");
-    return id?.trim() || null;
+    if (!/^(movo|movuapp):\/\//i.test(toParse)) return null;
+    const url = new URL(toParse.replace(/^(movo|movuapp):\/\//i, "https://x/"));
+    const id = url.searchParams.get("id")?.trim();
+    if (!id) return null;
+    return {
+      machineId: id,
+      gymId: url.searchParams.get("gym")?.trim() || null,
+      keyId: url.searchParams.get("kid")?.trim() || null,
+      signature: url.searchParams.get("sig")?.trim() || null,
+    };
   } catch {
     return null;
   }
 }
 
+/** Inverse of parseMachineUri; used when writing tags. */
+export function buildMachineUri(tag: MachineTag): string {
+  const params = [`id=${encodeURIComponent(tag.machineId)}`];
+  if (tag.gymId) params.push(`gym=${encodeURIComponent(tag.gymId)}`);
+  if (tag.signature) {
+    if (tag.keyId) params.push(`kid=${encodeURIComponent(tag.keyId)}`);
+    params.push(`sig=${tag.signature}`);
+  }
+  return `movo://machine?${params.join("&")}`;
+}
+
+/** Extract raw machine id from movo://machine?id=xxx URI */
+export function extractMachineIdFromUri(uri: string): string | null {
+  return parseMachineUri(uri)?.machineId ?? null;
+}
+
 /**
- * Mock dictionary: machine id -> BLE sensor identifier.
- * Replace with your real sensor IDs (names/MACs) for each gym machine.
+ * Get BLE sensor identifier for a machine id from the machine registry, looking only in `gymId`
+ * when given since ids are only unique per gym. Returns null if unknown.
  */
-const MACHINE_TO_SENSOR: Record<string, SensorIdentifier> = {
-  bench_press: { name: "IMU-STACK" },
-  bench_press_1: { name: "IMU-STACK" },
-  squat_rack: { name: "IMU-STACK" },
-  squat_rack_1: { name: "IMU-STACK" },
-  leg_press: { name: "IMU-STACK" },
-  leg_press_1: { name: "IMU-STACK" },
-  cable_machine: { name: "IMU-STACK" },
-  cable_machine_1: { name: "IMU-STACK" },
-  lat_pulldown: { name: "IMU-STACK" },
-  lat_pulldown_1: { name: "IMU-STACK" },
-  shoulder_press: { name: "IMU-STACK" },
-  shoulder_press_1: { name: "IMU-STACK" },
-  leg_curl: { name: "IMU-STACK" },
-  leg_curl_1: { name: "IMU-STACK" },
-  leg_extension: { name: "IMU-STACK" },
-  leg_extension_1: { name: "IMU-STACK" },
-  chest_fly: { name: "IMU-STACK" },
-  chest_fly_1: { name: "IMU-STACK" },
-  row_machine: { name: "IMU-STACK" },
-  row_machine_1: { name: "IMU-STACK" },
-  bicep_curl: { name: "IMU-STACK" },
-  bicep_curl_1: { name: "IMU-STACK" },
-  tricep_extension: { name: "IMU-STACK" },
-  tricep_extension_1: { name: "IMU-STACK" },
-  // Example with MAC (Android): bench_press_1: { name: "IMU-STACK", mac: "AA:BB:CC:DD:EE:FF" }
-  // Example with device UUID (iOS): bench_press_1: { name: "IMU-STACK", mac: "XXXXXXXX-XXXX-XXXX-XXXX-XXXXXXXXXXXX" }
-};
-
-/** Get BLE sensor identifier for a machine id. Returns null if unknown. */
-export function getSensorForMachineId(machineId: string): SensorIdentifier | null {
-  const id = machineId.toLowerCase().trim();
-  const direct = MACHINE_TO_SENSOR[id];
-  if (direct) return direct;
-  const base = id.replace(/_?\d+$/, "");
-  return MACHINE_TO_SENSOR[base] ?? null;
+export function getSensorForMachineId(machineId: string, gymId?: string | null): SensorIdentifier | null {
+  const machine = getMachine(machineId, gymId);
+  if (!machine) return null;
+  return { name: machine.sensorName ?? undefined, mac: machine.sensorMac ?? undefined };
 }
 
 /** Machine id -> display name for UI */
-const MACHINE_DISPLAY_NAMES: Record<string, string> = {
-  bench_press: "Bench Press", bench_press_1: "Bench Press",
-  squat_rack: "Squat Rack", squat_rack_1: "Squat Rack",
-  leg_press: "Leg Press", leg_press_1: "Leg Press",
-  cable_machine: "Cable Machine", cable_machine_1: "Cable Machine",
-  lat_pulldown: "Lat Pulldown", lat_pulldown_1: "Lat Pulldown",
-  shoulder_press: "Shoulder Press", shoulder_press_1: "Shoulder Press",
-  leg_curl: "Leg Curl", leg_curl_1: "Leg Curl",
-  leg_extension: "Leg Extension", leg_extension_1: "Leg Extension",
-  chest_fly: "Chest Fly", chest_fly_1: "Chest Fly",
-  row_machine: "Row Machine", row_machine_1: "Row Machine",
-  bicep_curl: "Bicep Curl", bicep_curl_1: "Bicep Curl",
-  tricep_extension: "Tricep Extension", tricep_extension_1: "Tricep Extension",
+export function getMachineDisplayName(machineId: string, gymId?: string | null): string | null {
+  return getMachine(machineId, gymId)?.displayName ?? null;
+}
+
+/** Where Session takes rep counts from: the firmware counter, the on-device detector, or whichever is ahead. */
+export type RepCountSource = "sensor" | "imu" | "both";
+
+export type MachineRepDetection = {
+  source: RepCountSource;
+  detector?: Partial<RepDetectorConfig>;
+};
+
+/**
+ * Per machine type rep detection tuning, keyed by the registry's exercise type (the base id, without the _1 suffix).
+ * Heavy compound lifts move slower, so they need a lower arming velocity and longer reps;
+ * isolation machines with short travel need a faster re-arm.
+ */
+export const MACHINE_REP_DETECTION: Record<string, MachineRepDetection> = {
+  squat_rack: { source: "sensor", detector: { upperVelocityMps: 0.12, minRepMs: 1000 } },
+  leg_press: { source: "sensor", detector: { upperVelocityMps: 0.12, minRepMs: 1000 } },
+  bench_press: { source: "sensor", detector: { upperVelocityMps: 0.15, minRepMs: 900 } },
+  bicep_curl: { source: "sensor", detector: { minRepMs: 600 } },
+  tricep_extension: { source: "sensor", detector: { minRepMs: 600 } },
+  leg_curl: { source: "sensor", detector: { minRepMs: 600 } },
+  leg_extension: { source: "sensor", detector: { minRepMs: 600 } },
 };
 
-export function getMachineDisplayName(machineId: string): string | null {
-  const id = machineId.toLowerCase().trim();
-  return MACHINE_DISPLAY_NAMES[id] ?? MACHINE_DISPLAY_NAMES[id.replace(/_?\d+$/, "")] ?? null;
+const DEFAULT_REP_DETECTION: MachineRepDetection = { source: "sensor" };
+
+/** Accepts a machine id ("leg_press_1") or a display name ("Leg Press"). */
+export function getRepDetectionForMachine(machine: string): MachineRepDetection {
+  const exerciseType = getMachine(machine)?.exerciseType;
+  if (exerciseType && MACHINE_REP_DETECTION[exerciseType]) return MACHINE_REP_DETECTION[exerciseType];
+  const id = machine.toLowerCase().trim().replace(/\s+/g, "_");
+  return MACHINE_REP_DETECTION[id] ?? MACHINE_REP_DETECTION[id.replace(/_?\d+$/, "")] ?? DEFAULT_REP_DETECTION;
 }
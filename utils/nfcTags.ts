@@ -0,0 +1,52 @@
+import { Ndef } from "react-native-nfc-manager";
+
+/** NDEF helpers shared by tag scanning (workout/nfc) and tag provisioning (settings/tags). */
+
+export type NdefTag = {
+  ndefMessage?: Array<{
+    tnf?: number;
+    type?: string | number[];
+    payload?: number[];
+  }>;
+};
+
+/** First movo:// URI on the tag, from a URI record, a text record or a raw payload. */
+export function extractUriFromTag(tag: NdefTag): string | null {
+  const records = tag?.ndefMessage;
+  if (!Array.isArray(records) || records.length === 0) return null;
+
+  for (const record of records) {
+    try {
+      if (record.tnf === 0x03 && typeof record.type === "string") {
+        return record.type;
+      }
+      if (record.tnf === 0x01 && record.payload && record.payload.length > 0) {
+        const typeStr =
+          Array.isArray(record.type) ? String.fromCharCode(...record.type) : record.type;
+        const payload =
+          record.payload instanceof Uint8Array
+            ? record.payload
+            : new Uint8Array(record.payload);
+        if (typeStr === "U" || (Array.isArray(record.type) && record.type[0] === 0x55)) {
+          const uri = Ndef.uri.decodePayload(payload);
+          if (uri) return uri;
+        }
+        if (typeStr === "T" || (Array.isArray(record.type) && record.type[0] === 0x54)) {
+          try {
+            const text = Ndef.text.decodePayload(payload);
+            if (text && text.includes("movo://")) return text;
+          } catch {
+            // skip
+          }
+        }
+      }
+      if (record.payload && record.payload.length > 0) {
+        const raw = String.fromCharCode(...record.payload);
+        if (raw.includes("movo://")) return raw;
+      }
+    } catch {
+      // skip
+    }
+  }
+  return null;
+}
@@ -0,0 +1,175 @@
+import type { Workout, WorkoutExercise } from "@/utils/workoutStorage";
+import { bumpWeightKg, formatWeight, type WeightUnit } from "@/utils/weightUnits";
+
+/**
+ * Double progression from recent history on one machine: add reps until the top of the rep
+ * range, then add load and drop back to the bottom of the range. Missed targets hold the
+ * prescription, and repeated misses deload. Long rests and a large bar-speed drop across the
+ * session (when telemetry exists) are read as the last session being harder than the reps show.
+ */
+
+export type OverloadSuggestion = {
+  sets: number;
+  reps: number;
+  weightKg: number | null;
+  /** Plain-language reasons, most important first, for the confirm screen */
+  reasons: string[];
+  /** Number of past sessions the suggestion was based on */
+  basedOn: number;
+};
+
+export type OverloadOptions = {
+  /** How many recent sessions on the machine to look at */
+  lookback: number;
+  repRangeMin: number;
+  repRangeMax: number;
+  /** Bodyweight work adds a set instead of load once reps reach this */
+  bodyweightRepCap: number;
+  maxSets: number;
+  /** Average rest above this marks the session as a grind */
+  longRestSec: number;
+  /** Peak velocity loss from first to last set above this marks the session as a grind */
+  highVelocityLoss: number;
+  unit: WeightUnit;
+};
+
+export const DEFAULT_OVERLOAD_OPTIONS: OverloadOptions = {
+  lookback: 5,
+  repRangeMin: 6,
+  repRangeMax: 12,
+  bodyweightRepCap: 15,
+  maxSets: 5,
+  longRestSec: 180,
+  highVelocityLoss: 0.3,
+  unit: "kg",
+};
+
+type SessionStats = {
+  exercise: WorkoutExercise;
+  completion: number;
+  avgRestSec: number | null;
+  velocityLoss: number | null;
+  weightKg: number | null;
+};
+
+function sameMachine(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+}
+
+function sessionStats(exercise: WorkoutExercise): SessionStats {
+  const { sets } = exercise;
+  const target = sets.reduce((sum, s) => sum + s.targetReps, 0);
+  const done = sets.reduce((sum, s) => sum + Math.min(s.achievedReps, s.targetReps), 0);
+
+  // Mean per-set peak velocity, first measured set vs last
+  const setVelocity = sets
+    .map((s) => average((s.telemetry ?? []).map((r) => r.peakVelocityMps).filter((v) => v > 0)))
+    .filter((v): v is number => v !== null);
+  const velocityLoss =
+    setVelocity.length >= 2 && setVelocity[0] > 0 ? 1 - setVelocity[setVelocity.length - 1] / setVelocity[0] : null;
+
+  // The working load is the one most sets used
+  const loads = sets.map((s) => s.weightKg).filter((w): w is number => w != null);
+  const weightKg = loads.length > 0 ? loads.sort((a, b) => a - b)[Math.floor(loads.length / 2)] : null;
+
+  return {
+    exercise,
+    completion: target > 0 ? done / target : 1,
+    avgRestSec: average(sets.slice(1).map((s) => s.restBeforeSec).filter((r) => r > 0)),
+    velocityLoss,
+    weightKg,
+  };
+}
+
+function formatRest(sec: number): string {
+  const mins = Math.floor(sec / 60);
+  const secs = Math.round(sec % 60);
+  return `${mins}:${secs.toString().padStart(2, "0")}`;
+}
+
+/** Next prescription for `machineName`, or null when there is no history on that machine. */
+export function suggestNextSession(
+  history: Workout[],
+  machineName: string,
+  options: Partial<OverloadOptions> = {}
+): OverloadSuggestion | null {
+  const opts: OverloadOptions = { ...DEFAULT_OVERLOAD_OPTIONS, ...options };
+  const recent = [...history]
+    .sort((a, b) => new Date(b.completedAt).getTime() - new Date(a.completedAt).getTime())
+    .flatMap((w) => w.exercises.filter((e) => sameMachine(e.machineName, machineName) && e.sets.length > 0))
+    .slice(0, opts.lookback)
+    .map(sessionStats);
+  if (recent.length === 0) return null;
+
+  const [last, previous] = recent;
+  const sets = last.exercise.targetSets;
+  const reps = last.exercise.targetReps;
+  const weightKg = last.weightKg;
+  const pct = Math.round(last.completion * 100);
+  const hold = (reasons: string[]): OverloadSuggestion => ({ sets, reps, weightKg, reasons, basedOn: recent.length });
+
+  if (last.completion < 0.8) {
+    if (previous && previous.completion < 0.8) {
+      const reasons = [`Missed targets two sessions running (${pct}% last time)`];
+      if (weightKg != null) {
+        const deload = bumpWeightKg(weightKg * 0.9, 0, opts.unit);
+        reasons.push(`Deload ~10% to ${formatWeight(deload, opts.unit)} and rebuild`);
+        return { sets, reps, weightKg: deload > 0 ? deload : null, reasons, basedOn: recent.length };
+      }
+      const fewer = Math.max(1, reps - 2);
+      reasons.push(`Drop to ${fewer} reps and rebuild`);
+      return { sets, reps: fewer, weightKg, reasons, basedOn: recent.length };
+    }
+    return hold([`Completed ${pct}% of target reps last time — repeat it before progressing`]);
+  }
+  if (last.completion < 1) {
+    return hold([`Completed ${pct}% of target reps — close, repeat to finish every set`]);
+  }
+
+  // Every rep done: check whether it was a grind before progressing
+  if (last.velocityLoss !== null && last.velocityLoss > opts.highVelocityLoss) {
+    return hold([
+      `All reps done, but bar speed fell ${Math.round(last.velocityLoss * 100)}% by the last set`,
+      "Repeat until the last set moves faster",
+    ]);
+  }
+  if (last.avgRestSec !== null && last.avgRestSec > opts.longRestSec) {
+    return hold([
+      `All reps done, but rests averaged ${formatRest(last.avgRestSec)}`,
+      `Repeat with rests under ${formatRest(opts.longRestSec)} before progressing`,
+    ]);
+  }
+
+  const reasons = [`Hit all ${sets}×${reps} last time`];
+  if (last.velocityLoss !== null) {
+    reasons.push(`Bar speed held up (${Math.round(last.velocityLoss * 100)}% drop across sets)`);
+  }
+
+  if (weightKg == null) {
+    if (reps + 1 >= opts.bodyweightRepCap && sets < opts.maxSets) {
+      // Fewest reps over one more set that still beat last session's total
+      const spread = Math.min(opts.bodyweightRepCap, Math.floor((sets * reps) / (sets + 1)) + 1);
+      reasons.push(`Add a set instead of more reps past ${opts.bodyweightRepCap}, at ${spread} reps each`);
+      return { sets: sets + 1, reps: spread, weightKg, reasons, basedOn: recent.length };
+    }
+    reasons.push("Add a rep per set");
+    return { sets, reps: reps + 1, weightKg, reasons, basedOn: recent.length };
+  }
+
+  if (reps < opts.repRangeMax) {
+    reasons.push(`Add a rep per set, working up to ${opts.repRangeMax}`);
+    return { sets, reps: reps + 1, weightKg, reasons, basedOn: recent.length };
+  }
+
+  // Fast, easy sessions earn a double jump
+  const steps = last.velocityLoss !== null && last.velocityLoss < 0.1 ? 2 : 1;
+  const heavier = bumpWeightKg(weightKg, steps, opts.unit);
+  reasons.push(
+    `Top of the ${opts.repRangeMin}–${opts.repRangeMax} range: go to ${formatWeight(heavier, opts.unit)} for ${opts.repRangeMin + 2} reps`
+  );
+  return { sets, reps: opts.repRangeMin + 2, weightKg: heavier, reasons, basedOn: recent.length };
+}
@@ -1,10 +1,13 @@
 import { supabase } from "@/lib/supabase";
+import { DEFAULT_REST_SEC } from "@/utils/restTimer";
 
 export type PlanExercise = {
   id: string;
   name: string;
   sets: number;
   reps: number;
+  weight_kg: number | null; // Starting load for every set; null for bodyweight or not set
+  rest_sec: number; // Target rest between sets; 0 for none
   order_index: number;
 };
 
@@ -12,7 +15,7 @@ export async function getPlanExercises(userId: string): Promise<PlanExercise[]>
   if (!supabase) return [];
   const { data, error } = await supabase
     .from("workout_plan_exercises")
-    .select("id, name, sets, reps, order_index")
+    .select("id, name, sets, reps, weight_kg, rest_sec, order_index")
     .eq("user_id", userId)
     .order("order_index", { ascending: true });
   if (error) return [];
@@ -21,13 +24,15 @@ export async function getPlanExercises(userId: string): Promise<PlanExercise[]>
     name: r.name,
     sets: r.sets,
     reps: r.reps,
+    weight_kg: r.weight_kg,
+    rest_sec: r.rest_sec,
     order_index: r.order_index,
   }));
 }
 
 export async function addPlanExercise(
   userId: string,
-  exercise: { name: string; sets: number; reps: number }
+  exercise: { name: string; sets: number; reps: number; weight_kg?: number | null; rest_sec?: number }
 ): Promise<PlanExercise | null> {
   if (!supabase) return null;
   const { data: existing } = await supabase
@@ -45,9 +50,11 @@ export async function addPlanExercise(
       name: exercise.name,
       sets: exercise.sets,
       reps: exercise.reps,
+      weight_kg: exercise.weight_kg ?? null,
+      rest_sec: exercise.rest_sec ?? DEFAULT_REST_SEC,
       order_index: nextOrder,
     })
-    .select("id, name, sets, reps, order_index")
+    .select("id, name, sets, reps, weight_kg, rest_sec, order_index")
     .single();
   if (error) return null;
   return data
@@ -56,6 +63,8 @@ export async function addPlanExercise(
         name: data.name,
         sets: data.sets,
         reps: data.reps,
+        weight_kg: data.weight_kg,
+        rest_sec: data.rest_sec,
         order_index: data.order_index,
       }
     : null;
@@ -64,7 +73,7 @@ export async function addPlanExercise(
 export async function updatePlanExercise(
   userId: string,
   id: string,
-  updates: { sets?: number; reps?: number }
+  updates: { sets?: number; reps?: number; weight_kg?: number | null; rest_sec?: number }
 ): Promise<boolean> {
   if (!supabase) return false;
   const { error } = await supabase
@@ -0,0 +1,56 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+/**
+ * The sensor the member picked for each machine, so the next scan of that machine's tag connects
+ * straight to it instead of whichever identically named sensor answers first. Device ids are MAC
+ * addresses on Android and per-phone UUIDs on iOS, so this stays on the device.
+ */
+
+const KEY = "rememberedSensors:v1";
+
+export type RememberedSensor = {
+  deviceId: string;
+  name: string;
+  savedAt: number;
+};
+
+/** Machine ids are only unique per gym. */
+export function sensorMachineKey(machineId: string, gymId: string | null): string {
+  return `${gymId ?? ""}:${machineId.toLowerCase()}`;
+}
+
+async function readAll(): Promise<Record<string, RememberedSensor>> {
+  try {
+    const stored = await AsyncStorage.getItem(KEY);
+    const parsed = stored ? JSON.parse(stored) : null;
+    return parsed && typeof parsed === "object" ? (parsed as Record<string, RememberedSensor>) : {};
+  } catch {
+    return {};
+  }
+}
+
+async function writeAll(all: Record<string, RememberedSensor>): Promise<void> {
+  try {
+    await AsyncStorage.setItem(KEY, JSON.stringify(all));
+  } catch {
+    // ignore
+  }
+}
+
+export async function getRememberedSensor(machineKey: string): Promise<RememberedSensor | null> {
+  const entry = (await readAll())[machineKey];
+  return entry && typeof entry.deviceId === "string" ? entry : null;
+}
+
+export async function rememberSensor(machineKey: string, deviceId: string, name: string): Promise<void> {
+  const all = await readAll();
+  all[machineKey] = { deviceId, name, savedAt: Date.now() };
+  await writeAll(all);
+}
+
+export async function forgetSensor(machineKey: string): Promise<void> {
+  const all = await readAll();
+  if (!(machineKey in all)) return;
+  delete all[machineKey];
+  await writeAll(all);
+}
@@ -0,0 +1,152 @@
+import type { TimedSample } from "@/utils/repTelemetry";
+
+/**
+ * Fallback rep counter that works on raw live IMU samples instead of the firmware's REPS counter.
+ *
+ * Pipeline per sample: slow EMA of the raw vector as the gravity estimate, projection of the
+ * acceleration onto it, low-pass filter, leaky integration to a drift-free vertical velocity.
+ * A rep is a velocity peak: the velocity has to rise above `upperVelocityMps` (concentric) and
+ * then fall back below `lowerVelocityMps` before the next rep can start.
+ */
+
+const GRAVITY_MPS2 = 9.81;
+
+export type RepDetectorConfig = {
+  /** Low-pass cutoff applied to vertical acceleration */
+  lowPassHz: number;
+  /** Time constant of the gravity estimate */
+  gravityTauMs: number;
+  /** Time constant of the leaky velocity integrator; shorter forgets drift faster */
+  velocityTauMs: number;
+  /** Velocity that arms a rep */
+  upperVelocityMps: number;
+  /** Velocity the signal must drop back under to complete the rep */
+  lowerVelocityMps: number;
+  /** Reps closer together than this are treated as bounce and ignored */
+  minRepMs: number;
+  /**
+   * A peak under this fraction of the previous rep's is the integrator rebounding after the
+   * eccentric (the leak leaves the velocity positive as the stack stops at the bottom), not a rep
+   */
+  minPeakRatio: number;
+  /**
+   * The rebound shows up within this long of the previous rep; a slower rep that starts later,
+   * e.g. after a pause at lockout near failure, is counted whatever its peak
+   */
+  reboundWindowMs: number;
+};
+
+export const DEFAULT_REP_DETECTOR_CONFIG: RepDetectorConfig = {
+  lowPassHz: 4,
+  gravityTauMs: 2000,
+  velocityTauMs: 1500,
+  upperVelocityMps: 0.2,
+  lowerVelocityMps: 0.05,
+  minRepMs: 700,
+  minPeakRatio: 0.5,
+  reboundWindowMs: 2500,
+};
+
+export type RepDetection = {
+  /** 1-based count since the detector was created or last reset */
+  rep: number;
+  atMs: number;
+  peakVelocityMps: number;
+};
+
+export type RepDetector = {
+  push: (sample: TimedSample) => RepDetection | null;
+  reset: () => void;
+  getCount: () => number;
+  /** True from the moment a rep arms until it completes, i.e. while the stack is going up */
+  isMoving: () => boolean;
+};
+
+export function createRepDetector(config: Partial<RepDetectorConfig> = {}): RepDetector {
+  const cfg: RepDetectorConfig = { ...DEFAULT_REP_DETECTOR_CONFIG, ...config };
+
+  let count = 0;
+  let lastAtMs: number | null = null;
+  let gravity: [number, number, number] | null = null;
+  let filtered = 0;
+  let velocity = 0;
+  let armed = false;
+  let peak = 0;
+  let lastRepAtMs = -Infinity;
+  let lastPeak = 0;
+  let armedAtMs = 0;
+
+  const reset = () => {
+    count = 0;
+    lastAtMs = null;
+    gravity = null;
+    filtered = 0;
+    velocity = 0;
+    armed = false;
+    peak = 0;
+    lastRepAtMs = -Infinity;
+    lastPeak = 0;
+  };
+
+  const push = ({ atMs, sample }: TimedSample): RepDetection | null => {
+    const raw: [number, number, number] = [sample.ax, sample.ay, sample.az];
+    if (!gravity || lastAtMs === null) {
+      gravity = raw;
+      lastAtMs = atMs;
+      return null;
+    }
+    const dtMs = atMs - lastAtMs;
+    lastAtMs = atMs;
+    if (dtMs <= 0) return null;
+    const dt = dtMs / 1000;
+
+    const gAlpha = 1 - Math.exp(-dtMs / cfg.gravityTauMs);
+    gravity = [
+      gravity[0] + gAlpha * (raw[0] - gravity[0]),
+      gravity[1] + gAlpha * (raw[1] - gravity[1]),
+      gravity[2] + gAlpha * (raw[2] - gravity[2]),
+    ];
+    const gMag = Math.sqrt(gravity[0] ** 2 + gravity[1] ** 2 + gravity[2] ** 2);
+    if (gMag < 0.5) return null;
+
+    const vertical =
+      ((raw[0] * gravity[0] + raw[1] * gravity[1] + raw[2] * gravity[2]) / gMag - gMag) * GRAVITY_MPS2;
+    const rc = 1 / (2 * Math.PI * cfg.lowPassHz);
+    filtered += (dt / (rc + dt)) * (vertical - filtered);
+    velocity = velocity * Math.exp(-dtMs / cfg.velocityTauMs) + filtered * dt;
+
+    if (!armed) {
+      if (velocity > cfg.upperVelocityMps) {
+        armed = true;
+        armedAtMs = atMs;
+        peak = velocity;
+      }
+      return null;
+    }
+
+    peak = Math.max(peak, velocity);
+    if (velocity >= cfg.lowerVelocityMps) return null;
+
+    armed = false;
+    if (atMs - lastRepAtMs < cfg.minRepMs) return null;
+    const inReboundWindow = armedAtMs - lastRepAtMs < cfg.reboundWindowMs;
+    if (inReboundWindow && peak < lastPeak * cfg.minPeakRatio) return null;
+    lastRepAtMs = atMs;
+    lastPeak = peak;
+    count += 1;
+    return { rep: count, atMs, peakVelocityMps: Math.round(peak * 100) / 100 };
+  };
+
+  return { push, reset, getCount: () => count, isMoving: () => armed };
+}
+
+/** Run the detector over a recorded series, e.g. a fixture captured from a real set. */
+export function detectReps(samples: TimedSample[], config: Partial<RepDetectorConfig> = {}): RepDetection[] {
+  const detector = createRepDetector(config);
+  const detections: RepDetection[] = [];
+  for (const s of samples) {
+    const d = detector.push(s);
+    if (d) detections.push(d);
+  }
+  return detections;
+}
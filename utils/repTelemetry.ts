@@ -0,0 +1,189 @@
+import type { LiveSample } from "@/utils/sensorProtocol";
+
+/**
+ * Per-set time series of live IMU samples, cut into reps at the moments the rep counter ticks.
+ * Each rep window is projected onto the gravity axis and integrated to get velocity and
+ * displacement, from which concentric/eccentric time, range of motion and peak velocity follow.
+ */
+
+const GRAVITY_MPS2 = 9.81;
+// Keeps a runaway live stream from growing a set's buffer without bound (~2 min at 50 Hz)
+const MAX_SAMPLES_PER_SET = 6000;
+
+export type TimedSample = {
+  atMs: number;
+  sample: LiveSample;
+};
+
+export type RepMetrics = {
+  /** 1-based rep number within the set */
+  rep: number;
+  startMs: number;
+  endMs: number;
+  concentricMs: number;
+  eccentricMs: number;
+  /** Range of motion along the gravity axis, in cm */
+  romCm: number;
+  /** Peak speed along the gravity axis, in m/s */
+  peakVelocityMps: number;
+};
+
+export type RepKinematics = Omit<RepMetrics, "rep" | "startMs" | "endMs">;
+
+/** Kinematics for one rep window; null when there are too few samples to say anything. */
+export function computeRepKinematics(samples: TimedSample[]): RepKinematics | null {
+  if (samples.length < 4) return null;
+  const t0 = samples[0].atMs;
+  const tN = samples[samples.length - 1].atMs;
+  if (tN <= t0) return null;
+
+  // The mean acceleration over a rep is dominated by gravity, which gives the vertical axis.
+  let gx = 0;
+  let gy = 0;
+  let gz = 0;
+  for (const { sample } of samples) {
+    gx += sample.ax;
+    gy += sample.ay;
+    gz += sample.az;
+  }
+  gx /= samples.length;
+  gy /= samples.length;
+  gz /= samples.length;
+  const gMag = Math.sqrt(gx * gx + gy * gy + gz * gz);
+  if (gMag < 0.5) return null;
+  const ux = gx / gMag;
+  const uy = gy / gMag;
+  const uz = gz / gMag;
+
+  const accel = samples.map(
+    ({ sample }) => (sample.ax * ux + sample.ay * uy + sample.az * uz - gMag) * GRAVITY_MPS2
+  );
+
+  const velocity = [0];
+  for (let i = 1; i < samples.length; i++) {
+    const dt = (samples[i].atMs - samples[i - 1].atMs) / 1000;
+    velocity.push(velocity[i - 1] + ((accel[i] + accel[i - 1]) / 2) * dt);
+  }
+  // The stack is at rest at both ends of a rep, so any end velocity is integration drift.
+  const drift = velocity[velocity.length - 1];
+  for (let i = 0; i < velocity.length; i++) {
+    velocity[i] -= drift * ((samples[i].atMs - t0) / (tN - t0));
+  }
+
+  let position = 0;
+  let minPos = 0;
+  let maxPos = 0;
+  let concentricMs = 0;
+  let eccentricMs = 0;
+  let peak = 0;
+  for (let i = 1; i < samples.length; i++) {
+    const dtMs = samples[i].atMs - samples[i - 1].atMs;
+    const v = (velocity[i] + velocity[i - 1]) / 2;
+    position += v * (dtMs / 1000);
+    minPos = Math.min(minPos, position);
+    maxPos = Math.max(maxPos, position);
+    if (v > 0) concentricMs += dtMs;
+    else if (v < 0) eccentricMs += dtMs;
+    peak = Math.max(peak, Math.abs(velocity[i]));
+  }
+
+  return {
+    concentricMs: Math.round(concentricMs),
+    eccentricMs: Math.round(eccentricMs),
+    romCm: Math.round((maxPos - minPos) * 1000) / 10,
+    peakVelocityMps: Math.round(peak * 100) / 100,
+  };
+}
+
+export type TelemetryBuffer = {
+  /** Start a new set; samples from before this moment are dropped. */
+  startSet: (atMs: number) => void;
+  addSample: (sample: TimedSample) => void;
+  /** Close `count` reps ending at `atMs`; a multi-rep jump splits the window evenly. */
+  markReps: (count: number, atMs: number) => void;
+  /** Take back the last `count` reps (counted by mistake); their window becomes part of the next rep. */
+  unmarkReps: (count: number) => void;
+  /** Metrics for the set so far, then reset for the next set. */
+  finishSet: () => RepMetrics[];
+  /** Reopen a finished set, e.g. after the rep that completed it was undone. */
+  resumeSet: (metrics: RepMetrics[]) => void;
+  getSamples: () => TimedSample[];
+};
+
+export function createTelemetryBuffer(): TelemetryBuffer {
+  let samples: TimedSample[] = [];
+  let metrics: RepMetrics[] = [];
+  let repStartMs: number | null = null;
+
+  const startSet = (atMs: number) => {
+    samples = [];
+    metrics = [];
+    repStartMs = atMs;
+  };
+
+  const markReps = (count: number, atMs: number) => {
+    if (count <= 0) return;
+    const windowStart = repStartMs ?? samples[0]?.atMs ?? atMs;
+    const step = (atMs - windowStart) / count;
+    for (let i = 0; i < count; i++) {
+      const startMs = windowStart + step * i;
+      const endMs = i === count - 1 ? atMs : startMs + step;
+      const window = samples.filter((s) => s.atMs >= startMs && s.atMs <= endMs);
+      const kinematics = computeRepKinematics(window);
+      metrics.push({
+        rep: metrics.length + 1,
+        startMs: Math.round(startMs),
+        endMs: Math.round(endMs),
+        concentricMs: kinematics?.concentricMs ?? 0,
+        eccentricMs: kinematics?.eccentricMs ?? 0,
+        romCm: kinematics?.romCm ?? 0,
+        peakVelocityMps: kinematics?.peakVelocityMps ?? 0,
+      });
+    }
+    repStartMs = atMs;
+  };
+
+  const unmarkReps = (count: number) => {
+    if (count <= 0 || metrics.length === 0) return;
+    const removed = metrics.splice(-count);
+    repStartMs = removed[0].startMs;
+  };
+
+  return {
+    startSet,
+    addSample(sample) {
+      if (samples.length >= MAX_SAMPLES_PER_SET) samples.shift();
+      samples.push(sample);
+    },
+    markReps,
+    unmarkReps,
+    finishSet() {
+      const done = metrics;
+      samples = [];
+      metrics = [];
+      repStartMs = null;
+      return done;
+    },
+    resumeSet(finished) {
+      metrics = [...finished];
+      repStartMs = finished[finished.length - 1]?.endMs ?? null;
+    },
+    getSamples: () => samples,
+  };
+}
+
+/** Averages over the reps that produced kinematics, for history cards. */
+export function summarizeRepMetrics(reps: RepMetrics[]): { avgRomCm: number; peakVelocityMps: number } | null {
+  const measured = reps.filter((r) => r.romCm > 0 || r.peakVelocityMps > 0);
+  if (measured.length === 0) return null;
+  const avgRomCm = measured.reduce((sum, r) => sum + r.romCm, 0) / measured.length;
+  const peakVelocityMps = Math.max(...measured.map((r) => r.peakVelocityMps));
+  return { avgRomCm: Math.round(avgRomCm * 10) / 10, peakVelocityMps };
+}
+
+/** Concentric plus eccentric time over the reps that produced kinematics; null when none did. */
+export function timeUnderTensionMs(reps: RepMetrics[]): number | null {
+  const measured = reps.filter((r) => r.concentricMs > 0 || r.eccentricMs > 0);
+  if (measured.length === 0) return null;
+  return measured.reduce((sum, r) => sum + r.concentricMs + r.eccentricMs, 0);
+}
@@ -0,0 +1,74 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import type { WorkoutSet } from "@/utils/workoutStorage";
+
+/**
+ * Target rest between sets: set per plan exercise and on the confirm screen, counted down in the
+ * session's rest drawer and kept on each set so over- and under-rest show up afterwards.
+ * 0 means no target; the drawer then just counts up.
+ */
+
+const AUTO_START_KEY = "movu:autoStartNextSet:v1";
+const REST_END_SOUND_KEY = "movu:restEndSound:v1";
+
+export const DEFAULT_REST_SEC = 90;
+export const REST_STEP_SEC = 15;
+export const MAX_REST_SEC = 600;
+// Auto-start ignores movement this early in the rest, e.g. the stack settling after the last rep
+export const MIN_REST_BEFORE_AUTO_START_SEC = 10;
+
+export function bumpRestSec(seconds: number, delta: number): number {
+  return Math.max(0, Math.min(MAX_REST_SEC, seconds + delta * REST_STEP_SEC));
+}
+
+export function formatRestTarget(seconds: number): string {
+  if (seconds <= 0) return "Off";
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins}:${secs.toString().padStart(2, "0")}`;
+}
+
+/** Seconds rested beyond the target (negative when cut short); null when the set had no target. */
+export function getRestDeviationSec(set: WorkoutSet): number | null {
+  return set.restTargetSec ? set.restBeforeSec - set.restTargetSec : null;
+}
+
+/** "+15s over" / "20s short" / "on target" */
+export function formatRestDeviation(deviationSec: number): string {
+  if (deviationSec === 0) return "on target";
+  return deviationSec > 0 ? `+${deviationSec}s over` : `${-deviationSec}s short`;
+}
+
+/** Whether the next set starts by itself when the sensor sees the stack move during rest. */
+export async function getAutoStartNextSet(): Promise<boolean> {
+  try {
+    return (await AsyncStorage.getItem(AUTO_START_KEY)) === "1";
+  } catch {
+    return false;
+  }
+}
+
+export async function setAutoStartNextSet(enabled: boolean): Promise<void> {
+  try {
+    await AsyncStorage.setItem(AUTO_START_KEY, enabled ? "1" : "0");
+  } catch {
+    // ignore
+  }
+}
+
+/** Whether reaching the rest target also plays a tone, on top of the vibration. On unless turned off. */
+export async function getRestEndSound(): Promise<boolean> {
+  try {
+    return (await AsyncStorage.getItem(REST_END_SOUND_KEY)) !== "0";
+  } catch {
+    return true;
+  }
+}
+
+export async function setRestEndSound(enabled: boolean): Promise<void> {
+  try {
+    await AsyncStorage.setItem(REST_END_SOUND_KEY, enabled ? "1" : "0");
+  } catch {
+    // ignore
+  }
+}
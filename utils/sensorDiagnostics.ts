@@ -0,0 +1,247 @@
+import { Platform } from "react-native";
+import Constants from "expo-constants";
+import { File, Paths } from "expo-file-system";
+import * as Sharing from "expo-sharing";
+
+import type { SensorInfo } from "@/utils/sensorInfo";
+import type { SensorCharacteristic, SensorPayloadSource, SensorSessionEvent } from "@/utils/sensorSession";
+
+/**
+ * Connection health of the current (or last) workout session's sensor.
+ * The session screen feeds it; the diagnostics screen reads it and exports it as a text file for
+ * bug reports. Kept at module level so the log outlives the session screen it was recorded on.
+ */
+
+const MAX_FRAMES = 500;
+const MAX_RSSI_SAMPLES = 300;
+const MAX_EVENTS = 200;
+// Notification rate is averaged over this window
+const RATE_WINDOW_MS = 5000;
+
+export type DiagnosticsFrame = {
+  atMs: number;
+  characteristic: SensorCharacteristic;
+  source: SensorPayloadSource;
+  /** base64, as received */
+  raw: string;
+  /** Decoded frame, or the reason it was rejected */
+  text: string;
+  rejected: boolean;
+};
+
+export type RssiSample = { atMs: number; rssi: number };
+
+export type DiagnosticsEvent = { atMs: number; message: string };
+
+export type DiagnosticsDeviceInfo = Partial<SensorInfo> & {
+  deviceId?: string | null;
+  deviceName?: string | null;
+  mtu?: number | null;
+};
+
+export type DiagnosticsSnapshot = {
+  startedAtMs: number;
+  info: DiagnosticsDeviceInfo;
+  rssi: RssiSample[];
+  frames: DiagnosticsFrame[];
+  events: DiagnosticsEvent[];
+  notifyCount: number;
+  liveCount: number;
+  pollCount: number;
+  rejectedCount: number;
+  /** Notifications per second over the last few seconds (reps and live together) */
+  notifyRateHz: number;
+  lastNotifyAtMs: number | null;
+  /** Live frames lost in transit, from gaps in the sequence numbers */
+  missedLiveFrames: number;
+  /** Longest silence between two notifications */
+  longestGapMs: number;
+  lastError: string | null;
+};
+
+let startedAtMs = Date.now();
+let info: DiagnosticsDeviceInfo = {};
+let rssi: RssiSample[] = [];
+let frames: DiagnosticsFrame[] = [];
+let events: DiagnosticsEvent[] = [];
+let notifyTimes: number[] = [];
+let notifyCount = 0;
+let liveCount = 0;
+let pollCount = 0;
+let rejectedCount = 0;
+let lastNotifyAtMs: number | null = null;
+let lastLiveSeq: number | null = null;
+let missedLiveFrames = 0;
+let longestGapMs = 0;
+let lastError: string | null = null;
+
+function pushCapped<T>(list: T[], item: T, max: number) {
+  list.push(item);
+  if (list.length > max) list.splice(0, list.length - max);
+}
+
+/** Start a fresh log; called when a workout session opens. */
+export function resetDiagnostics() {
+  startedAtMs = Date.now();
+  info = {};
+  rssi = [];
+  frames = [];
+  events = [];
+  notifyTimes = [];
+  notifyCount = 0;
+  liveCount = 0;
+  pollCount = 0;
+  rejectedCount = 0;
+  lastNotifyAtMs = null;
+  lastLiveSeq = null;
+  missedLiveFrames = 0;
+  longestGapMs = 0;
+  lastError = null;
+}
+
+export function recordDiagnosticsEvent(message: string, atMs = Date.now()) {
+  pushCapped(events, { atMs, message }, MAX_EVENTS);
+}
+
+export function updateDiagnosticsInfo(update: DiagnosticsDeviceInfo) {
+  info = { ...info, ...update };
+}
+
+export function recordRssi(value: number, atMs = Date.now()) {
+  pushCapped(rssi, { atMs, rssi: value }, MAX_RSSI_SAMPLES);
+}
+
+function recordNotify(atMs: number) {
+  if (lastNotifyAtMs !== null) longestGapMs = Math.max(longestGapMs, atMs - lastNotifyAtMs);
+  lastNotifyAtMs = atMs;
+  notifyCount += 1;
+  notifyTimes.push(atMs);
+  while (notifyTimes.length > 0 && notifyTimes[0] < atMs - RATE_WINDOW_MS) notifyTimes.shift();
+}
+
+export function recordSensorEvent(event: SensorSessionEvent) {
+  switch (event.type) {
+    case "reps-frame":
+      if (event.source === "notify") recordNotify(event.atMs);
+      else if (event.source === "poll") pollCount += 1;
+      pushCapped(
+        frames,
+        { atMs: event.atMs, characteristic: "reps", source: event.source, raw: event.raw, text: event.text, rejected: false },
+        MAX_FRAMES
+      );
+      break;
+    case "live": {
+      recordNotify(event.atMs);
+      liveCount += 1;
+      const seq = event.frame.seq;
+      if (seq !== null) {
+        // uint16 sequence; a jump of more than one is frames the radio dropped
+        if (lastLiveSeq !== null) missedLiveFrames += (seq - lastLiveSeq - 1 + 0x10000) % 0x10000;
+        lastLiveSeq = seq;
+      }
+      pushCapped(
+        frames,
+        { atMs: event.atMs, characteristic: "live", source: "notify", raw: event.raw, text: event.text, rejected: false },
+        MAX_FRAMES
+      );
+      break;
+    }
+    case "rejected":
+      if (event.source === "notify") recordNotify(event.atMs);
+      rejectedCount += 1;
+      pushCapped(
+        frames,
+        {
+          atMs: event.atMs,
+          characteristic: event.characteristic,
+          source: event.source,
+          raw: event.raw,
+          text: event.reason,
+          rejected: true,
+        },
+        MAX_FRAMES
+      );
+      break;
+    case "error":
+      lastError = event.message;
+      recordDiagnosticsEvent(`${event.fatal ? "Fatal error" : "Error"}: ${event.message}`);
+      break;
+  }
+}
+
+export function getDiagnosticsSnapshot(now = Date.now()): DiagnosticsSnapshot {
+  const recent = notifyTimes.filter((t) => t >= now - RATE_WINDOW_MS);
+  return {
+    startedAtMs,
+    info: { ...info },
+    rssi: [...rssi],
+    frames: [...frames],
+    events: [...events],
+    notifyCount,
+    liveCount,
+    pollCount,
+    rejectedCount,
+    notifyRateHz: recent.length / (RATE_WINDOW_MS / 1000),
+    lastNotifyAtMs,
+    missedLiveFrames,
+    longestGapMs,
+    lastError,
+  };
+}
+
+function isoTime(ms: number): string {
+  return new Date(ms).toISOString();
+}
+
+/** Plain-text report: summary first, then events, RSSI and the raw frame log, oldest first. */
+export function formatDiagnosticsLog(snapshot: DiagnosticsSnapshot): string {
+  const { info: i } = snapshot;
+  const value = (v: string | number | null | undefined) => (v === null || v === undefined ? "-" : String(v));
+  const lines = [
+    "Movu sensor diagnostics",
+    `Generated: ${isoTime(Date.now())}`,
+    `Session started: ${isoTime(snapshot.startedAtMs)}`,
+    `App: ${value(Constants.expoConfig?.version)} · ${Platform.OS} ${Platform.Version}`,
+    "",
+    `Device: ${value(i.deviceName)} (${value(i.deviceId)})`,
+    `MTU: ${value(i.mtu)}`,
+    `Manufacturer: ${value(i.manufacturer)}`,
+    `Model: ${value(i.modelNumber)}`,
+    `Firmware: ${value(i.firmwareRevision)}`,
+    `Hardware: ${value(i.hardwareRevision)}`,
+    `Battery: ${i.batteryPercent == null ? "-" : `${i.batteryPercent}%`}`,
+    "",
+    `Notifications: ${snapshot.notifyCount} (live ${snapshot.liveCount}), polls: ${snapshot.pollCount}, rejected: ${snapshot.rejectedCount}`,
+    `Notification rate: ${snapshot.notifyRateHz.toFixed(1)}/s`,
+    `Missed live frames: ${snapshot.missedLiveFrames}`,
+    `Longest gap: ${snapshot.longestGapMs} ms`,
+    `Last error: ${value(snapshot.lastError)}`,
+    "",
+    "== Events ==",
+    ...snapshot.events.map((e) => `${isoTime(e.atMs)} ${e.message}`),
+    "",
+    "== RSSI (dBm) ==",
+    ...snapshot.rssi.map((s) => `${isoTime(s.atMs)} ${s.rssi}`),
+    "",
+    "== Frames ==",
+    ...snapshot.frames.map(
+      (f) =>
+        `${isoTime(f.atMs)} ${f.characteristic}/${f.source} ${f.raw} ${f.rejected ? `REJECTED ${f.text}` : f.text}`
+    ),
+  ];
+  return lines.join("\n") + "\n";
+}
+
+/** Write the current log to a file in the cache directory and open the share sheet for it. */
+export async function exportDiagnosticsLog(): Promise<void> {
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const file = new File(Paths.cache, `movu-sensor-${stamp}.txt`);
+  file.create({ overwrite: true });
+  file.write(formatDiagnosticsLog(getDiagnosticsSnapshot()));
+  if (!(await Sharing.isAvailableAsync())) throw new Error("Sharing isn't available on this device");
+  await Sharing.shareAsync(file.uri, {
+    mimeType: "text/plain",
+    UTI: "public.plain-text",
+    dialogTitle: "Export sensor log",
+  });
+}
@@ -0,0 +1,95 @@
+import { base64ToBytes } from "@/utils/sensorProtocol";
+import type { SensorPeripheral } from "@/utils/sensorTransport";
+
+/**
+ * Standard GATT services the IMU-STACK firmware exposes next to the UART service:
+ * Device Information (0x180A) and Battery (0x180F).
+ */
+
+export const DEVICE_INFO_SERVICE = "0000180a-0000-1000-8000-00805f9b34fb";
+export const MODEL_NUMBER_CHAR = "00002a24-0000-1000-8000-00805f9b34fb";
+export const FIRMWARE_REVISION_CHAR = "00002a26-0000-1000-8000-00805f9b34fb";
+export const HARDWARE_REVISION_CHAR = "00002a27-0000-1000-8000-00805f9b34fb";
+export const MANUFACTURER_CHAR = "00002a29-0000-1000-8000-00805f9b34fb";
+export const BATTERY_SERVICE = "0000180f-0000-1000-8000-00805f9b34fb";
+export const BATTERY_LEVEL_CHAR = "00002a19-0000-1000-8000-00805f9b34fb";
+
+// At or below this the sensor needs a new battery soon
+export const LOW_BATTERY_PERCENT = 20;
+
+/** Null fields are characteristics the sensor doesn't have (older firmware) or that failed to read. */
+export type SensorInfo = {
+  manufacturer: string | null;
+  modelNumber: string | null;
+  firmwareRevision: string | null;
+  hardwareRevision: string | null;
+  /** 0-100 */
+  batteryPercent: number | null;
+};
+
+type ReadableDevice = Pick<SensorPeripheral, "services" | "readCharacteristicForService">;
+
+async function readBytes(device: ReadableDevice, service: string, characteristic: string): Promise<Uint8Array | null> {
+  try {
+    const c = await device.readCharacteristicForService(service, characteristic);
+    return c?.value ? base64ToBytes(c.value) : null;
+  } catch {
+    return null;
+  }
+}
+
+async function readString(device: ReadableDevice, service: string, characteristic: string): Promise<string | null> {
+  const bytes = await readBytes(device, service, characteristic);
+  if (!bytes) return null;
+  let text = "";
+  for (let i = 0; i < bytes.length; i++) {
+    // Some firmware pads the fixed-size field with NULs
+    if (bytes[i] === 0) break;
+    text += String.fromCharCode(bytes[i]);
+  }
+  return text.trim() || null;
+}
+
+export async function readBatteryPercent(device: ReadableDevice): Promise<number | null> {
+  const bytes = await readBytes(device, BATTERY_SERVICE, BATTERY_LEVEL_CHAR);
+  return bytes && bytes.length > 0 ? Math.min(100, bytes[0]) : null;
+}
+
+export const EMPTY_SENSOR_INFO: SensorInfo = {
+  manufacturer: null,
+  modelNumber: null,
+  firmwareRevision: null,
+  hardwareRevision: null,
+  batteryPercent: null,
+};
+
+/**
+ * Read device information and battery level from a connected device whose services have been
+ * discovered. Services the sensor doesn't have are skipped; reads go one at a time, which the
+ * sensor handles best.
+ */
+export async function readSensorInfo(device: ReadableDevice): Promise<SensorInfo> {
+  let serviceUuids: string[];
+  try {
+    serviceUuids = (await device.services()).map((s) => s.uuid.toLowerCase());
+  } catch {
+    return EMPTY_SENSOR_INFO;
+  }
+  const info = { ...EMPTY_SENSOR_INFO };
+  if (serviceUuids.includes(DEVICE_INFO_SERVICE)) {
+    info.manufacturer = await readString(device, DEVICE_INFO_SERVICE, MANUFACTURER_CHAR);
+    info.modelNumber = await readString(device, DEVICE_INFO_SERVICE, MODEL_NUMBER_CHAR);
+    info.firmwareRevision = await readString(device, DEVICE_INFO_SERVICE, FIRMWARE_REVISION_CHAR);
+    info.hardwareRevision = await readString(device, DEVICE_INFO_SERVICE, HARDWARE_REVISION_CHAR);
+  }
+  if (serviceUuids.includes(BATTERY_SERVICE)) info.batteryPercent = await readBatteryPercent(device);
+  return info;
+}
+
+/** Short "Battery 82% · Firmware 1.4.0" line, or null when the sensor reported neither. */
+export function describeSensorInfo(info: SensorInfo): string | null {
+  const parts: string[] = [];
+  if (info.batteryPercent !== null) parts.push(`Battery ${info.batteryPercent}%`);
+  if (info.firmwareRevision) parts.push(`Firmware ${info.firmwareRevision}`);
+  return parts.length > 0 ? parts.join(" · ") : null;
+}
@@ -0,0 +1,237 @@
+import { decode as atob, encode as btoa } from "base-64";
+
+/**
+ * IMU-STACK wire protocol for the reps (6E400003) and live (6E400004) characteristics.
+ *
+ * Binary frame, little-endian:
+ *   0      magic        0xA5
+ *   1      version      0x01
+ *   2      message type 0x01 = rep, 0x02 = live sample
+ *   3..4   sequence     uint16, wraps at 65535
+ *   5..8   timestamp    uint32, ms since sensor boot
+ *   9..n-2 payload      rep:  uint16 rep index (cumulative count since the sensor started)
+ *                       live: int16 ax, ay, az (mg), int16 gx, gy, gz (0.1 deg/s)
+ *   n-1    checksum     CRC-8 (poly 0x07, init 0x00) over bytes 0..n-2
+ *
+ * Legacy firmware sends plain text instead ("REPS:12" on the reps characteristic,
+ * comma separated "ax,ay,az,gx,gy,gz" on the live one). Those are still accepted as
+ * version 0 frames without sequence number or timestamp.
+ */
+
+export const FRAME_MAGIC = 0xa5;
+export const PROTOCOL_VERSION = 1;
+
+export const MESSAGE_TYPE = {
+  rep: 0x01,
+  live: 0x02,
+} as const;
+
+const HEADER_LENGTH = 9;
+const REP_PAYLOAD_LENGTH = 2;
+const LIVE_PAYLOAD_LENGTH = 12;
+
+export type FrameHeader = {
+  version: number;
+  /** Null for legacy text frames */
+  seq: number | null;
+  /** Sensor clock in ms; null for legacy text frames */
+  timestampMs: number | null;
+};
+
+export type RepFrame = FrameHeader & {
+  type: "rep";
+  repIndex: number;
+};
+
+export type LiveSample = {
+  /** Acceleration in g */
+  ax: number;
+  ay: number;
+  az: number;
+  /** Angular rate in deg/s */
+  gx: number;
+  gy: number;
+  gz: number;
+};
+
+export type LiveFrame = FrameHeader & {
+  type: "live";
+  sample: LiveSample;
+};
+
+export type SensorFrame = RepFrame | LiveFrame;
+
+export type DecodeResult<T extends SensorFrame> =
+  | { ok: true; frame: T }
+  | { ok: false; reason: string };
+
+export function base64ToBytes(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i) & 0xff;
+  return bytes;
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+}
+
+export function crc8(bytes: Uint8Array, length = bytes.length): number {
+  let crc = 0;
+  for (let i = 0; i < length; i++) {
+    crc ^= bytes[i];
+    for (let b = 0; b < 8; b++) {
+      crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff;
+    }
+  }
+  return crc;
+}
+
+/** Human-readable form of a frame, for debug output and logs. */
+export function describeFrame(frame: SensorFrame): string {
+  const head = frame.seq === null ? `v${frame.version}` : `v${frame.version} #${frame.seq}`;
+  if (frame.type === "rep") return `${head} REP ${frame.repIndex}`;
+  const s = frame.sample;
+  return `${head} LIVE a=${s.ax.toFixed(2)},${s.ay.toFixed(2)},${s.az.toFixed(2)} g=${s.gx.toFixed(1)},${s.gy.toFixed(1)},${s.gz.toFixed(1)}`;
+}
+
+function encodeBinary(type: number, seq: number, timestampMs: number, payload: number[]): Uint8Array {
+  const bytes = new Uint8Array(HEADER_LENGTH + payload.length * 2 + 1);
+  const view = new DataView(bytes.buffer);
+  bytes[0] = FRAME_MAGIC;
+  bytes[1] = PROTOCOL_VERSION;
+  bytes[2] = type;
+  view.setUint16(3, seq & 0xffff, true);
+  view.setUint32(5, timestampMs >>> 0, true);
+  payload.forEach((v, i) => view.setInt16(HEADER_LENGTH + i * 2, v, true));
+  bytes[bytes.length - 1] = crc8(bytes, bytes.length - 1);
+  return bytes;
+}
+
+/** Binary rep frame as the firmware sends it (base64), e.g. for the simulated sensor. */
+export function encodeRepFrame(seq: number, timestampMs: number, repIndex: number): string {
+  // The rep index is unsigned on the wire; setInt16 writes the same bits
+  return bytesToBase64(encodeBinary(MESSAGE_TYPE.rep, seq, timestampMs, [repIndex & 0xffff]));
+}
+
+/** Binary live frame as the firmware sends it (base64). */
+export function encodeLiveFrame(seq: number, timestampMs: number, sample: LiveSample): string {
+  const values = [
+    sample.ax * 1000,
+    sample.ay * 1000,
+    sample.az * 1000,
+    sample.gx * 10,
+    sample.gy * 10,
+    sample.gz * 10,
+  ].map((v) => Math.max(-32768, Math.min(32767, Math.round(v))));
+  return bytesToBase64(encodeBinary(MESSAGE_TYPE.live, seq, timestampMs, values));
+}
+
+function decodeBinary(bytes: Uint8Array): DecodeResult<SensorFrame> {
+  if (bytes.length < HEADER_LENGTH + 1) return { ok: false, reason: "Frame too short" };
+  const version = bytes[1];
+  if (version !== PROTOCOL_VERSION) return { ok: false, reason: `Unsupported version ${version}` };
+
+  const checksum = bytes[bytes.length - 1];
+  if (crc8(bytes, bytes.length - 1) !== checksum) return { ok: false, reason: "Checksum mismatch" };
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const type = bytes[2];
+  const seq = view.getUint16(3, true);
+  const timestampMs = view.getUint32(5, true);
+  const payloadLength = bytes.length - HEADER_LENGTH - 1;
+
+  if (type === MESSAGE_TYPE.rep) {
+    if (payloadLength !== REP_PAYLOAD_LENGTH) return { ok: false, reason: "Bad rep payload length" };
+    return {
+      ok: true,
+      frame: { type: "rep", version, seq, timestampMs, repIndex: view.getUint16(HEADER_LENGTH, true) },
+    };
+  }
+  if (type === MESSAGE_TYPE.live) {
+    if (payloadLength !== LIVE_PAYLOAD_LENGTH) return { ok: false, reason: "Bad live payload length" };
+    const at = (i: number) => view.getInt16(HEADER_LENGTH + i * 2, true);
+    return {
+      ok: true,
+      frame: {
+        type: "live",
+        version,
+        seq,
+        timestampMs,
+        sample: {
+          ax: at(0) / 1000,
+          ay: at(1) / 1000,
+          az: at(2) / 1000,
+          gx: at(3) / 10,
+          gy: at(4) / 10,
+          gz: at(5) / 10,
+        },
+      },
+    };
+  }
+  return { ok: false, reason: `Unknown message type ${type}` };
+}
+
+function bytesToText(bytes: Uint8Array): string {
+  let text = "";
+  for (let i = 0; i < bytes.length; i++) text += String.fromCharCode(bytes[i]);
+  return text;
+}
+
+function decodeLegacyRep(text: string): DecodeResult<RepFrame> {
+  // Only an explicit REPS counter counts; other status strings must not turn into reps.
+  const match = text.match(/\bREPS[:\s]*(\d+)/i);
+  if (!match) return { ok: false, reason: "Not a legacy REPS frame" };
+  const repIndex = parseInt(match[1], 10);
+  if (!Number.isFinite(repIndex)) return { ok: false, reason: "Bad legacy rep count" };
+  return { ok: true, frame: { type: "rep", version: 0, seq: null, timestampMs: null, repIndex } };
+}
+
+function decodeLegacyLive(text: string): DecodeResult<LiveFrame> {
+  const body = text.trim().replace(/^LIVE[:\s]*/i, "");
+  const parts = body.split(/[,\s]+/).filter(Boolean);
+  if (parts.length !== 6) return { ok: false, reason: "Not a legacy live frame" };
+  const values = parts.map(Number);
+  if (values.some((v) => !Number.isFinite(v))) return { ok: false, reason: "Bad legacy live value" };
+  const [ax, ay, az, gx, gy, gz] = values;
+  return {
+    ok: true,
+    frame: { type: "live", version: 0, seq: null, timestampMs: null, sample: { ax, ay, az, gx, gy, gz } },
+  };
+}
+
+/** Decode a frame from the reps characteristic (base64 value as delivered by ble-plx). */
+export function decodeRepsValue(value: string): DecodeResult<RepFrame> {
+  let bytes: Uint8Array;
+  try {
+    bytes = base64ToBytes(value);
+  } catch {
+    return { ok: false, reason: "Invalid base64" };
+  }
+  if (bytes[0] === FRAME_MAGIC) {
+    const result = decodeBinary(bytes);
+    if (!result.ok) return result;
+    if (result.frame.type !== "rep") return { ok: false, reason: "Unexpected live frame on reps characteristic" };
+    return { ok: true, frame: result.frame };
+  }
+  return decodeLegacyRep(bytesToText(bytes));
+}
+
+/** Decode a frame from the live characteristic (base64 value as delivered by ble-plx). */
+export function decodeLiveValue(value: string): DecodeResult<LiveFrame> {
+  let bytes: Uint8Array;
+  try {
+    bytes = base64ToBytes(value);
+  } catch {
+    return { ok: false, reason: "Invalid base64" };
+  }
+  if (bytes[0] === FRAME_MAGIC) {
+    const result = decodeBinary(bytes);
+    if (!result.ok) return result;
+    if (result.frame.type !== "live") return { ok: false, reason: "Unexpected rep frame on live characteristic" };
+    return { ok: true, frame: result.frame };
+  }
+  return decodeLegacyLive(bytesToText(bytes));
+}
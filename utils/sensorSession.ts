@@ -0,0 +1,235 @@
+import {
+  decodeLiveValue,
+  decodeRepsValue,
+  describeFrame,
+  type LiveFrame,
+  type RepFrame,
+} from "@/utils/sensorProtocol";
+import type { SensorPeripheral } from "@/utils/sensorTransport";
+
+/**
+ * Headless IMU-STACK session engine.
+ * Owns one connected device: discovers the UART service, subscribes to the reps and live
+ * characteristics, polls the reps characteristic as a fallback, and turns the sensor's
+ * cumulative rep counter into typed rep events.
+ */
+
+export const SERVICE_UUID = "6E400001-B5A3-F393-E0A9-E50E24DCCA9E";
+export const CHAR_UUID = "6E400003-B5A3-F393-E0A9-E50E24DCCA9E";
+export const LIVE_CHAR_UUID = "6E400004-B5A3-F393-E0A9-E50E24DCCA9E";
+const SERVICE_UUID_LC = SERVICE_UUID.toLowerCase();
+const CHAR_UUID_LC = CHAR_UUID.toLowerCase();
+const LIVE_CHAR_UUID_LC = LIVE_CHAR_UUID.toLowerCase();
+
+const DEFAULT_POLL_INTERVAL_MS = 750;
+// The rep index is a uint16; a drop from within this many reps of the top is a wrap, not a restart
+const REP_COUNTER_MAX = 0xffff;
+const REP_WRAP_WINDOW = 256;
+
+/** The subset of a sensor peripheral the engine uses, so tests can pass a fake. */
+export type SensorDevice = Pick<
+  SensorPeripheral,
+  "services" | "monitorCharacteristicForService" | "readCharacteristicForService" | "cancelConnection"
+>;
+
+export type SensorPayloadSource = "notify" | "poll" | "initial";
+
+export type SensorCharacteristic = "reps" | "live";
+
+/** `raw` is the characteristic value exactly as received (base64), kept for diagnostics. */
+export type SensorSessionEvent =
+  | { type: "rep"; sensorReps: number; delta: number; atMs: number }
+  | { type: "reps-frame"; source: SensorPayloadSource; frame: RepFrame; text: string; raw: string; atMs: number }
+  | { type: "live"; frame: LiveFrame; text: string; raw: string; atMs: number }
+  | {
+      type: "rejected";
+      characteristic: SensorCharacteristic;
+      source: SensorPayloadSource;
+      reason: string;
+      raw: string;
+      atMs: number;
+    }
+  | { type: "error"; message: string; fatal: boolean; atMs: number };
+
+export type SensorSessionListener = (event: SensorSessionEvent) => void;
+
+export type SensorSessionOptions = {
+  pollIntervalMs?: number;
+  now?: () => number;
+  /**
+   * Counter value an earlier session on the same sensor already turned into reps (after a
+   * reconnect). Reps the sensor counted while disconnected are emitted on the first read
+   * instead of being swallowed as the baseline.
+   */
+  resumeFromSensorReps?: number | null;
+};
+
+export type SensorSession = {
+  start: () => Promise<void>;
+  stop: () => void;
+  subscribe: (listener: SensorSessionListener) => () => void;
+  /** Last cumulative counter value reported by the sensor (null until the first frame). */
+  getSensorReps: () => number | null;
+};
+
+function errorMessage(e: unknown, fallback: string): string {
+  const message = (e as { message?: unknown } | null)?.message;
+  return typeof message === "string" && message ? message : fallback;
+}
+
+export function createSensorSession(
+  device: SensorDevice,
+  options: SensorSessionOptions = {}
+): SensorSession {
+  const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  const now = options.now ?? Date.now;
+  const listeners = new Set<SensorSessionListener>();
+
+  let stopped = false;
+  let started = false;
+  let repsSubscription: { remove: () => void } | null = null;
+  let liveSubscription: { remove: () => void } | null = null;
+  let pollInterval: ReturnType<typeof setInterval> | null = null;
+  // Counter value already turned into rep events; null until the sensor reports a baseline.
+  let baseline: number | null = options.resumeFromSensorReps ?? null;
+
+  const emit = (event: SensorSessionEvent) => {
+    listeners.forEach((l) => {
+      try {
+        l(event);
+      } catch {
+        // a listener failing must not break the BLE callbacks
+      }
+    });
+  };
+
+  const ingestReps = (value: string, source: SensorPayloadSource) => {
+    const atMs = now();
+    const decoded = decodeRepsValue(value);
+    if (!decoded.ok) {
+      emit({ type: "rejected", characteristic: "reps", source, reason: decoded.reason, raw: value, atMs });
+      return;
+    }
+    const { frame } = decoded;
+    emit({ type: "reps-frame", source, frame, text: describeFrame(frame), raw: value, atMs });
+
+    const sensorReps = frame.repIndex;
+    // The first frame only establishes where the counter is, whether it comes from the initial
+    // read or a notify that beat it; crediting it would count the sensor's lifetime reps.
+    if (baseline === null) {
+      baseline = sensorReps;
+      return;
+    }
+    let delta = sensorReps - baseline;
+    if (delta < 0) {
+      // Counter went backwards: the uint16 counter wrapped, or the sensor restarted its count
+      delta = baseline >= REP_COUNTER_MAX - REP_WRAP_WINDOW ? sensorReps + REP_COUNTER_MAX + 1 - baseline : sensorReps;
+    }
+    baseline = sensorReps;
+    if (delta > 0) emit({ type: "rep", sensorReps, delta, atMs });
+  };
+
+  const ingestLive = (value: string) => {
+    const atMs = now();
+    const decoded = decodeLiveValue(value);
+    if (!decoded.ok) {
+      emit({ type: "rejected", characteristic: "live", source: "notify", reason: decoded.reason, raw: value, atMs });
+      return;
+    }
+    emit({ type: "live", frame: decoded.frame, text: describeFrame(decoded.frame), raw: value, atMs });
+  };
+
+  const fail = (e: unknown, fallback: string) => {
+    if (stopped) return;
+    emit({ type: "error", message: errorMessage(e, fallback), fatal: true, atMs: now() });
+    stop();
+  };
+
+  const stop = () => {
+    stopped = true;
+    if (pollInterval) {
+      clearInterval(pollInterval);
+      pollInterval = null;
+    }
+    try {
+      repsSubscription?.remove();
+    } catch {}
+    try {
+      liveSubscription?.remove();
+    } catch {}
+    repsSubscription = null;
+    liveSubscription = null;
+  };
+
+  const start = async () => {
+    if (started) return;
+    started = true;
+    try {
+      const services = await device.services();
+      const targetService = services.find((s) => s.uuid.toLowerCase() === SERVICE_UUID_LC) ?? null;
+      const serviceUuid = targetService?.uuid ?? SERVICE_UUID;
+      let repsCharUuid = CHAR_UUID;
+      let liveCharUuid: string | null = null;
+      if (targetService) {
+        const chars = await targetService.characteristics();
+        const repsChar = chars.find((c) => c.uuid.toLowerCase() === CHAR_UUID_LC) ?? null;
+        const liveChar = chars.find((c) => c.uuid.toLowerCase() === LIVE_CHAR_UUID_LC) ?? null;
+        if (repsChar?.uuid) repsCharUuid = repsChar.uuid;
+        if (liveChar?.uuid) liveCharUuid = liveChar.uuid;
+      }
+      if (stopped) return;
+
+      repsSubscription = device.monitorCharacteristicForService(
+        serviceUuid,
+        repsCharUuid,
+        (err, characteristic) => {
+          if (stopped) return;
+          if (err) {
+            fail(err, "Characteristic error");
+            return;
+          }
+          if (characteristic?.value) ingestReps(characteristic.value, "notify");
+        }
+      );
+
+      if (liveCharUuid) {
+        liveSubscription = device.monitorCharacteristicForService(
+          serviceUuid,
+          liveCharUuid,
+          (err, characteristic) => {
+            if (stopped || err || !characteristic?.value) return;
+            ingestLive(characteristic.value);
+          }
+        );
+      }
+
+      try {
+        const initial = await device.readCharacteristicForService(serviceUuid, repsCharUuid);
+        if (!stopped && initial?.value) ingestReps(initial.value, "initial");
+      } catch {}
+      if (stopped) return;
+
+      pollInterval = setInterval(async () => {
+        try {
+          if (stopped) return;
+          const c = await device.readCharacteristicForService(serviceUuid, repsCharUuid);
+          if (!stopped && c?.value) ingestReps(c.value, "poll");
+        } catch {}
+      }, pollIntervalMs);
+    } catch (e) {
+      fail(e, "Setup failed");
+    }
+  };
+
+  return {
+    start,
+    stop,
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    getSensorReps: () => baseline,
+  };
+}
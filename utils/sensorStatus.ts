@@ -0,0 +1,38 @@
+import { supabase } from "@/lib/supabase";
+import type { SensorInfo } from "@/utils/sensorInfo";
+
+/**
+ * Battery and firmware reports for machine sensors (the `sensor_status` table). Every member who
+ * connects to a machine refreshes its row, so staff can see which sensors need a new battery.
+ */
+
+export type SensorStatusReport = {
+  gymId: string;
+  machineId: string;
+  deviceId: string;
+  deviceName: string | null;
+  info: SensorInfo;
+};
+
+/** Best effort: a failed report never gets in the way of the workout. */
+export async function reportSensorStatus(report: SensorStatusReport): Promise<void> {
+  const { info } = report;
+  // Nothing worth recording from firmware without the standard services
+  if (info.batteryPercent === null && !info.firmwareRevision) return;
+  try {
+    if (!supabase) return;
+    await supabase.rpc("report_sensor_status", {
+      p_gym_id: report.gymId,
+      p_machine_id: report.machineId,
+      p_device_id: report.deviceId,
+      p_device_name: report.deviceName,
+      p_battery_percent: info.batteryPercent,
+      p_firmware_revision: info.firmwareRevision,
+      p_hardware_revision: info.hardwareRevision,
+      p_model_number: info.modelNumber,
+      p_manufacturer: info.manufacturer,
+    });
+  } catch {
+    // ignore
+  }
+}
@@ -0,0 +1,108 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { BleManager, State } from "react-native-ble-plx";
+
+import { createSimulatedTransport, getSimulatedScenario } from "@/utils/simulatedSensor";
+
+/**
+ * What the connect hook, the session engine and the firmware updater need from Bluetooth.
+ * A ble-plx BleManager and its Devices fit these shapes as they are; the simulated sensor
+ * (simulatedSensor.ts) implements them without any hardware.
+ */
+
+export type SensorError = { message: string };
+
+export type SensorSubscription = { remove: () => void };
+
+export type SensorCharacteristicValue = { uuid: string; value: string | null };
+
+export type SensorService = {
+  uuid: string;
+  characteristics: () => Promise<{ uuid: string }[]>;
+};
+
+export interface SensorPeripheral {
+  /** MAC address on Android, per-phone UUID on iOS */
+  id: string;
+  name: string | null;
+  localName: string | null;
+  rssi: number | null;
+  mtu: number;
+  connect(): Promise<SensorPeripheral>;
+  discoverAllServicesAndCharacteristics(): Promise<SensorPeripheral>;
+  services(): Promise<SensorService[]>;
+  cancelConnection(): Promise<SensorPeripheral>;
+  readRSSI(): Promise<SensorPeripheral>;
+  requestMTU(mtu: number): Promise<SensorPeripheral>;
+  monitorCharacteristicForService(
+    serviceUUID: string,
+    characteristicUUID: string,
+    listener: (error: SensorError | null, characteristic: SensorCharacteristicValue | null) => void
+  ): SensorSubscription;
+  readCharacteristicForService(serviceUUID: string, characteristicUUID: string): Promise<SensorCharacteristicValue>;
+  writeCharacteristicWithResponseForService(
+    serviceUUID: string,
+    characteristicUUID: string,
+    base64Value: string
+  ): Promise<SensorCharacteristicValue>;
+  writeCharacteristicWithoutResponseForService(
+    serviceUUID: string,
+    characteristicUUID: string,
+    base64Value: string
+  ): Promise<SensorCharacteristicValue>;
+}
+
+export interface SensorTransport {
+  state(): Promise<State>;
+  onStateChange(listener: (state: State) => void, emitCurrentState?: boolean): SensorSubscription;
+  startDeviceScan(
+    serviceUUIDs: string[] | null,
+    options: { allowDuplicates?: boolean } | null,
+    listener: (error: SensorError | null, device: SensorPeripheral | null) => void
+  ): Promise<void>;
+  stopDeviceScan(): Promise<void>;
+  destroy(): Promise<void>;
+}
+
+const SIMULATED_KEY = "devSimulatedSensor:v1";
+
+// Scenario id of the simulated sensor, or null for real Bluetooth. Read at startup so transports
+// can be created synchronously; EXPO_PUBLIC_SIMULATED_SENSOR (a scenario id) overrides it for CI.
+let simulatedScenarioId: string | null = null;
+
+function envScenarioId(): string | null {
+  const id = process.env.EXPO_PUBLIC_SIMULATED_SENSOR?.trim();
+  return id && getSimulatedScenario(id) ? id : null;
+}
+
+export async function loadSensorTransportSetting(): Promise<void> {
+  try {
+    const stored = await AsyncStorage.getItem(SIMULATED_KEY);
+    simulatedScenarioId = stored && getSimulatedScenario(stored) ? stored : null;
+  } catch {
+    // ignore
+  }
+}
+
+/** The simulated scenario in use, or null for real Bluetooth. Release builds always use Bluetooth. */
+export function getSimulatedSensorSetting(): string | null {
+  if (!__DEV__) return null;
+  return envScenarioId() ?? simulatedScenarioId;
+}
+
+export async function setSimulatedSensorSetting(scenarioId: string | null): Promise<void> {
+  simulatedScenarioId = scenarioId;
+  try {
+    if (scenarioId) await AsyncStorage.setItem(SIMULATED_KEY, scenarioId);
+    else await AsyncStorage.removeItem(SIMULATED_KEY);
+  } catch {
+    // ignore
+  }
+}
+
+/** A Bluetooth manager, or the simulated sensor when the developer setting asks for one. */
+export function createSensorTransport(): SensorTransport {
+  const scenarioId = getSimulatedSensorSetting();
+  const scenario = scenarioId ? getSimulatedScenario(scenarioId) : null;
+  if (scenario) return createSimulatedTransport(scenario);
+  return new BleManager();
+}
@@ -0,0 +1,185 @@
+import { File, Paths } from "expo-file-system";
+import * as Sharing from "expo-sharing";
+
+import type { SensorCharacteristic, SensorPayloadSource, SensorSessionEvent } from "@/utils/sensorSession";
+import type { SimulatedFrame, SimulatedScenario, SimulatedStep } from "@/utils/simulatedSensor";
+
+/**
+ * Raw capture of a workout session's sensor traffic: every notification and read of the reps
+ * and live characteristics, as received, with its time. Exported as a JSON session file; a
+ * developer loads the file as the simulated sensor's script (simulatedSensor.ts), so it goes
+ * back through the same connect flow, session engine and rep counting in Session.
+ */
+
+const RECORDING_FORMAT = "movu-sensor-session";
+const RECORDING_VERSION = 1;
+// About 80 minutes of a 25 Hz live stream; later frames are dropped and the file marked truncated
+const MAX_RECORDED_FRAMES = 120000;
+// The simulated sensor comes back at most this long after a recorded drop
+const MAX_REPLAY_DOWN_MS = 10000;
+
+export type RecordedFrame = SimulatedFrame & { source: SensorPayloadSource };
+
+export type SessionRecording = {
+  format: typeof RECORDING_FORMAT;
+  version: typeof RECORDING_VERSION;
+  /** ISO time the session started */
+  recordedAt: string;
+  machine: string | null;
+  sensor: { id: string | null; name: string | null; firmwareRevision: string | null };
+  /** Offsets of fatal sensor errors (dropped connections) */
+  disconnects: number[];
+  /** Offsets from `recordedAt`, in order of arrival */
+  frames: RecordedFrame[];
+  truncated: boolean;
+};
+
+let recording: SessionRecording | null = null;
+let startedAtMs = 0;
+
+/** Start a fresh recording; called when a workout session opens. */
+export function startSessionRecording(machine: string | null): void {
+  startedAtMs = Date.now();
+  recording = {
+    format: RECORDING_FORMAT,
+    version: RECORDING_VERSION,
+    recordedAt: new Date(startedAtMs).toISOString(),
+    machine,
+    sensor: { id: null, name: null, firmwareRevision: null },
+    disconnects: [],
+    frames: [],
+    truncated: false,
+  };
+}
+
+export function updateSessionRecordingSensor(sensor: Partial<SessionRecording["sensor"]>): void {
+  if (!recording) return;
+  recording.sensor = { ...recording.sensor, ...sensor };
+}
+
+function pushFrame(atMs: number, characteristic: SensorCharacteristic, source: SensorPayloadSource, raw: string) {
+  if (!recording) return;
+  if (recording.frames.length >= MAX_RECORDED_FRAMES) {
+    recording.truncated = true;
+    return;
+  }
+  recording.frames.push({ offsetMs: Math.max(0, atMs - startedAtMs), characteristic, source, raw });
+}
+
+/** Feed every sensor session event; only the ones carrying a characteristic value are kept. */
+export function recordSessionFrame(event: SensorSessionEvent): void {
+  if (!recording) return;
+  switch (event.type) {
+    case "reps-frame":
+      pushFrame(event.atMs, "reps", event.source, event.raw);
+      break;
+    case "live":
+      pushFrame(event.atMs, "live", "notify", event.raw);
+      break;
+    case "rejected":
+      pushFrame(event.atMs, event.characteristic, event.source, event.raw);
+      break;
+    case "error":
+      if (event.fatal) recording.disconnects.push(Math.max(0, event.atMs - startedAtMs));
+      break;
+  }
+}
+
+/** The current (or last) session's recording; null when nothing was received. */
+export function getSessionRecording(): SessionRecording | null {
+  return recording && recording.frames.length > 0 ? recording : null;
+}
+
+export async function exportSessionRecording(): Promise<void> {
+  const current = getSessionRecording();
+  if (!current) throw new Error("Nothing recorded yet");
+  const stamp = current.recordedAt.replace(/[:.]/g, "-");
+  const file = new File(Paths.cache, `movu-session-${stamp}.json`);
+  file.create({ overwrite: true });
+  file.write(JSON.stringify(current));
+  if (!(await Sharing.isAvailableAsync())) throw new Error("Sharing isn't available on this device");
+  await Sharing.shareAsync(file.uri, {
+    mimeType: "application/json",
+    UTI: "public.json",
+    dialogTitle: "Export sensor session",
+  });
+}
+
+const CHARACTERISTICS: SensorCharacteristic[] = ["reps", "live"];
+const SOURCES: SensorPayloadSource[] = ["notify", "poll", "initial"];
+
+function isRecordedFrame(value: unknown): value is RecordedFrame {
+  const f = value as Partial<RecordedFrame> | null;
+  return (
+    !!f &&
+    typeof f.offsetMs === "number" &&
+    f.offsetMs >= 0 &&
+    typeof f.raw === "string" &&
+    CHARACTERISTICS.includes(f.characteristic as SensorCharacteristic) &&
+    SOURCES.includes(f.source as SensorPayloadSource)
+  );
+}
+
+/** Null when the text isn't a session file this version can replay. */
+export function parseSessionRecording(text: string): SessionRecording | null {
+  try {
+    const parsed = JSON.parse(text) as Partial<SessionRecording> | null;
+    if (!parsed || parsed.format !== RECORDING_FORMAT || parsed.version !== RECORDING_VERSION) return null;
+    if (!Array.isArray(parsed.frames) || !parsed.frames.every(isRecordedFrame)) return null;
+    return {
+      format: RECORDING_FORMAT,
+      version: RECORDING_VERSION,
+      recordedAt: typeof parsed.recordedAt === "string" ? parsed.recordedAt : "",
+      machine: typeof parsed.machine === "string" ? parsed.machine : null,
+      sensor: {
+        id: parsed.sensor?.id ?? null,
+        name: parsed.sensor?.name ?? null,
+        firmwareRevision: parsed.sensor?.firmwareRevision ?? null,
+      },
+      disconnects: Array.isArray(parsed.disconnects)
+        ? parsed.disconnects.filter((d): d is number => typeof d === "number").sort((a, b) => a - b)
+        : [],
+      frames: [...parsed.frames].sort((a, b) => a.offsetMs - b.offsetMs),
+      truncated: parsed.truncated === true,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The simulated sensor script for a recording: its frames in order and timing, with the
+ * connection dropped wherever it dropped in the session.
+ */
+export function recordingToScenario(rec: SessionRecording): SimulatedScenario {
+  const steps: SimulatedStep[] = [];
+  let segment: RecordedFrame[] = [];
+  let disconnectIndex = 0;
+
+  const flush = () => {
+    if (segment.length === 0) return;
+    const first = segment[0].offsetMs;
+    steps.push({ type: "replay", frames: segment.map((f) => ({ ...f, offsetMs: f.offsetMs - first })) });
+    segment = [];
+  };
+
+  for (const frame of rec.frames) {
+    while (disconnectIndex < rec.disconnects.length && rec.disconnects[disconnectIndex] <= frame.offsetMs) {
+      const downMs = Math.min(MAX_REPLAY_DOWN_MS, frame.offsetMs - rec.disconnects[disconnectIndex]);
+      disconnectIndex += 1;
+      if (segment.length === 0) continue;
+      flush();
+      steps.push({ type: "disconnect", downMs });
+    }
+    segment.push(frame);
+  }
+  flush();
+
+  const when = rec.recordedAt ? new Date(rec.recordedAt).toLocaleString() : "unknown time";
+  return {
+    id: "recording",
+    label: `Recording (${rec.machine ?? "session"})`,
+    description: `${rec.frames.length} frames recorded ${when}${rec.truncated ? ", truncated" : ""}`,
+    steps,
+  };
+}
@@ -0,0 +1,490 @@
+import { encode as btoa } from "base-64";
+import { State } from "react-native-ble-plx";
+
+import {
+  BATTERY_LEVEL_CHAR,
+  BATTERY_SERVICE,
+  DEVICE_INFO_SERVICE,
+  FIRMWARE_REVISION_CHAR,
+  HARDWARE_REVISION_CHAR,
+  MANUFACTURER_CHAR,
+  MODEL_NUMBER_CHAR,
+} from "@/utils/sensorInfo";
+import {
+  base64ToBytes,
+  bytesToBase64,
+  decodeRepsValue,
+  encodeLiveFrame,
+  encodeRepFrame,
+  type LiveSample,
+} from "@/utils/sensorProtocol";
+import {
+  CHAR_UUID,
+  LIVE_CHAR_UUID,
+  SERVICE_UUID,
+  type SensorCharacteristic,
+  type SensorPayloadSource,
+} from "@/utils/sensorSession";
+import type {
+  SensorCharacteristicValue,
+  SensorError,
+  SensorPeripheral,
+  SensorService,
+  SensorSubscription,
+  SensorTransport,
+} from "@/utils/sensorTransport";
+
+/**
+ * A software IMU-STACK for development and CI: advertises, connects and streams rep and live
+ * frames from a script, exactly as the firmware would, so every flow from the connecting screen
+ * through the session runs without hardware. Scripts can also replay recorded frames, drop the
+ * connection and send malformed frames.
+ */
+
+const SIM_DEVICE_ID = "SIM:IMU-STACK:01";
+const SIM_NAME = "IMU-STACK";
+// Live stream rate of the simulated sensor (25 Hz)
+const TICK_MS = 40;
+const ADVERTISE_INTERVAL_MS = 500;
+const CONNECT_DELAY_MS = 300;
+const DEFAULT_REP_PERIOD_MS = 2500;
+// Peak vertical acceleration of a simulated rep, in g; well above the detector's threshold
+const REP_AMPLITUDE_G = 0.15;
+const DEFAULT_DOWN_MS = 3000;
+const BASE_RSSI = -55;
+
+const SERVICE_UUID_LC = SERVICE_UUID.toLowerCase();
+const CHAR_UUID_LC = CHAR_UUID.toLowerCase();
+const LIVE_CHAR_UUID_LC = LIVE_CHAR_UUID.toLowerCase();
+
+/** A frame as it went over the air, e.g. from a recorded session. */
+export type SimulatedFrame = {
+  /** Since the start of the replay step */
+  offsetMs: number;
+  characteristic: SensorCharacteristic;
+  /**
+   * How the app got it. Replay notifies every frame at its offset whatever its source, so the
+   * session counts the same reps at the same points as when it was recorded. Default "notify".
+   */
+  source?: SensorPayloadSource;
+  /** base64 characteristic value */
+  raw: string;
+};
+
+export type SimulatedStep =
+  /** Reps with matching motion on the live stream; the rep counter ticks at the end of each */
+  | { type: "reps"; count: number; periodMs?: number }
+  /** Sensor at rest: gravity plus a little noise */
+  | { type: "rest"; durationMs: number }
+  /** Drop the connection; the sensor stops advertising for `downMs` */
+  | { type: "disconnect"; downMs?: number }
+  /** Frames that fail to decode (bad checksum, truncated) */
+  | { type: "malformed"; count: number; characteristic?: SensorCharacteristic }
+  | { type: "replay"; frames: SimulatedFrame[] };
+
+export type SimulatedScenario = {
+  id: string;
+  label: string;
+  description: string;
+  steps: SimulatedStep[];
+  /** Start over after the last step instead of resting forever */
+  loop?: boolean;
+};
+
+function legacyFrames(reps: number, periodMs: number): SimulatedFrame[] {
+  const frames: SimulatedFrame[] = [];
+  for (let t = 0; t < reps * periodMs; t += TICK_MS * 2) {
+    const az = 1 + REP_AMPLITUDE_G * Math.sin((2 * Math.PI * t) / periodMs);
+    frames.push({ offsetMs: t, characteristic: "live", raw: btoa(`0.01,0.00,${az.toFixed(3)},0.0,0.0,0.0`) });
+  }
+  for (let rep = 1; rep <= reps; rep++) {
+    frames.push({ offsetMs: rep * periodMs, characteristic: "reps", raw: btoa(`REPS:${rep}`) });
+  }
+  return frames.sort((a, b) => a.offsetMs - b.offsetMs);
+}
+
+export const SIMULATED_SCENARIOS: SimulatedScenario[] = [
+  {
+    id: "steady",
+    label: "Steady sets",
+    description: "Sets of 10 reps with a short pause between them",
+    steps: [
+      { type: "rest", durationMs: 2000 },
+      { type: "reps", count: 10 },
+      { type: "rest", durationMs: 8000 },
+    ],
+    loop: true,
+  },
+  {
+    id: "dropouts",
+    label: "Dropouts",
+    description: "Loses the connection mid-set and comes back a few seconds later",
+    steps: [
+      { type: "rest", durationMs: 2000 },
+      { type: "reps", count: 4 },
+      { type: "disconnect", downMs: 4000 },
+      { type: "reps", count: 6 },
+      { type: "rest", durationMs: 6000 },
+    ],
+    loop: true,
+  },
+  {
+    id: "noisy",
+    label: "Malformed frames",
+    description: "Reps interleaved with frames that fail their checksum or are cut short",
+    steps: [
+      { type: "rest", durationMs: 2000 },
+      { type: "reps", count: 3 },
+      { type: "malformed", count: 10 },
+      { type: "reps", count: 3 },
+      { type: "malformed", count: 2, characteristic: "reps" },
+      { type: "reps", count: 4 },
+      { type: "rest", durationMs: 6000 },
+    ],
+    loop: true,
+  },
+  {
+    id: "legacy",
+    label: "Legacy firmware",
+    description: "Replays text frames (REPS:n and comma separated samples) from old firmware",
+    steps: [
+      { type: "rest", durationMs: 2000 },
+      { type: "replay", frames: legacyFrames(10, DEFAULT_REP_PERIOD_MS) },
+      { type: "rest", durationMs: 6000 },
+    ],
+  },
+];
+
+export const REPLAY_SCENARIO_ID = "replay";
+
+// A recorded session loaded for replay (sessionRecorder.ts); not persisted across launches
+let replayScenario: SimulatedScenario | null = null;
+
+export function setReplayScenario(scenario: SimulatedScenario | null): void {
+  replayScenario = scenario ? { ...scenario, id: REPLAY_SCENARIO_ID } : null;
+}
+
+export function getSimulatedScenario(id: string): SimulatedScenario | null {
+  if (id === REPLAY_SCENARIO_ID) return replayScenario;
+  return SIMULATED_SCENARIOS.find((s) => s.id === id) ?? null;
+}
+
+type MonitorListener = (error: SensorError | null, characteristic: SensorCharacteristicValue | null) => void;
+
+function noise(scale: number): number {
+  return (Math.random() - 0.5) * 2 * scale;
+}
+
+function restingSample(): LiveSample {
+  return { ax: noise(0.01), ay: noise(0.01), az: 1 + noise(0.01), gx: noise(0.5), gy: noise(0.5), gz: noise(0.5) };
+}
+
+function repSample(elapsedMs: number, periodMs: number): LiveSample {
+  const phase = (2 * Math.PI * elapsedMs) / periodMs;
+  return {
+    ax: noise(0.01),
+    ay: noise(0.01),
+    az: 1 + REP_AMPLITUDE_G * Math.sin(phase) + noise(0.01),
+    gx: 15 * Math.cos(phase) + noise(0.5),
+    gy: noise(0.5),
+    gz: noise(0.5),
+  };
+}
+
+/** A valid frame with its checksum broken, or one cut short. */
+function malformed(valid: string, truncate: boolean): string {
+  const bytes = base64ToBytes(valid);
+  if (truncate) return bytesToBase64(bytes.subarray(0, 6));
+  bytes[bytes.length - 1] ^= 0xff;
+  return bytesToBase64(bytes);
+}
+
+function textValue(text: string): string {
+  return btoa(text);
+}
+
+/** The one simulated device every transport sees, so a reconnect finds the same sensor and counter. */
+function createSimulatedSensor(scenario: SimulatedScenario) {
+  const bootAt = Date.now();
+  let seq = 0;
+  let repIndex = 0;
+  let advertising = true;
+  // The peripheral object (one per transport) holding the connection, if any
+  let connectedVia: SensorPeripheral | null = null;
+  const monitors = new Map<string, Set<MonitorListener>>();
+
+  let streamTimer: ReturnType<typeof setInterval> | null = null;
+  let downTimer: ReturnType<typeof setTimeout> | null = null;
+  let stepIndex = 0;
+  let stepStartedAt = Date.now();
+  let stepProgress = 0;
+  // The script only runs while connected; set while it is paused
+  let pausedAt: number | null = Date.now();
+  // Newest reps counter value a replay got to; reads answer with it instead of the live counter,
+  // so a poll never sees the count go back or ahead of what the recording had reached
+  let replayReadValue: string | null = null;
+
+  const sensorClock = () => Date.now() - bootAt;
+  const nextSeq = () => (seq = (seq + 1) & 0xffff);
+
+  const notify = (charUuid: string, value: string) => {
+    monitors.get(charUuid)?.forEach((l) => l(null, { uuid: charUuid, value }));
+  };
+
+  const startStep = (index: number) => {
+    stepIndex = index;
+    stepStartedAt = Date.now();
+    stepProgress = 0;
+    const step = scenario.steps[index];
+    // The read right after subscribing must see the recorded baseline, not whatever comes first
+    if (step?.type === "replay") {
+      replayReadValue = step.frames.find((f) => f.source === "initial")?.raw ?? replayReadValue;
+    }
+  };
+  startStep(0);
+
+  const stopStream = () => {
+    if (streamTimer) {
+      clearInterval(streamTimer);
+      streamTimer = null;
+    }
+  };
+
+  const disconnect = () => {
+    connectedVia = null;
+    pausedAt ??= Date.now();
+    stopStream();
+    monitors.clear();
+  };
+
+  const dropConnection = (downMs: number) => {
+    const listeners = [...monitors.values()].flatMap((set) => [...set]);
+    disconnect();
+    advertising = false;
+    listeners.forEach((l) => l({ message: "Device disconnected (simulated)" }, null));
+    downTimer = setTimeout(() => {
+      downTimer = null;
+      advertising = true;
+    }, downMs);
+  };
+
+  const tick = () => {
+    const step = scenario.steps[stepIndex];
+    if (!step) {
+      if (scenario.loop && scenario.steps.length > 0) startStep(0);
+      notify(LIVE_CHAR_UUID_LC, encodeLiveFrame(nextSeq(), sensorClock(), restingSample()));
+      return;
+    }
+    const elapsed = Date.now() - stepStartedAt;
+    switch (step.type) {
+      case "reps": {
+        const period = step.periodMs ?? DEFAULT_REP_PERIOD_MS;
+        const done = Math.min(step.count, Math.floor(elapsed / period));
+        notify(
+          LIVE_CHAR_UUID_LC,
+          encodeLiveFrame(nextSeq(), sensorClock(), done >= step.count ? restingSample() : repSample(elapsed, period))
+        );
+        while (stepProgress < done) {
+          stepProgress += 1;
+          repIndex += 1;
+          notify(CHAR_UUID_LC, encodeRepFrame(nextSeq(), sensorClock(), repIndex));
+        }
+        if (done >= step.count) startStep(stepIndex + 1);
+        break;
+      }
+      case "rest":
+        notify(LIVE_CHAR_UUID_LC, encodeLiveFrame(nextSeq(), sensorClock(), restingSample()));
+        if (elapsed >= step.durationMs) startStep(stepIndex + 1);
+        break;
+      case "malformed": {
+        const onReps = step.characteristic === "reps";
+        const valid = onReps
+          ? encodeRepFrame(nextSeq(), sensorClock(), repIndex)
+          : encodeLiveFrame(nextSeq(), sensorClock(), restingSample());
+        notify(onReps ? CHAR_UUID_LC : LIVE_CHAR_UUID_LC, malformed(valid, stepProgress % 2 === 1));
+        stepProgress += 1;
+        if (stepProgress >= step.count) startStep(stepIndex + 1);
+        break;
+      }
+      case "replay": {
+        while (stepProgress < step.frames.length && step.frames[stepProgress].offsetMs <= elapsed) {
+          const frame = step.frames[stepProgress];
+          if (frame.characteristic === "reps" && decodeRepsValue(frame.raw).ok) replayReadValue = frame.raw;
+          notify(frame.characteristic === "reps" ? CHAR_UUID_LC : LIVE_CHAR_UUID_LC, frame.raw);
+          stepProgress += 1;
+        }
+        if (stepProgress >= step.frames.length) startStep(stepIndex + 1);
+        break;
+      }
+      case "disconnect":
+        startStep(stepIndex + 1);
+        dropConnection(step.downMs ?? DEFAULT_DOWN_MS);
+        break;
+    }
+  };
+
+  const readValue = (charUuid: string): string => {
+    switch (charUuid) {
+      case CHAR_UUID_LC:
+        return replayReadValue ?? encodeRepFrame(seq, sensorClock(), repIndex);
+      case MANUFACTURER_CHAR:
+        return textValue("Movu (simulated)");
+      case MODEL_NUMBER_CHAR:
+        return textValue(SIM_NAME);
+      case FIRMWARE_REVISION_CHAR:
+        return textValue(`sim-${scenario.id}`);
+      case HARDWARE_REVISION_CHAR:
+        return textValue("sim");
+      case BATTERY_LEVEL_CHAR:
+        return bytesToBase64(Uint8Array.of(87));
+      default:
+        throw new Error(`Characteristic ${charUuid} not found (simulated)`);
+    }
+  };
+
+  const services: SensorService[] = [
+    {
+      uuid: SERVICE_UUID_LC,
+      characteristics: async () => [{ uuid: CHAR_UUID_LC }, { uuid: LIVE_CHAR_UUID_LC }],
+    },
+    {
+      uuid: DEVICE_INFO_SERVICE,
+      characteristics: async () =>
+        [MANUFACTURER_CHAR, MODEL_NUMBER_CHAR, FIRMWARE_REVISION_CHAR, HARDWARE_REVISION_CHAR].map((uuid) => ({ uuid })),
+    },
+    { uuid: BATTERY_SERVICE, characteristics: async () => [{ uuid: BATTERY_LEVEL_CHAR }] },
+  ];
+
+  const createPeripheral = (): SensorPeripheral => {
+    const requireConnected = () => {
+      if (connectedVia !== peripheral) throw new Error("Device is not connected (simulated)");
+    };
+    const peripheral: SensorPeripheral = {
+      id: SIM_DEVICE_ID,
+      name: SIM_NAME,
+      localName: SIM_NAME,
+      rssi: BASE_RSSI,
+      mtu: 185,
+      async connect() {
+        await new Promise((r) => setTimeout(r, CONNECT_DELAY_MS));
+        if (connectedVia === peripheral) return peripheral;
+        if (!advertising || connectedVia) throw new Error("Device not found (simulated)");
+        connectedVia = peripheral;
+        // A fresh connection picks up the script where it left off
+        if (pausedAt !== null) stepStartedAt += Date.now() - pausedAt;
+        pausedAt = null;
+        stopStream();
+        streamTimer = setInterval(tick, TICK_MS);
+        return peripheral;
+      },
+      async discoverAllServicesAndCharacteristics() {
+        requireConnected();
+        return peripheral;
+      },
+      async services() {
+        requireConnected();
+        return services;
+      },
+      async cancelConnection() {
+        if (connectedVia === peripheral) disconnect();
+        return peripheral;
+      },
+      async readRSSI() {
+        requireConnected();
+        peripheral.rssi = BASE_RSSI + Math.round(noise(4));
+        return peripheral;
+      },
+      async requestMTU(mtu: number) {
+        peripheral.mtu = Math.min(mtu, 247);
+        return peripheral;
+      },
+      monitorCharacteristicForService(_service, characteristicUUID, listener): SensorSubscription {
+        const key = characteristicUUID.toLowerCase();
+        const set = monitors.get(key) ?? new Set<MonitorListener>();
+        monitors.set(key, set);
+        set.add(listener);
+        return {
+          remove: () => {
+            monitors.get(key)?.delete(listener);
+          },
+        };
+      },
+      async readCharacteristicForService(_service, characteristicUUID) {
+        requireConnected();
+        const uuid = characteristicUUID.toLowerCase();
+        return { uuid, value: readValue(uuid) };
+      },
+      async writeCharacteristicWithResponseForService() {
+        throw new Error("The simulated sensor doesn't support firmware updates");
+      },
+      async writeCharacteristicWithoutResponseForService() {
+        throw new Error("The simulated sensor doesn't support firmware updates");
+      },
+    };
+    return peripheral;
+  };
+
+  return {
+    createPeripheral,
+    /** Connected sensors stop advertising, like the real one */
+    isAdvertising: () => advertising && !connectedVia,
+    isConnectedVia: (peripheral: SensorPeripheral) => connectedVia === peripheral,
+    shutdown: () => {
+      disconnect();
+      if (downTimer) clearTimeout(downTimer);
+    },
+  };
+}
+
+let shared: { scenario: SimulatedScenario; sensor: ReturnType<typeof createSimulatedSensor> } | null = null;
+
+function simulatedSensorFor(scenario: SimulatedScenario) {
+  if (!shared || shared.scenario !== scenario) {
+    shared?.sensor.shutdown();
+    shared = { scenario, sensor: createSimulatedSensor(scenario) };
+  }
+  return shared.sensor;
+}
+
+/** A transport (one per BleManager it stands in for) onto the shared simulated sensor. */
+export function createSimulatedTransport(scenario: SimulatedScenario): SensorTransport {
+  const sensor = simulatedSensorFor(scenario);
+  const peripheral = sensor.createPeripheral();
+  let scanTimer: ReturnType<typeof setInterval> | null = null;
+
+  const stopScan = () => {
+    if (scanTimer) {
+      clearInterval(scanTimer);
+      scanTimer = null;
+    }
+  };
+
+  return {
+    async state() {
+      return State.PoweredOn;
+    },
+    onStateChange(listener, emitCurrentState) {
+      if (emitCurrentState) listener(State.PoweredOn);
+      return { remove: () => {} };
+    },
+    async startDeviceScan(serviceUUIDs, options, listener) {
+      stopScan();
+      if (serviceUUIDs && !serviceUUIDs.some((u) => u.toLowerCase() === SERVICE_UUID_LC)) return;
+      let reported = false;
+      scanTimer = setInterval(() => {
+        if (!sensor.isAdvertising() || (reported && !options?.allowDuplicates)) return;
+        reported = true;
+        peripheral.rssi = BASE_RSSI + Math.round(noise(4));
+        listener(null, peripheral);
+      }, ADVERTISE_INTERVAL_MS);
+    },
+    async stopDeviceScan() {
+      stopScan();
+    },
+    async destroy() {
+      stopScan();
+      // Destroying a BleManager disconnects the devices it connected
+      if (sensor.isConnectedVia(peripheral)) await peripheral.cancelConnection();
+    },
+  };
+}
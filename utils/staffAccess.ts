@@ -0,0 +1,22 @@
+import { supabase } from "@/lib/supabase";
+
+/**
+ * Gym staff membership (the `gym_staff` table). Only used to decide whether to show staff tools;
+ * the server enforces the same rule on every staff write.
+ */
+
+/** Gyms the signed-in user is staff at; empty when signed out, offline or a regular member. */
+export async function fetchStaffGymIds(): Promise<string[]> {
+  try {
+    if (!supabase) return [];
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user?.id) return [];
+    const { data, error } = await supabase.from("gym_staff").select("gym_id").eq("user_id", user.id);
+    if (error || !data) return [];
+    return (data as { gym_id: string }[]).map((row) => row.gym_id);
+  } catch {
+    return [];
+  }
+}
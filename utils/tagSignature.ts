@@ -0,0 +1,87 @@
+import { ed25519 } from "@noble/curves/ed25519";
+import { encode as btoa } from "base-64";
+
+import { listGymSigningKeys } from "@/utils/machineRegistry";
+import type { MachineTag } from "@/utils/nfcSensorMap";
+import { base64ToBytes } from "@/utils/sensorProtocol";
+
+/**
+ * Signed machine tags: movo://machine?id=xxx&gym=yyy&kid=zzz&sig=<base64url>.
+ * The signature is Ed25519 over `movo:v1:<gym>:<id>`, made with the gym's private key (kept by the
+ * gym, never in the app) and checked against the public keys the gym publishes in
+ * `gym_signing_keys`. Ed25519 rather than HMAC so the app never holds anything that can sign.
+ */
+
+export type TagVerification =
+  | { status: "verified"; keyId: string }
+  | { status: "unsigned" }
+  /** No published key for the gym / kid; may succeed after a registry refresh */
+  | { status: "unknown-key" }
+  | { status: "invalid"; reason: string };
+
+/** The exact bytes a tag signature covers. */
+export function tagSigningMessage(machineId: string, gymId: string): Uint8Array {
+  return new TextEncoder().encode(`movo:v1:${gymId}:${machineId}`);
+}
+
+function base64UrlToBytes(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  return base64ToBytes(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+}
+
+function bytesToBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+/**
+ * Staff-side signing for tag provisioning. `privateKey` is the 32-byte Ed25519 seed, base64url.
+ * Returns null when the key is malformed.
+ */
+export function signMachineTag(machineId: string, gymId: string, privateKey: string): string | null {
+  try {
+    return bytesToBase64Url(ed25519.sign(tagSigningMessage(machineId, gymId), base64UrlToBytes(privateKey.trim())));
+  } catch {
+    return null;
+  }
+}
+
+/** The published key id matching a private key, so staff can check they pasted the right one. */
+export function findSigningKeyId(gymId: string, privateKey: string): string | null {
+  try {
+    const publicKey = bytesToBase64Url(ed25519.getPublicKey(base64UrlToBytes(privateKey.trim())));
+    const match = listGymSigningKeys(gymId).find((k) => !k.revoked && k.publicKey.replace(/=+$/, "") === publicKey);
+    return match?.keyId ?? null;
+  } catch {
+    return null;
+  }
+}
+
+export function verifyMachineTag(tag: MachineTag): TagVerification {
+  if (!tag.signature) return { status: "unsigned" };
+  // Keys are per gym, so a signature without a gym can never check out
+  if (!tag.gymId) return { status: "invalid", reason: "Signed tag does not name a gym" };
+
+  const keys = listGymSigningKeys(tag.gymId).filter((k) => !tag.keyId || k.keyId === tag.keyId);
+  if (keys.length === 0) return { status: "unknown-key" };
+
+  let signature: Uint8Array;
+  try {
+    signature = base64UrlToBytes(tag.signature);
+  } catch {
+    return { status: "invalid", reason: "Malformed signature" };
+  }
+  const message = tagSigningMessage(tag.machineId, tag.gymId);
+
+  for (const key of keys) {
+    try {
+      if (!ed25519.verify(signature, message, base64UrlToBytes(key.publicKey))) continue;
+    } catch {
+      continue;
+    }
+    if (key.revoked) return { status: "invalid", reason: "Signed with a revoked key" };
+    return { status: "verified", keyId: key.keyId };
+  }
+  return { status: "invalid", reason: "Signature does not match" };
+}
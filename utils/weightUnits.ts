@@ -0,0 +1,65 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+/**
+ * Loads are always stored in kg (plan rows, workout sets, Supabase columns); the user's unit
+ * only affects what is shown and how far one tap of a stepper moves the weight.
+ */
+
+export type WeightUnit = "kg" | "lb";
+
+const STORAGE_KEY = "movu:weightUnit:v1";
+export const DEFAULT_WEIGHT_UNIT: WeightUnit = "kg";
+
+const KG_PER_LB = 0.45359237;
+
+export function kgToUnit(kg: number, unit: WeightUnit): number {
+  return unit === "kg" ? kg : kg / KG_PER_LB;
+}
+
+export function unitToKg(value: number, unit: WeightUnit): number {
+  const kg = unit === "kg" ? value : value * KG_PER_LB;
+  return Math.round(kg * 100) / 100;
+}
+
+/** One stepper tap: the smallest common plate pair in each unit. */
+export function weightStep(unit: WeightUnit): number {
+  return unit === "kg" ? 2.5 : 5;
+}
+
+/** Round for display: half-kilos, whole pounds. */
+export function roundWeight(value: number, unit: WeightUnit): number {
+  return unit === "kg" ? Math.round(value * 2) / 2 : Math.round(value);
+}
+
+export function formatWeight(kg: number | null | undefined, unit: WeightUnit): string {
+  if (kg == null) return "—";
+  return `${roundWeight(kgToUnit(kg, unit), unit)} ${unit}`;
+}
+
+/**
+ * Move a load by `delta` steps in the user's unit, snapping to that unit's grid first so a lb
+ * user always lands on multiples of 5 lb even when the stored kg value came from a kg user.
+ */
+export function bumpWeightKg(kg: number | null | undefined, delta: number, unit: WeightUnit): number {
+  const step = weightStep(unit);
+  const current = kg == null ? 0 : kgToUnit(kg, unit);
+  const next = Math.max(0, Math.min(1000, Math.round(current / step) * step + delta * step));
+  return unitToKg(next, unit);
+}
+
+export async function getWeightUnit(): Promise<WeightUnit> {
+  try {
+    const stored = await AsyncStorage.getItem(STORAGE_KEY);
+    return stored === "kg" || stored === "lb" ? stored : DEFAULT_WEIGHT_UNIT;
+  } catch {
+    return DEFAULT_WEIGHT_UNIT;
+  }
+}
+
+export async function setWeightUnit(unit: WeightUnit): Promise<void> {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, unit);
+  } catch {
+    // ignore
+  }
+}
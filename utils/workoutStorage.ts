@@ -1,20 +1,186 @@
 import * as FileSystem from "expo-file-system";
 import { Platform } from "react-native";
 
+import type { RepMetrics } from "@/utils/repTelemetry";
+
 const FILE_NAME = "workouts.json";
 
+export const WORKOUT_VERSION = 3;
+
+export type RepCountedBy = "sensor" | "manual";
+
+export type WorkoutRep = {
+  at: number; // Epoch ms when the rep was counted
+  countedBy: RepCountedBy;
+};
+
+/** What the app counted for a set the member corrected by hand. */
+export type SetCorrection = {
+  countedReps: number; // achievedReps before the post-session edit
+  countedRestBeforeSec: number; // restBeforeSec before the post-session edit
+  undoneReps: number; // Reps taken back during the session with -1 / Undo (already gone from `reps`)
+};
+
+export type WorkoutSet = {
+  targetReps: number;
+  achievedReps: number;
+  reps: WorkoutRep[]; // Empty for sets migrated from v1, which had no rep timestamps
+  restBeforeSec: number; // Rest taken before this set started (0 for the first set)
+  restTargetSec?: number; // Rest the member was aiming for before this set; absent without a target
+  weightKg?: number; // Load lifted, always in kg; absent for bodyweight sets and older records
+  telemetry?: RepMetrics[]; // Per-rep kinematics from the live characteristic
+  correction?: SetCorrection; // Absent when the set was saved as counted
+};
+
+export type WorkoutExercise = {
+  machineName: string;
+  planExerciseId?: string; // Set when the exercise was run from the saved plan
+  targetSets: number;
+  targetReps: number;
+  sets: WorkoutSet[];
+};
+
 export type Workout = {
+  version: typeof WORKOUT_VERSION;
   id: string;
   userId: string; // User ID from Supabase auth
-  machineName: string;
-  sets: number;
-  reps: number;
   completedAt: string; // ISO date string
-  setRepsCompleted: number[];
-  setRestTimes: number[];
+  updatedAt?: string; // ISO date string of the last local or remote change; used to resolve sync conflicts
   duration?: number; // Duration in seconds
+  gymId?: string; // Gym the workout happened at; absent for workouts from before gyms existed
+  fromPlan?: boolean; // True for a "run my plan" session covering several machines
+  exercises: WorkoutExercise[];
 };
 
+export type NewWorkout = Omit<Workout, "version" | "id" | "completedAt" | "updatedAt" | "userId">;
+
+/** Shape written by the first version of the app; every field is optional because old files were not validated. */
+type WorkoutV1 = {
+  id?: string;
+  userId?: string;
+  machineName?: string;
+  sets?: number;
+  reps?: number;
+  completedAt?: string;
+  setRepsCompleted?: number[];
+  setRestTimes?: number[];
+  duration?: number;
+  setTelemetry?: RepMetrics[][];
+};
+
+/** Single-machine record with per-set detail. */
+type WorkoutV2 = {
+  version: 2;
+  id: string;
+  userId: string;
+  machineName: string;
+  targetSets: number;
+  targetReps: number;
+  completedAt: string;
+  updatedAt?: string;
+  duration?: number;
+  sets: WorkoutSet[];
+};
+
+function toCount(value: unknown, fallback: number): number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0 ? Math.floor(value) : fallback;
+}
+
+function migrateV1(old: WorkoutV1): WorkoutV2 | null {
+  if (!old.id || !old.userId || !old.completedAt) return null;
+  const targetReps = toCount(old.reps, 0);
+  const repsCompleted = Array.isArray(old.setRepsCompleted) ? old.setRepsCompleted : [];
+  const targetSets = toCount(old.sets, repsCompleted.length);
+  // v1 stored the rest taken after set i at index i
+  const restTimes = Array.isArray(old.setRestTimes) ? old.setRestTimes : [];
+
+  return {
+    version: 2,
+    id: old.id,
+    userId: old.userId,
+    machineName: old.machineName ?? "Machine",
+    targetSets,
+    targetReps,
+    completedAt: old.completedAt,
+    duration: old.duration,
+    sets: Array.from({ length: targetSets }, (_, i) => ({
+      targetReps,
+      // v1 only saved finished sessions, so a set without a recorded count hit its target
+      achievedReps: toCount(repsCompleted[i], targetReps),
+      reps: [],
+      restBeforeSec: i === 0 ? 0 : toCount(restTimes[i - 1], 0),
+      telemetry: old.setTelemetry?.[i],
+    })),
+  };
+}
+
+function migrateV2(old: WorkoutV2): Workout | null {
+  if (!Array.isArray(old.sets)) return null;
+  return {
+    version: WORKOUT_VERSION,
+    id: old.id,
+    userId: old.userId,
+    completedAt: old.completedAt,
+    updatedAt: old.updatedAt,
+    duration: old.duration,
+    exercises: [
+      {
+        machineName: old.machineName,
+        targetSets: old.targetSets,
+        targetReps: old.targetReps,
+        sets: old.sets,
+      },
+    ],
+  };
+}
+
+/** Upgrade a stored record to the current version; null if it cannot be salvaged. */
+export function migrateWorkout(raw: unknown): Workout | null {
+  if (!raw || typeof raw !== "object") return null;
+  const record = raw as { version?: number };
+  if (record.version === WORKOUT_VERSION) {
+    const w = raw as Workout;
+    return Array.isArray(w.exercises) && w.exercises.every((e) => Array.isArray(e.sets)) ? w : null;
+  }
+  if (record.version === 2) return migrateV2(raw as WorkoutV2);
+  if (record.version === undefined || record.version === 1) {
+    const v2 = migrateV1(raw as WorkoutV1);
+    return v2 ? migrateV2(v2) : null;
+  }
+  return null;
+}
+
+/**
+ * Apply a manual correction to a set, keeping what was counted the first time it is corrected.
+ * Returns the set unchanged when nothing differs.
+ */
+export function correctSet(
+  set: WorkoutSet,
+  change: { achievedReps?: number; restBeforeSec?: number; undoneReps?: number }
+): WorkoutSet {
+  const achievedReps = change.achievedReps ?? set.achievedReps;
+  const restBeforeSec = change.restBeforeSec ?? set.restBeforeSec;
+  const undone = change.undoneReps ?? 0;
+  if (achievedReps === set.achievedReps && restBeforeSec === set.restBeforeSec && undone === 0) return set;
+  const correction: SetCorrection = set.correction ?? {
+    countedReps: set.achievedReps,
+    countedRestBeforeSec: set.restBeforeSec,
+    undoneReps: 0,
+  };
+  return {
+    ...set,
+    achievedReps,
+    restBeforeSec,
+    correction: { ...correction, undoneReps: correction.undoneReps + undone },
+  };
+}
+
+/** Label for history cards: the machine for single-machine sessions, a count for plan runs. */
+export function getWorkoutTitle(workout: Workout): string {
+  if (workout.exercises.length === 1) return workout.exercises[0].machineName;
+  return `Plan · ${workout.exercises.length} exercises`;
+}
+
 async function getFilePath(): Promise<string | null> {
   if (Platform.OS === "web") return null;
   const base = FileSystem.documentDirectory ?? FileSystem.cacheDirectory;
@@ -35,11 +201,12 @@ async function ensureDir(dir: string) {
   }
 }
 
-async function readWorkouts(): Promise<Workout[]> {
+async function readRawWorkouts(): Promise<unknown[]> {
   if (Platform.OS === "web") {
     try {
       const stored = typeof window !== "undefined" ? window.localStorage.getItem("workouts") : null;
-      return stored ? JSON.parse(stored) : [];
+      const parsed = stored ? JSON.parse(stored) : [];
+      return Array.isArray(parsed) ? parsed : [];
     } catch {
       return [];
     }
@@ -52,17 +219,47 @@ async function readWorkouts(): Promise<Workout[]> {
     const info = await FileSystem.getInfoAsync(filePath);
     if (!info.exists) return [];
     const content = await FileSystem.readAsStringAsync(filePath);
-    return JSON.parse(content);
+    const parsed = JSON.parse(content);
+    return Array.isArray(parsed) ? parsed : [];
   } catch {
     return [];
   }
 }
 
-async function writeWorkouts(workouts: Workout[]): Promise<void> {
+/**
+ * Records this version can't read (written by a newer app, or damaged) are carried along as-is
+ * on every write, so reading never loses history.
+ */
+type StoredWorkouts = { workouts: Workout[]; unreadable: unknown[] };
+
+/** Read all records, upgrading old ones in place so the file only ever holds the current version. */
+async function readWorkouts(): Promise<StoredWorkouts> {
+  const raw = await readRawWorkouts();
+  const workouts: Workout[] = [];
+  const unreadable: unknown[] = [];
+  let upgraded = false;
+  for (const r of raw) {
+    const w = migrateWorkout(r);
+    if (w) workouts.push(w);
+    else unreadable.push(r);
+    if (w && w !== r) upgraded = true;
+  }
+  if (upgraded) {
+    try {
+      await writeWorkouts({ workouts, unreadable });
+    } catch {
+      // keep serving the migrated copy; the upgrade is retried on next read
+    }
+  }
+  return { workouts, unreadable };
+}
+
+async function writeWorkouts({ workouts, unreadable }: StoredWorkouts): Promise<void> {
+  const records = [...unreadable, ...workouts];
   if (Platform.OS === "web") {
     try {
       if (typeof window !== "undefined") {
-        window.localStorage.setItem("workouts", JSON.stringify(workouts));
+        window.localStorage.setItem("workouts", JSON.stringify(records));
       }
     } catch {
       // ignore
@@ -75,28 +272,42 @@ async function writeWorkouts(workouts: Workout[]): Promise<void> {
 
   const dir = filePath.substring(0, filePath.lastIndexOf("/"));
   await ensureDir(dir);
-  await FileSystem.writeAsStringAsync(filePath, JSON.stringify(workouts));
+  await FileSystem.writeAsStringAsync(filePath, JSON.stringify(records));
 }
 
 export async function getWorkouts(userId: string): Promise<Workout[]> {
-  const workouts = await readWorkouts();
+  const { workouts } = await readWorkouts();
   // Filter by user ID and sort by date, most recent first
   return workouts
     .filter((w) => w.userId === userId)
     .sort((a, b) => new Date(b.completedAt).getTime() - new Date(a.completedAt).getTime());
 }
 
-export async function saveWorkout(
-  workout: Omit<Workout, "id" | "completedAt" | "userId">,
-  userId: string
-): Promise<void> {
-  const workouts = await readWorkouts();
+export async function getWorkout(userId: string, workoutId: string): Promise<Workout | null> {
+  const { workouts } = await readWorkouts();
+  return workouts.find((w) => w.id === workoutId && w.userId === userId) ?? null;
+}
+
+export async function saveWorkout(workout: NewWorkout, userId: string): Promise<Workout> {
+  const stored = await readWorkouts();
+  const now = new Date().toISOString();
   const newWorkout: Workout = {
     ...workout,
+    version: WORKOUT_VERSION,
     userId,
     id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-    completedAt: new Date().toISOString(),
+    completedAt: now,
+    updatedAt: now,
   };
-  workouts.push(newWorkout);
-  await writeWorkouts(workouts);
+  await writeWorkouts({ ...stored, workouts: [...stored.workouts, newWorkout] });
+  return newWorkout;
+}
+
+/** Insert or replace records by id (used when merging history pulled from Supabase). */
+export async function upsertWorkouts(incoming: Workout[]): Promise<void> {
+  if (incoming.length === 0) return;
+  const stored = await readWorkouts();
+  const byId = new Map(stored.workouts.map((w) => [w.id, w]));
+  for (const w of incoming) byId.set(w.id, w);
+  await writeWorkouts({ ...stored, workouts: [...byId.values()] });
 }
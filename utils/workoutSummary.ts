@@ -0,0 +1,51 @@
+import { timeUnderTensionMs } from "@/utils/repTelemetry";
+import type { Workout, WorkoutExercise } from "@/utils/workoutStorage";
+
+/**
+ * Totals shown on the workout summary, and the member's previous session on the same machine
+ * to compare them with.
+ */
+
+export type ExerciseTotals = {
+  reps: number;
+  targetReps: number;
+  sets: number;
+  /** Heaviest set; null for bodyweight work and records without loads */
+  topWeightKg: number | null;
+  /** Null when no rep has kinematics (manual counting, or a sensor without the live stream) */
+  timeUnderTensionMs: number | null;
+  correctedSets: number;
+};
+
+export function getExerciseTotals(exercise: WorkoutExercise): ExerciseTotals {
+  const loads = exercise.sets.map((s) => s.weightKg).filter((w): w is number => w != null);
+  return {
+    reps: exercise.sets.reduce((sum, s) => sum + s.achievedReps, 0),
+    targetReps: exercise.sets.reduce((sum, s) => sum + s.targetReps, 0),
+    sets: exercise.sets.length,
+    topWeightKg: loads.length > 0 ? Math.max(...loads) : null,
+    timeUnderTensionMs: timeUnderTensionMs(exercise.sets.flatMap((s) => s.telemetry ?? [])),
+    correctedSets: exercise.sets.filter((s) => s.correction).length,
+  };
+}
+
+export type PreviousExercise = { completedAt: string; exercise: WorkoutExercise };
+
+/**
+ * The most recent exercise on `machineName` completed before `before` (ISO), skipping the
+ * workout being summarized. `history` is newest first, as getWorkouts returns it.
+ */
+export function findPreviousExercise(
+  history: Workout[],
+  machineName: string,
+  before: string,
+  excludeWorkoutId?: string
+): PreviousExercise | null {
+  const beforeMs = new Date(before).getTime();
+  for (const w of history) {
+    if (w.id === excludeWorkoutId || new Date(w.completedAt).getTime() >= beforeMs) continue;
+    const exercise = w.exercises.find((e) => e.machineName === machineName);
+    if (exercise) return { completedAt: w.completedAt, exercise };
+  }
+  return null;
+}
@@ -0,0 +1,373 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { supabase } from "@/lib/supabase";
+import {
+  getWorkoutTitle,
+  getWorkouts,
+  migrateWorkout,
+  saveWorkout,
+  upsertWorkouts,
+  WORKOUT_VERSION,
+  type NewWorkout,
+  type Workout,
+  type WorkoutExercise,
+  type WorkoutSet,
+} from "@/utils/workoutStorage";
+
+/**
+ * Keeps local workout history and the Supabase `workouts` / `workout_sets` tables in step.
+ * Saved workouts go into a persisted upload queue so they survive being offline; uploads are
+ * upserts keyed by (user_id, client_id) so retrying never creates duplicates.
+ */
+
+const QUEUE_KEY = "workoutSyncQueue:v1";
+
+const WORKOUT_COLUMNS =
+  "client_id, version, from_plan, gym_id, duration_sec, completed_at, updated_at, " +
+  "workout_sets(exercise_index, machine_name, plan_exercise_id, exercise_target_sets, exercise_target_reps, " +
+  "set_index, target_reps, achieved_reps, rest_before_sec, rest_target_sec, weight_kg, reps, telemetry, correction)";
+
+type RemoteWorkoutSet = {
+  exercise_index: number;
+  machine_name: string;
+  plan_exercise_id: string | null;
+  exercise_target_sets: number;
+  exercise_target_reps: number;
+  set_index: number;
+  target_reps: number;
+  achieved_reps: number;
+  rest_before_sec: number;
+  rest_target_sec: number | null;
+  weight_kg: number | null;
+  reps: WorkoutSet["reps"] | null;
+  telemetry: WorkoutSet["telemetry"] | null;
+  correction: WorkoutSet["correction"] | null;
+};
+
+type RemoteWorkout = {
+  client_id: string;
+  version: number;
+  from_plan: boolean;
+  gym_id: string | null;
+  duration_sec: number | null;
+  completed_at: string;
+  updated_at: string;
+  workout_sets: RemoteWorkoutSet[] | null;
+};
+
+async function readQueue(): Promise<string[]> {
+  try {
+    const stored = await AsyncStorage.getItem(QUEUE_KEY);
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+async function writeQueue(ids: string[]): Promise<void> {
+  try {
+    await AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(ids));
+  } catch {
+    // ignore
+  }
+}
+
+export async function enqueueWorkoutUpload(workoutId: string): Promise<void> {
+  const queue = await readQueue();
+  if (queue.includes(workoutId)) return;
+  await writeQueue([...queue, workoutId]);
+}
+
+/** Save a finished workout locally and queue it for upload; the upload itself runs in the background. */
+export async function recordWorkout(workout: NewWorkout, userId: string): Promise<Workout> {
+  const saved = await saveWorkout(workout, userId);
+  void enqueueWorkoutUpload(saved.id).then(() => flushWorkoutQueue(userId));
+  return saved;
+}
+
+/** Save changes to a recorded workout (e.g. corrected sets) and queue the new version for upload. */
+export async function updateRecordedWorkout(workout: Workout): Promise<Workout> {
+  const updated: Workout = { ...workout, updatedAt: new Date().toISOString() };
+  await upsertWorkouts([updated]);
+  void enqueueWorkoutUpload(updated.id).then(() => flushWorkoutQueue(updated.userId));
+  return updated;
+}
+
+export async function getPendingUploadCount(): Promise<number> {
+  return (await readQueue()).length;
+}
+
+function toRemoteRow(w: Workout) {
+  return {
+    user_id: w.userId,
+    client_id: w.id,
+    version: w.version,
+    from_plan: w.fromPlan ?? false,
+    gym_id: w.gymId ?? null,
+    // Kept for readers of the single-machine columns; plan runs list every machine in workout_sets
+    machine_name: getWorkoutTitle(w),
+    duration_sec: w.duration ?? null,
+    completed_at: w.completedAt,
+    updated_at: w.updatedAt ?? w.completedAt,
+  };
+}
+
+function fromRemoteRow(row: RemoteWorkout, userId: string): Workout | null {
+  const rows = [...(row.workout_sets ?? [])].sort(
+    (a, b) => a.exercise_index - b.exercise_index || a.set_index - b.set_index
+  );
+  const exercises: WorkoutExercise[] = [];
+  for (const s of rows) {
+    // Exercise details are repeated on each of its set rows; the first one creates the group
+    let exercise = exercises[s.exercise_index];
+    if (!exercise) {
+      exercise = {
+        machineName: s.machine_name,
+        planExerciseId: s.plan_exercise_id ?? undefined,
+        targetSets: s.exercise_target_sets,
+        targetReps: s.exercise_target_reps,
+        sets: [],
+      };
+      exercises[s.exercise_index] = exercise;
+    }
+    exercise.sets.push({
+      targetReps: s.target_reps,
+      achievedReps: s.achieved_reps,
+      reps: s.reps ?? [],
+      restBeforeSec: s.rest_before_sec,
+      restTargetSec: s.rest_target_sec ?? undefined,
+      weightKg: s.weight_kg ?? undefined,
+      telemetry: s.telemetry ?? undefined,
+      correction: s.correction ?? undefined,
+    });
+  }
+  // Run through the same validation as local records so a bad row can't break history rendering
+  return migrateWorkout({
+    version: WORKOUT_VERSION,
+    id: row.client_id,
+    userId,
+    completedAt: row.completed_at,
+    updatedAt: row.updated_at,
+    duration: row.duration_sec ?? undefined,
+    fromPlan: row.from_plan || undefined,
+    gymId: row.gym_id ?? undefined,
+    // Drop holes left by exercises that had no set rows
+    exercises: exercises.filter(Boolean),
+  });
+}
+
+/** "rejected": the server refused the record itself, so retrying the same copy can't succeed. */
+type UploadResult = "uploaded" | "retry" | "rejected";
+
+// Postgres data exceptions (22…) and constraint violations (23…) fail the same way every time
+function uploadFailure(error: { code?: string } | null): UploadResult {
+  return error?.code?.startsWith("22") || error?.code?.startsWith("23") ? "rejected" : "retry";
+}
+
+async function uploadWorkout(w: Workout): Promise<UploadResult> {
+  if (!supabase) return "retry";
+  const { data, error } = await supabase
+    .from("workouts")
+    .upsert(toRemoteRow(w), { onConflict: "user_id,client_id" })
+    .select("id")
+    .single();
+  if (error || !data) return uploadFailure(error);
+
+  const setRows = w.exercises.flatMap((e, exerciseIndex) =>
+    e.sets.map((s: WorkoutSet, i) => ({
+      workout_id: data.id,
+      user_id: w.userId,
+      exercise_index: exerciseIndex,
+      machine_name: e.machineName,
+      plan_exercise_id: e.planExerciseId ?? null,
+      exercise_target_sets: e.targetSets,
+      exercise_target_reps: e.targetReps,
+      set_index: i,
+      target_reps: s.targetReps,
+      achieved_reps: s.achievedReps,
+      rest_before_sec: s.restBeforeSec,
+      rest_target_sec: s.restTargetSec ?? null,
+      weight_kg: s.weightKg ?? null,
+      reps: s.reps,
+      telemetry: s.telemetry ?? null,
+      correction: s.correction ?? null,
+    }))
+  );
+  if (setRows.length > 0) {
+    const { error: setsError } = await supabase
+      .from("workout_sets")
+      .upsert(setRows, { onConflict: "workout_id,exercise_index,set_index" });
+    if (setsError) return uploadFailure(setsError);
+  }
+
+  // Sets taken away since the last upload (an edit down to fewer sets) must not come back on the next pull
+  const staleFilter = [
+    `exercise_index.gt.${w.exercises.length - 1}`,
+    ...w.exercises.map((e, i) => `and(exercise_index.eq.${i},set_index.gt.${e.sets.length - 1})`),
+  ].join(",");
+  const { error: deleteError } = await supabase
+    .from("workout_sets")
+    .delete()
+    .eq("workout_id", data.id)
+    .or(staleFilter);
+  return deleteError ? uploadFailure(deleteError) : "uploaded";
+}
+
+type FlushResult = { uploaded: number; remaining: number };
+
+let flushInFlight: Promise<FlushResult> | null = null;
+
+/**
+ * Upload every queued workout that belongs to `userId`. Transient failures stay queued for the
+ * next attempt; a record the server rejects leaves the queue (it stays in local history, and a
+ * later edit queues it again). Flushes run one at a time: a call made during a flush starts
+ * once that one has finished, so anything queued in the meantime goes up too.
+ */
+export function flushWorkoutQueue(userId: string): Promise<FlushResult> {
+  const run = (flushInFlight ?? Promise.resolve()).catch(() => {}).then(() => flushQueueOnce(userId));
+  flushInFlight = run;
+  const clear = () => {
+    if (flushInFlight === run) flushInFlight = null;
+  };
+  void run.then(clear, clear);
+  return run;
+}
+
+async function flushQueueOnce(userId: string): Promise<FlushResult> {
+  const queue = await readQueue();
+  if (!supabase || queue.length === 0) return { uploaded: 0, remaining: queue.length };
+
+  const local = new Map((await getWorkouts(userId)).map((w) => [w.id, w]));
+  // Uploaded or rejected; everything else stays queued
+  const settled = new Map<string, Workout>();
+  let uploaded = 0;
+  for (const id of queue) {
+    const w = local.get(id);
+    // Another user's workout: leave it for when they sign in
+    if (!w) continue;
+    try {
+      const result = await uploadWorkout(w);
+      if (result === "uploaded") uploaded += 1;
+      if (result !== "retry") settled.set(id, w);
+    } catch {
+      // stays queued
+    }
+  }
+
+  // The queue and history may have changed during the uploads: keep ids queued meanwhile, and
+  // workouts edited after the copy that went up
+  const current = new Map((await getWorkouts(userId)).map((w) => [w.id, w]));
+  const remaining = (await readQueue()).filter((id) => {
+    const sent = settled.get(id);
+    return !sent || current.get(id)?.updatedAt !== sent.updatedAt;
+  });
+  await writeQueue(remaining);
+  return { uploaded, remaining: remaining.length };
+}
+
+export async function pullRemoteWorkouts(userId: string): Promise<Workout[] | null> {
+  if (!supabase) return null;
+  const { data, error } = await supabase
+    .from("workouts")
+    .select(WORKOUT_COLUMNS)
+    .eq("user_id", userId)
+    .order("completed_at", { ascending: false });
+  if (error) return null;
+  return ((data ?? []) as unknown as RemoteWorkout[])
+    .map((row) => fromRemoteRow(row, userId))
+    .filter((w): w is Workout => w !== null);
+}
+
+function changedAt(w: Workout): number {
+  const t = new Date(w.updatedAt ?? w.completedAt).getTime();
+  return Number.isFinite(t) ? t : 0;
+}
+
+/**
+ * Same content regardless of key order, absent vs undefined fields, or how the server formats
+ * timestamps ("…+00:00" where the device wrote "…Z").
+ */
+function isSameWorkout(a: Workout, b: Workout): boolean {
+  const canonical = (w: Workout) =>
+    JSON.stringify(
+      { ...w, completedAt: new Date(w.completedAt).getTime(), updatedAt: changedAt(w) },
+      (_key, value) =>
+        value && typeof value === "object" && !Array.isArray(value)
+          ? Object.fromEntries(Object.entries(value).sort(([x], [y]) => (x < y ? -1 : x > y ? 1 : 0)))
+          : value
+    );
+  return canonical(a) === canonical(b);
+}
+
+/**
+ * Merge by client id. When both sides have a record, the later `updatedAt` wins and a tie goes
+ * to the server copy, so every device converges on the same result.
+ */
+export function mergeWorkoutHistories(
+  local: Workout[],
+  remote: Workout[]
+): { merged: Workout[]; fromRemote: Workout[]; toUpload: string[] } {
+  const remoteById = new Map(remote.map((w) => [w.id, w]));
+  const merged = new Map<string, Workout>();
+  const fromRemote: Workout[] = [];
+  const toUpload: string[] = [];
+
+  for (const l of local) {
+    const r = remoteById.get(l.id);
+    if (!r) {
+      merged.set(l.id, l);
+      toUpload.push(l.id);
+    } else if (changedAt(l) > changedAt(r)) {
+      merged.set(l.id, l);
+      toUpload.push(l.id);
+    } else {
+      merged.set(l.id, r);
+      if (!isSameWorkout(l, r)) fromRemote.push(r);
+    }
+  }
+  for (const r of remote) {
+    if (merged.has(r.id)) continue;
+    merged.set(r.id, r);
+    fromRemote.push(r);
+  }
+
+  return {
+    merged: [...merged.values()].sort(
+      (a, b) => new Date(b.completedAt).getTime() - new Date(a.completedAt).getTime()
+    ),
+    fromRemote,
+    toUpload,
+  };
+}
+
+let syncInFlight: Promise<boolean> | null = null;
+
+/**
+ * Upload queued workouts, pull remote history, merge it into local storage and queue anything
+ * the server is missing. Returns true when local history changed.
+ */
+export function syncWorkoutHistory(userId: string): Promise<boolean> {
+  if (syncInFlight) return syncInFlight;
+  syncInFlight = (async () => {
+    try {
+      if (!supabase) return false;
+      await flushWorkoutQueue(userId);
+      const remote = await pullRemoteWorkouts(userId);
+      if (!remote) return false;
+      const local = await getWorkouts(userId);
+      const { fromRemote, toUpload } = mergeWorkoutHistories(local, remote);
+      await upsertWorkouts(fromRemote);
+      if (toUpload.length > 0) {
+        for (const id of toUpload) await enqueueWorkoutUpload(id);
+        await flushWorkoutQueue(userId);
+      }
+      return fromRemote.length > 0;
+    } catch {
+      return false;
+    } finally {
+      syncInFlight = null;
+    }
+  })();
+  return syncInFlight;
+}